@@ -0,0 +1,67 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as ast from './main';
+import { Dockerfile } from './dockerfile';
+import { ImageConfigEvaluator } from './imageConfigEvaluator';
+import { ImageTemplate } from './imageTemplate';
+import { From } from './instructions/from';
+
+export class BuildStage extends ImageTemplate implements ast.BuildStage {
+
+    private readonly dockerfile: Dockerfile;
+    private readonly index: number;
+    private readonly from: From;
+
+    constructor(dockerfile: Dockerfile, index: number, from: From) {
+        super();
+        this.dockerfile = dockerfile;
+        this.index = index;
+        this.from = from;
+    }
+
+    public getFrom(): From {
+        return this.from;
+    }
+
+    public getName(): string | null {
+        return this.from.getBuildStage();
+    }
+
+    public getIndex(): number {
+        return this.index;
+    }
+
+    public getParent(): BuildStage | null {
+        const image = this.from.getImage();
+        if (image === null) {
+            return null;
+        }
+        const buildStages = this.dockerfile.getBuildStages();
+        for (let i = 0; i < this.index; i++) {
+            const name = buildStages[i].getName();
+            if (name !== null && name.toLowerCase() === image.toLowerCase()) {
+                return buildStages[i];
+            }
+        }
+        return null;
+    }
+
+    public getImageConfig(): ast.ImageConfig {
+        return new ImageConfigEvaluator(this.dockerfile).evaluate(this);
+    }
+
+    public getEffectiveUser(line?: number): string | null {
+        const user = new ImageConfigEvaluator(this.dockerfile).evaluate(this, line).User;
+        return user === undefined ? null : user;
+    }
+
+    public getContainerArgv(): string[] {
+        const config = this.getImageConfig();
+        const entrypoint = config.Entrypoint ? config.Entrypoint : [];
+        return entrypoint.concat(config.Cmd ? config.Cmd : []);
+    }
+}
@@ -0,0 +1,80 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { BuildStageDependency } from './main';
+import { BuildStageNode } from './buildStageNode';
+import { Instruction } from './instruction';
+
+/**
+ * A reference from one build stage to another build stage.
+ */
+export class BuildStageEdge {
+
+    private readonly type: BuildStageDependency;
+    private readonly dependent: BuildStageNode;
+    private readonly dependency: BuildStageNode | null;
+    private readonly reference: string;
+    private readonly range: Range;
+    private readonly instruction: Instruction;
+
+    constructor(type: BuildStageDependency, dependent: BuildStageNode, dependency: BuildStageNode | null, reference: string, range: Range, instruction: Instruction) {
+        this.type = type;
+        this.dependent = dependent;
+        this.dependency = dependency;
+        this.reference = reference;
+        this.range = range;
+        this.instruction = instruction;
+    }
+
+    public toString(): string {
+        return this.dependent.toString() + " -> " + this.reference;
+    }
+
+    /**
+     * Returns how the dependent build stage refers to its dependency.
+     */
+    public getType(): BuildStageDependency {
+        return this.type;
+    }
+
+    /**
+     * Returns the build stage that contains the reference.
+     */
+    public getDependent(): BuildStageNode {
+        return this.dependent;
+    }
+
+    /**
+     * Returns the build stage that is being referenced.
+     *
+     * @return the referenced build stage, or null if the reference is
+     *         an index that does not correspond to any build stage
+     */
+    public getDependency(): BuildStageNode | null {
+        return this.dependency;
+    }
+
+    /**
+     * Returns the name or index of the referenced build stage as it
+     * was written in the Dockerfile.
+     */
+    public getReference(): string {
+        return this.reference;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the FROM, COPY, or RUN instruction that declared this
+     * reference.
+     */
+    public getInstruction(): Instruction {
+        return this.instruction;
+    }
+}
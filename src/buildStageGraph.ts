@@ -0,0 +1,255 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { BuildStageDependency } from './main';
+import { BuildStageEdge } from './buildStageEdge';
+import { BuildStageNode } from './buildStageNode';
+import { Dockerfile } from './dockerfile';
+import { Copy } from './instructions/copy';
+import { Run } from './instructions/run';
+
+/**
+ * Models how the build stages of a Dockerfile depend on one another.
+ * A build stage depends on another build stage if it uses it as its
+ * base image with FROM <stage>, copies files from it with
+ * COPY --from=<stage>, or mounts it with RUN --mount=from=<stage>.
+ *
+ * References that do not match the name of a build stage are assumed
+ * to refer to an external image and will not be included in the graph.
+ */
+export class BuildStageGraph {
+
+    private readonly dockerfile: Dockerfile;
+    private readonly nodes: BuildStageNode[] = [];
+    private readonly edges: BuildStageEdge[] = [];
+
+    constructor(dockerfile: Dockerfile) {
+        this.dockerfile = dockerfile;
+        const buildStages = dockerfile.getBuildStages();
+        for (let i = 0; i < buildStages.length; i++) {
+            this.nodes.push(new BuildStageNode(i, buildStages[i]));
+        }
+
+        for (const node of this.nodes) {
+            const parent = node.getBuildStage().getParent();
+            if (parent !== null) {
+                const dependency = this.nodes[parent.getIndex()];
+                this.edges.push(new BuildStageEdge(BuildStageDependency.FROM, node, dependency, node.getBaseImage(), node.getBaseImageRange(), node.getFrom()));
+            }
+
+            for (const instruction of node.getBuildStage().getInstructions()) {
+                if (instruction instanceof Copy) {
+                    const flag = instruction.getFromFlag();
+                    if (flag !== null) {
+                        this.addReference(BuildStageDependency.COPY, node, flag.getValue(), flag.getValueRange(), instruction);
+                    }
+                } else if (instruction instanceof Run) {
+                    for (const mount of instruction.getMounts()) {
+                        const option = mount.getOption("from");
+                        if (option !== null) {
+                            this.addReference(BuildStageDependency.MOUNT, node, option.getValue(), option.getValueRange(), instruction);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private addReference(type: BuildStageDependency, node: BuildStageNode, reference: string | null, range: Range, instruction: Copy | Run): void {
+        if (reference === null || reference === "") {
+            return;
+        }
+        const dependency = this.getNode(reference);
+        if (dependency !== null || /^\d+$/.test(reference)) {
+            this.edges.push(new BuildStageEdge(type, node, dependency, reference, range, instruction));
+        }
+    }
+
+    /**
+     * Returns the build stages of the Dockerfile in the order that
+     * they were declared.
+     */
+    public getNodes(): BuildStageNode[] {
+        return this.nodes;
+    }
+
+    /**
+     * Finds the build stage that the given name or index refers to.
+     * Names are matched case-insensitively.
+     *
+     * @param reference the name or zero-based index of a build stage
+     * @return the matching build stage, or null if no build stage
+     *         matches
+     */
+    public getNode(reference: string | number): BuildStageNode | null {
+        const buildStage = this.dockerfile.getBuildStage(reference);
+        return buildStage === null ? null : this.nodes[buildStage.getIndex()];
+    }
+
+    /**
+     * Returns every reference between the build stages in the order
+     * that they appear in the Dockerfile.
+     */
+    public getEdges(): BuildStageEdge[] {
+        return this.edges;
+    }
+
+    /**
+     * Returns the references that the given build stage makes to
+     * other build stages.
+     */
+    public getDependencies(node: BuildStageNode): BuildStageEdge[] {
+        return this.edges.filter(edge => edge.getDependent() === node);
+    }
+
+    /**
+     * Returns the references that other build stages make to the
+     * given build stage.
+     */
+    public getDependents(node: BuildStageNode): BuildStageEdge[] {
+        return this.edges.filter(edge => edge.getDependency() === node);
+    }
+
+    /**
+     * Returns the references that use an index which does not
+     * correspond to any of the Dockerfile's build stages.
+     */
+    public getUnknownReferences(): BuildStageEdge[] {
+        return this.edges.filter(edge => edge.getDependency() === null);
+    }
+
+    /**
+     * Finds the groups of build stages that depend on each other
+     * either directly or indirectly. A build stage that refers to
+     * itself will be returned as a group with a single build stage.
+     *
+     * @return the build stages of each cycle sorted by their index
+     */
+    public getCycles(): BuildStageNode[][] {
+        // Tarjan's strongly connected components algorithm
+        const indices: number[] = [];
+        const lowLinks: number[] = [];
+        const stack: BuildStageNode[] = [];
+        const cycles: BuildStageNode[][] = [];
+        let counter = 0;
+
+        const connect = (node: BuildStageNode) => {
+            const index = node.getIndex();
+            indices[index] = counter;
+            lowLinks[index] = counter;
+            counter++;
+            stack.push(node);
+
+            for (const edge of this.getDependencies(node)) {
+                const dependency = edge.getDependency();
+                if (dependency === null) {
+                    continue;
+                }
+                const dependencyIndex = dependency.getIndex();
+                if (indices[dependencyIndex] === undefined) {
+                    connect(dependency);
+                    lowLinks[index] = Math.min(lowLinks[index], lowLinks[dependencyIndex]);
+                } else if (stack.indexOf(dependency) !== -1) {
+                    lowLinks[index] = Math.min(lowLinks[index], indices[dependencyIndex]);
+                }
+            }
+
+            if (lowLinks[index] === indices[index]) {
+                const component: BuildStageNode[] = [];
+                let member: BuildStageNode;
+                do {
+                    member = stack.pop();
+                    component.push(member);
+                } while (member !== node);
+
+                if (component.length > 1 || this.getDependencies(node).some(edge => edge.getDependency() === node)) {
+                    cycles.push(component.sort((a, b) => a.getIndex() - b.getIndex()));
+                }
+            }
+        };
+
+        for (const node of this.nodes) {
+            if (indices[node.getIndex()] === undefined) {
+                connect(node);
+            }
+        }
+        return cycles.sort((a, b) => a[0].getIndex() - b[0].getIndex());
+    }
+
+    /**
+     * Sorts the build stages so that every build stage comes after
+     * the build stages that it depends on. Build stages that do not
+     * depend on each other will retain their declared order.
+     *
+     * @return the sorted build stages, or null if the build stages
+     *         have a cyclic dependency
+     */
+    public getTopologicalOrder(): BuildStageNode[] | null {
+        const order: BuildStageNode[] = [];
+        const remaining = this.nodes.slice();
+        while (remaining.length > 0) {
+            let found = false;
+            for (let i = 0; i < remaining.length; i++) {
+                const ready = this.getDependencies(remaining[i]).every(edge => {
+                    const dependency = edge.getDependency();
+                    return dependency === null || order.indexOf(dependency) !== -1;
+                });
+                if (ready) {
+                    order.push(remaining[i]);
+                    remaining.splice(i, 1);
+                    found = true;
+                    break;
+                }
+            }
+
+            if (!found) {
+                return null;
+            }
+        }
+        return order;
+    }
+
+    /**
+     * Determines which build stages need to be built in order to
+     * build the given target build stage. The target will be
+     * included in the returned build stages.
+     *
+     * @param target the name or zero-based index of the build stage
+     *               to build
+     * @return the required build stages with every build stage placed
+     *         after its dependencies, or null if the target does not
+     *         match any build stage
+     */
+    public getRequiredStages(target: string | number): BuildStageNode[] | null {
+        const node = this.getNode(target);
+        if (node === null) {
+            return null;
+        }
+
+        const required: BuildStageNode[] = [];
+        const visit = (current: BuildStageNode) => {
+            if (required.indexOf(current) !== -1) {
+                return;
+            }
+            // mark the build stage as visited before its dependencies to stop cycles
+            required.push(current);
+            for (const edge of this.getDependencies(current)) {
+                const dependency = edge.getDependency();
+                if (dependency !== null) {
+                    visit(dependency);
+                }
+            }
+        };
+        visit(node);
+
+        const order = this.getTopologicalOrder();
+        if (order === null) {
+            return required.sort((a, b) => a.getIndex() - b.getIndex());
+        }
+        return order.filter(stage => required.indexOf(stage) !== -1);
+    }
+}
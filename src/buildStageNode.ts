@@ -0,0 +1,82 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { BuildStage } from './buildStage';
+import { From } from './instructions/from';
+
+/**
+ * A build stage in a BuildStageGraph. Each node corresponds to one of
+ * the FROM instructions in the Dockerfile.
+ */
+export class BuildStageNode {
+
+    private readonly index: number;
+    private readonly from: From;
+    private readonly buildStage: BuildStage;
+
+    constructor(index: number, buildStage: BuildStage) {
+        this.index = index;
+        this.from = buildStage.getFrom();
+        this.buildStage = buildStage;
+    }
+
+    public toString(): string {
+        const name = this.getName();
+        return name === null ? this.index.toString() : name;
+    }
+
+    /**
+     * Returns the zero-based index of this build stage in the
+     * Dockerfile. The index can be used to refer to the stage in a
+     * COPY --from=<index> instruction.
+     */
+    public getIndex(): number {
+        return this.index;
+    }
+
+    /**
+     * Returns the name that has been assigned to this build stage
+     * with FROM <image> AS <name>.
+     *
+     * @return this build stage's name, or null if it has not been
+     *         given one
+     */
+    public getName(): string | null {
+        return this.from.getBuildStage();
+    }
+
+    public getNameRange(): Range | null {
+        return this.from.getBuildStageRange();
+    }
+
+    /**
+     * Returns the image that this build stage is based on as written
+     * in its FROM instruction. This may be the name of another build
+     * stage.
+     *
+     * @return the base image of this build stage, or null if the FROM
+     *         instruction has no arguments
+     */
+    public getBaseImage(): string | null {
+        return this.from.getImage();
+    }
+
+    public getBaseImageRange(): Range | null {
+        return this.from.getImageRange();
+    }
+
+    public getFrom(): From {
+        return this.from;
+    }
+
+    /**
+     * Returns the build stage that this node represents.
+     */
+    public getBuildStage(): BuildStage {
+        return this.buildStage;
+    }
+}
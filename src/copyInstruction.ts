@@ -0,0 +1,220 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { TextDocument, Range, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { CommandForm, DiagnosticCode } from './main';
+import { Argument } from './argument';
+import { Dockerfile } from './dockerfile';
+import { Flag } from './flag';
+import { JSONInstruction } from './jsonInstruction';
+
+/**
+ * The flags and arguments that the ADD and COPY instructions share
+ * as they both copy files into the image.
+ */
+export abstract class CopyInstruction extends JSONInstruction {
+
+    constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
+        super(document, range, dockerfile, escapeChar, instruction, instructionRange);
+    }
+
+    /**
+     * Returns the names of the flags that this instruction supports.
+     */
+    protected abstract getSupportedFlags(): string[];
+
+    public stopSearchingForFlags(argument: string): boolean {
+        return argument.indexOf("--") !== 0;
+    }
+
+    /**
+     * Returns the problems of this instruction. In addition to the
+     * problems found by JSONInstruction, an error will be included for
+     * every flag that the instruction does not support and for every
+     * flag that has already been declared. Only --exclude may be
+     * declared more than once.
+     */
+    public getDiagnostics(): Diagnostic[] {
+        const diagnostics = super.getDiagnostics();
+        const supported = this.getSupportedFlags();
+        const declared: string[] = [];
+        for (const flag of this.getFlags()) {
+            const name = flag.getName();
+            if (supported.indexOf(name) === -1) {
+                diagnostics.push(Diagnostic.create(
+                    flag.getNameRange(),
+                    "Unknown flag: " + name,
+                    DiagnosticSeverity.Error,
+                    DiagnosticCode.UnknownFlag,
+                    "dockerfile-ast"
+                ));
+            } else if (declared.indexOf(name) !== -1 && name !== "exclude") {
+                diagnostics.push(Diagnostic.create(
+                    flag.getNameRange(),
+                    "Duplicate flag specified: " + name,
+                    DiagnosticSeverity.Error,
+                    DiagnosticCode.DuplicateFlag,
+                    "dockerfile-ast"
+                ));
+            }
+            declared.push(name);
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Returns the files or directories that this instruction will
+     * copy. The arguments will be the same regardless of whether they
+     * have been written as a JSON array or not. The quotes of a JSON
+     * string will not be included in its argument's value or range.
+     * 
+     * @return every argument except for the destination, or the only
+     *         argument if there is just one
+     */
+    public getSources(): Argument[] {
+        const args = this.getPathArguments();
+        return args.length < 2 ? args : args.slice(0, args.length - 1);
+    }
+
+    /**
+     * Returns the path in the image that the sources will be copied
+     * to.
+     * 
+     * @return the last argument, or null if this instruction has less
+     *         than two arguments
+     */
+    public getDestination(): Argument | null {
+        const args = this.getPathArguments();
+        return args.length < 2 ? null : args[args.length - 1];
+    }
+
+    private getPathArguments(): Argument[] {
+        if (this.getForm() === CommandForm.SHELL) {
+            return this.getArguments();
+        }
+        return this.getJSONStrings().map(arg => new Argument(arg.getJSONValue(), arg.getJSONRange()));
+    }
+
+    /**
+     * Returns the --chown flag of this instruction. If multiple flags
+     * have been declared, the last one will be returned.
+     */
+    public getChownFlag(): Flag | null {
+        return this.getLastFlag("chown");
+    }
+
+    /**
+     * Returns the user that will own the copied files. This is the
+     * part of the --chown flag's value before its colon.
+     *
+     * @return the name or ID of the user, or null if this instruction
+     *         does not have a --chown flag with a user
+     */
+    public getChownUser(): string | null {
+        const flag = this.getChownFlag();
+        const value = flag === null ? null : flag.getValue();
+        if (value === null) {
+            return null;
+        }
+        const user = value.split(':')[0];
+        return user === "" ? null : user;
+    }
+
+    /**
+     * Returns the group that will own the copied files. This is the
+     * part of the --chown flag's value after its colon.
+     *
+     * @return the name or ID of the group, or null if this instruction
+     *         does not have a --chown flag with a group
+     */
+    public getChownGroup(): string | null {
+        const flag = this.getChownFlag();
+        const value = flag === null ? null : flag.getValue();
+        const index = value === null ? -1 : value.indexOf(':');
+        if (index === -1 || index === value.length - 1) {
+            return null;
+        }
+        return value.substring(index + 1);
+    }
+
+    /**
+     * Returns the --chmod flag of this instruction. If multiple flags
+     * have been declared, the last one will be returned.
+     */
+    public getChmodFlag(): Flag | null {
+        return this.getLastFlag("chmod");
+    }
+
+    /**
+     * Returns the permissions that the copied files will be given.
+     * The permissions may be in octal notation such as 755 or in
+     * symbolic notation such as u=rwx,go=rx.
+     *
+     * @return the permissions, or null if this instruction does not
+     *         have a --chmod flag with a value
+     */
+    public getChmod(): string | null {
+        const flag = this.getChmodFlag();
+        return flag === null ? null : flag.getValue();
+    }
+
+    /**
+     * Returns the permissions of the --chmod flag as a number if they
+     * are in octal notation. Thus, for --chmod=755, the permissions
+     * would be 493.
+     *
+     * @return the permissions, or null if this instruction does not
+     *         have a --chmod flag with permissions in octal notation
+     */
+    public getChmodOctal(): number | null {
+        const chmod = this.getChmod();
+        return chmod !== null && /^[0-7]{1,4}$/.test(chmod) ? parseInt(chmod, 8) : null;
+    }
+
+    /**
+     * Returns the --link flag of this instruction. If multiple flags
+     * have been declared, the last one will be returned.
+     */
+    public getLinkFlag(): Flag | null {
+        return this.getLastFlag("link");
+    }
+
+    /**
+     * Returns whether the copied files will be added to their own
+     * layer that is independent of the layers before it.
+     */
+    public isLink(): boolean {
+        return this.isEnabled(this.getLinkFlag());
+    }
+
+    /**
+     * Returns the --exclude flags of this instruction in the order
+     * that they were declared.
+     */
+    public getExcludeFlags(): Flag[] {
+        return this.getFlags().filter(flag => flag.getName() === "exclude");
+    }
+
+    /**
+     * Returns the patterns of the files that will not be copied.
+     */
+    public getExcludes(): string[] {
+        const excludes = [];
+        for (const flag of this.getExcludeFlags()) {
+            const value = flag.getValue();
+            if (value !== null) {
+                excludes.push(value);
+            }
+        }
+        return excludes;
+    }
+
+    /**
+     * Determines whether the given boolean flag has been enabled. A
+     * flag without a value such as --link is the same as --link=true.
+     */
+    protected isEnabled(flag: Flag | null): boolean {
+        return flag !== null && (flag.getValue() === null || flag.getValue() === "true");
+    }
+}
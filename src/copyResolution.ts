@@ -0,0 +1,67 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { CopySource } from './copySource';
+import { Instruction } from './instruction';
+
+/**
+ * The files that a COPY or ADD instruction will copy from a build
+ * context and the path in the image that they will be copied to.
+ */
+export class CopyResolution {
+
+    private readonly instruction: Instruction;
+    private readonly sources: CopySource[];
+    private readonly destination: string | null;
+    private readonly destinationRange: Range | null;
+
+    constructor(instruction: Instruction, sources: CopySource[], destination: string | null, destinationRange: Range | null) {
+        this.instruction = instruction;
+        this.sources = sources;
+        this.destination = destination;
+        this.destinationRange = destinationRange;
+    }
+
+    /**
+     * Returns the COPY or ADD instruction that was resolved.
+     */
+    public getInstruction(): Instruction {
+        return this.instruction;
+    }
+
+    /**
+     * Returns the sources of the instruction in the order that they
+     * were written.
+     */
+    public getSources(): CopySource[] {
+        return this.sources;
+    }
+
+    /**
+     * Returns the sources of the instruction that are from the build
+     * context but did not match any of its files.
+     */
+    public getUnmatchedSources(): CopySource[] {
+        return this.sources.filter(source => source.isUnmatched());
+    }
+
+    /**
+     * Returns the absolute path in the image that the sources will be
+     * copied to. A relative destination is resolved against the
+     * working directory of the build stage at the instruction.
+     *
+     * @return the cleaned destination, or null if the instruction has
+     *         no destination
+     */
+    public getDestination(): string | null {
+        return this.destination;
+    }
+
+    public getDestinationRange(): Range | null {
+        return this.destinationRange;
+    }
+}
@@ -0,0 +1,182 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { AddSourceType, BuildContext, SourceOrigin } from './main';
+import { Argument } from './argument';
+import { BuildStage } from './buildStage';
+import { CopyInstruction } from './copyInstruction';
+import { CopyResolution } from './copyResolution';
+import { CopySource } from './copySource';
+import { Dockerfile } from './dockerfile';
+import { Dockerignore } from './dockerignore';
+import { Expansion } from './expansion';
+import { Flag } from './flag';
+import { IgnorePattern } from './ignorePattern';
+import { ImageConfigEvaluator } from './imageConfigEvaluator';
+import { Util } from './util';
+import { Add } from './instructions/add';
+
+/**
+ * Resolves the sources of COPY and ADD instructions against the files
+ * of a build context.
+ */
+export class CopyResolver {
+
+    private readonly dockerfile: Dockerfile;
+    // without a prototype so that files such as constructor can be looked up
+    private readonly files: { [path: string]: boolean } = Object.create(null);
+    private readonly directories: { [path: string]: boolean } = Object.create(null);
+
+    constructor(dockerfile: Dockerfile, context: BuildContext) {
+        this.dockerfile = dockerfile;
+        const dockerignore = context.dockerignore ? context.dockerignore : null;
+        for (const entry of context.files) {
+            const path = CopyResolver.normalize(entry);
+            if (path === "" || (dockerignore !== null && dockerignore.matches(path))) {
+                continue;
+            }
+            if (entry.charAt(entry.length - 1) === '/') {
+                this.directories[path] = true;
+            } else {
+                this.files[path] = true;
+            }
+            // the parent directories of an included file are always sent
+            const segments = path.split('/');
+            for (let i = 1; i < segments.length; i++) {
+                this.directories[segments.slice(0, i).join('/')] = true;
+            }
+        }
+    }
+
+    /**
+     * Resolves the sources of the given instruction.
+     *
+     * @param instruction the ADD or COPY instruction to resolve
+     * @param from the value of the instruction's --from flag, if any
+     * @param parents whether the instruction has been declared with
+     *                --parents
+     * @param excludes the instruction's --exclude flags
+     * @return the files that the instruction will copy
+     */
+    public resolve(instruction: CopyInstruction, from: string | null, parents: boolean, excludes: Flag[]): CopyResolution {
+        const destinationArgument = instruction.getDestination();
+        if (destinationArgument === null) {
+            return new CopyResolution(instruction, [], null, null);
+        }
+
+        const sourceArguments = instruction.getSources().map(arg => new Argument(this.expand(instruction, arg.getValue()), arg.getRange()));
+        const destinationValue = this.expand(instruction, destinationArgument.getValue());
+        const destination = this.resolveDestination(instruction, destinationValue);
+        // the destination must be a directory if there are multiple files to copy
+        const directory = /(^|\/)\.?$/.test(destinationValue) || sourceArguments.length > 1;
+
+        const patterns: IgnorePattern[] = [];
+        for (const flag of excludes) {
+            const value = flag.getValue();
+            if (value !== null) {
+                patterns.push(new IgnorePattern(CopyResolver.normalize(this.expand(instruction, value)), flag.getValueRange(), false));
+            }
+        }
+        const exclusions = new Dockerignore(patterns);
+
+        const sources: CopySource[] = [];
+        for (const arg of sourceArguments) {
+            const value = arg.getValue();
+            if (from !== null) {
+                const buildStage = this.dockerfile.getBuildStage(this.expand(instruction, from));
+                const origin = buildStage === null ? SourceOrigin.IMAGE : SourceOrigin.STAGE;
+                sources.push(new CopySource(value, arg.getRange(), origin, buildStage, [], [], []));
+            } else if (value.indexOf("<<") === 0) {
+                sources.push(new CopySource(value, arg.getRange(), SourceOrigin.HEREDOC, null, [], [], []));
+            } else if (instruction instanceof Add && (instruction.getSourceType(arg) === AddSourceType.URL || instruction.getSourceType(arg) === AddSourceType.GIT)) {
+                sources.push(new CopySource(value, arg.getRange(), SourceOrigin.REMOTE, null, [], [], []));
+            } else {
+                sources.push(this.resolveSource(value, arg.getRange(), destination, directory, parents, exclusions));
+            }
+        }
+        return new CopyResolution(instruction, sources, destination, destinationArgument.getRange());
+    }
+
+    private resolveSource(value: string, range: Range, destination: string, directory: boolean, parents: boolean, exclusions: Dockerignore): CopySource {
+        const source = CopyResolver.normalize(value);
+        const wildcard = /[*?\[]/.test(value);
+        let matches: string[] = [];
+        if (source === "") {
+            matches = [ "" ];
+        } else if (wildcard) {
+            const pattern = new IgnorePattern(source, range, false);
+            const candidates = Object.keys(this.files).concat(Object.keys(this.directories));
+            matches = candidates.filter(candidate => pattern.matches(candidate));
+        } else if (this.files[source] || this.directories[source]) {
+            matches = [ source ];
+        }
+
+        // with --parents, the directories before a /./ in the source are not preserved
+        const pivotIndex = value.indexOf("/./");
+        const pivot = pivotIndex === -1 ? "" : CopyResolver.normalize(value.substring(0, pivotIndex));
+        // a wildcard that matches several paths needs a directory to copy them into
+        const multiple = matches.length > 1;
+        const targets: { [path: string]: string } = Object.create(null);
+        for (const match of matches) {
+            const files = this.files[match] ? [ match ] : Object.keys(this.files).filter(file => match === "" || file.indexOf(match + '/') === 0);
+            // excluded files are matched relative to the source's directory
+            const base = this.files[match] ? match.substring(0, Math.max(match.lastIndexOf('/'), 0)) : match;
+            for (const file of files) {
+                if (targets[file] !== undefined || exclusions.matches(base === "" ? file : file.substring(base.length + 1))) {
+                    continue;
+                }
+                if (parents) {
+                    const relative = pivot !== "" && file.indexOf(pivot + '/') === 0 ? file.substring(pivot.length + 1) : file;
+                    targets[file] = Util.cleanPath(destination + '/' + relative);
+                } else if (file === match) {
+                    targets[file] = directory || multiple ? Util.cleanPath(destination + '/' + file.substring(file.lastIndexOf('/') + 1)) : destination;
+                } else {
+                    // the contents of a directory are copied and not the directory itself
+                    targets[file] = Util.cleanPath(destination + '/' + file.substring(match === "" ? 0 : match.length + 1));
+                }
+            }
+        }
+
+        const paths = Object.keys(targets).sort();
+        const directories = matches.filter(match => match === "" || this.directories[match]).sort();
+        return new CopySource(value, range, SourceOrigin.CONTEXT, null, paths, paths.map(path => targets[path]), directories);
+    }
+
+    /**
+     * Resolves the given destination against the working directory of
+     * the build stage that the instruction is in.
+     */
+    private resolveDestination(instruction: CopyInstruction, destination: string): string {
+        if (destination.charAt(0) === '/') {
+            return Util.cleanPath(destination);
+        }
+        const line = instruction.getRange().start.line;
+        const image = this.dockerfile.getContainingImage(instruction.getRange().start);
+        let workingDirectory: string | undefined;
+        if (image instanceof BuildStage) {
+            workingDirectory = new ImageConfigEvaluator(this.dockerfile).evaluate(image, line).WorkingDir;
+        }
+        return Util.cleanPath((workingDirectory ? workingDirectory : "/") + '/' + destination);
+    }
+
+    private expand(instruction: CopyInstruction, value: string): string {
+        const line = instruction.getRange().start.line;
+        return Expansion.expand(value, this.dockerfile.getEscapeCharacter(), name => this.dockerfile.resolveVariable(name, line));
+    }
+
+    /**
+     * Cleans the given path and makes it relative to the root of the
+     * build context. Paths cannot refer to files outside of the build
+     * context so any leading .. segments are removed.
+     *
+     * @return the normalized path, or the empty string for the root
+     *         of the build context
+     */
+    private static normalize(path: string): string {
+        return Util.cleanPath('/' + path).substring(1);
+    }
+}
@@ -0,0 +1,114 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { SourceOrigin } from './main';
+import { BuildStage } from './buildStage';
+
+/**
+ * A source of a COPY or ADD instruction that has been resolved
+ * against a build context.
+ */
+export class CopySource {
+
+    private readonly value: string;
+    private readonly range: Range;
+    private readonly origin: SourceOrigin;
+    private readonly buildStage: BuildStage | null;
+    private readonly paths: string[];
+    private readonly targets: string[];
+    private readonly directories: string[];
+
+    constructor(value: string, range: Range, origin: SourceOrigin, buildStage: BuildStage | null, paths: string[], targets: string[], directories: string[]) {
+        this.value = value;
+        this.range = range;
+        this.origin = origin;
+        this.buildStage = buildStage;
+        this.paths = paths;
+        this.targets = targets;
+        this.directories = directories;
+    }
+
+    public toString(): string {
+        return this.value;
+    }
+
+    /**
+     * Returns the source with any variables expanded to their
+     * resolved values.
+     */
+    public getValue(): string {
+        return this.value;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns where the files of this source will be copied from.
+     */
+    public getOrigin(): SourceOrigin {
+        return this.origin;
+    }
+
+    /**
+     * Returns the build stage that this source will be copied from.
+     *
+     * @return the build stage that has been referenced with --from,
+     *         or null if this source is not from a build stage
+     */
+    public getBuildStage(): BuildStage | null {
+        return this.buildStage;
+    }
+
+    /**
+     * Returns the paths of the files in the build context that this
+     * source matched. Directories that have been matched are replaced
+     * by the files within them. Files that are excluded by the
+     * .dockerignore file or by an --exclude flag are not included.
+     *
+     * @return the matched paths in sorted order, or an empty array if
+     *         the source is not from the build context
+     */
+    public getPaths(): string[] {
+        return this.paths;
+    }
+
+    /**
+     * Returns the absolute path in the image that the given file will
+     * be copied to.
+     *
+     * @param path a path that has been returned by getPaths()
+     * @return the path that the file will be copied to, or null if
+     *         the file was not matched by this source
+     */
+    public getTarget(path: string): string | null {
+        const index = this.paths.indexOf(path);
+        return index === -1 ? null : this.targets[index];
+    }
+
+    /**
+     * Returns the directories of the build context that this source
+     * matched. The files within them are included by getPaths() but
+     * a matched directory may also be empty.
+     *
+     * @return the matched directories in sorted order, or an empty
+     *         array if no directories were matched
+     */
+    public getDirectories(): string[] {
+        return this.directories;
+    }
+
+    /**
+     * Returns whether this source is from the build context but did
+     * not match any of its files or directories. Such a source would
+     * fail the build.
+     */
+    public isUnmatched(): boolean {
+        return this.origin === SourceOrigin.CONTEXT && this.paths.length === 0 && this.directories.length === 0;
+    }
+}
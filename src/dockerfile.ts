@@ -4,32 +4,82 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { TextDocument, Range, Position } from 'vscode-languageserver-types';
+import { TextDocument, Range, Position, Diagnostic } from 'vscode-languageserver-types';
 import * as ast from './main';
+import { BuildStage } from './buildStage';
+import { BuildStageGraph } from './buildStageGraph';
+import { Expansion } from './expansion';
 import { ParserDirective } from './parserDirective';
+import { Property } from './property';
 import { ImageTemplate } from './imageTemplate';
 import { Instruction } from './instruction';
 import { Arg } from './instructions/arg';
 import { From } from './instructions/from';
+import { Shell } from './instructions/shell';
 import { Util } from './util';
-import { Directive, Keyword } from './main';
+import { BuildKitVariables, DefaultShell, DefaultVariables, Directive, Keyword, PlatformVariables } from './main';
 
 export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
 
     private readonly document: TextDocument;
+    private readonly options: ast.ParserOptions;
+    private readonly buildArgs: { [name: string]: string };
+    /**
+     * The values of the variables that BuildKit predefines merged with
+     * the build arguments.
+     */
+    private readonly overrides: { [name: string]: string };
     private readonly initialInstructions = new ImageTemplate();
-    private readonly buildStages: ImageTemplate[] = [];
-    private currentBuildStage: ImageTemplate;
+    private readonly buildStages: BuildStage[] = [];
+    private currentBuildStage: BuildStage;
     private directive: ParserDirective | null = null;
+    private readonly diagnostics: Diagnostic[] = [];
 
     /**
      * Whether a FROM instruction has been added to this Dockerfile or not.
      */
     private foundFrom = false;
 
-    constructor(document: TextDocument) {
+    constructor(document: TextDocument, options: ast.ParserOptions) {
         super();
         this.document = document;
+        this.options = options;
+        this.buildArgs = options.buildArgs ? options.buildArgs : {};
+        this.overrides = {};
+        for (const name of Object.keys(this.buildArgs)) {
+            this.overrides[name] = this.buildArgs[name];
+        }
+        this.setPlatformVariables("TARGET", options.platform);
+        this.setPlatformVariables("BUILD", options.buildPlatform ? options.buildPlatform : options.platform);
+        if (options.target) {
+            this.overrides.TARGETSTAGE = options.target;
+        }
+    }
+
+    private setPlatformVariables(prefix: string, platform: string | undefined): void {
+        if (platform) {
+            const parts = platform.split('/');
+            this.overrides[prefix + "PLATFORM"] = platform;
+            this.overrides[prefix + "OS"] = parts[0];
+            this.overrides[prefix + "ARCH"] = parts.length > 1 ? parts[1] : "";
+            this.overrides[prefix + "VARIANT"] = parts.length > 2 ? parts[2] : "";
+        }
+    }
+
+    public getOptions(): ast.ParserOptions {
+        return this.options;
+    }
+
+    public getDocument(): TextDocument {
+        return this.document;
+    }
+
+    public getBuildArgs(): { [name: string]: string } {
+        return this.buildArgs;
+    }
+
+    public getPlatform(): string | null {
+        return this.options.platform ? this.options.platform : null;
     }
 
     public getEscapeCharacter(): string {
@@ -46,6 +96,28 @@ export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
         return this.initialInstructions.getARGs();
     }
 
+    public getInitialInstructions(): ImageTemplate {
+        return this.initialInstructions;
+    }
+
+    public getBuildStages(): BuildStage[] {
+        return this.buildStages;
+    }
+
+    public getBuildStage(nameOrIndex: string | number): BuildStage | null {
+        if (typeof nameOrIndex === "number" || /^\d+$/.test(nameOrIndex)) {
+            const index = typeof nameOrIndex === "number" ? nameOrIndex : parseInt(nameOrIndex);
+            return index >= 0 && index < this.buildStages.length ? this.buildStages[index] : null;
+        }
+        for (const buildStage of this.buildStages) {
+            const name = buildStage.getName();
+            if (name !== null && name.toLowerCase() === nameOrIndex.toLowerCase()) {
+                return buildStage;
+            }
+        }
+        return null;
+    }
+
     public getContainingImage(position: Position): ImageTemplate | null {
         let range = Range.create(Position.create(0, 0), this.document.positionAt(this.document.getText().length));
         if (!Util.isInsideRange(position, range)) {
@@ -66,9 +138,43 @@ export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
         return this;
     }
 
+    /**
+     * Determines the shell that a command in shell form on the given
+     * line will be run with. This will be the shell of the last SHELL
+     * instruction that came before it in its build stage. If there is
+     * no such instruction, the shell will be inherited from the build
+     * stage that the build stage is based on, if any.
+     * 
+     * @param line the line of the instruction, zero-based
+     * @return the shell and its arguments, such as /bin/sh and -c
+     */
+    public getShell(line: number): string[] {
+        const image = this.getContainingImage(Position.create(line, 0));
+        if (image !== null) {
+            const instructions = image.getInstructions();
+            for (let i = instructions.length - 1; i >= 0; i--) {
+                const instruction = instructions[i];
+                if (instruction instanceof Shell && instruction.isBefore(line) && instruction.getClosingBracket() !== null) {
+                    return instruction.getJSONStrings().map(arg => arg.getJSONValue());
+                }
+            }
+
+            if (image instanceof BuildStage) {
+                const parent = image.getParent();
+                if (parent !== null) {
+                    const shell = parent.getImageConfig().Shell;
+                    if (shell) {
+                        return shell;
+                    }
+                }
+            }
+        }
+        return DefaultShell.slice();
+    }
+
     public addInstruction(instruction: Instruction): void {
         if (instruction.getKeyword() === Keyword.FROM) {
-            this.currentBuildStage = new ImageTemplate();
+            this.currentBuildStage = new BuildStage(this, this.buildStages.length, instruction as From);
             this.buildStages.push(this.currentBuildStage);
             this.foundFrom = true;
         } else if (!this.foundFrom) {
@@ -89,7 +195,26 @@ export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
         return this.directive;
     }
 
+    public addDiagnostic(diagnostic: Diagnostic): void {
+        this.diagnostics.push(diagnostic);
+    }
+
+    public getDiagnostics(): Diagnostic[] {
+        // problems are collected per instruction so sort them by their position
+        return this.diagnostics.slice().sort((a, b) => {
+            if (a.range.start.line !== b.range.start.line) {
+                return a.range.start.line - b.range.start.line;
+            }
+            return a.range.start.character - b.range.start.character;
+        });
+    }
+
+    public getBuildStageGraph(): BuildStageGraph {
+        return new BuildStageGraph(this);
+    }
+
     public resolveVariable(variable: string, line: number): string | null | undefined {
+        const expand = (property: Property, declarationLine: number) => this.expandDeclaration(property, declarationLine);
         for (let from of this.getFROMs()) {
             let range = from.getRange();
             if (range.start.line <= line && line <= range.end.line) {
@@ -98,14 +223,19 @@ export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
                 for (let instruction of this.initialInstructions.getARGs()) {
                     initialARGs.addInstruction(instruction);
                 }
-                return initialARGs.resolveVariable(variable, line);
+                const value = initialARGs.resolveVariable(variable, line, this.overrides, expand);
+                return value === undefined ? this.resolvePredefinedVariable(variable) : value;
             }
         }
         let image = this.getContainingImage(Position.create(line, 0));
+        if (image === this) {
+            // the start of the line may precede an indented instruction
+            image = this.getImageAtLine(line);
+        }
         if (image === null) {
             return undefined;
         }
-        let resolvedVariable = image.resolveVariable(variable, line);
+        let resolvedVariable = image.resolveVariable(variable, line, this.overrides, expand);
         if (resolvedVariable === null) {
             // refers to an uninitialized ARG variable,
             // try resolving it against the initial ARGs then
@@ -113,11 +243,62 @@ export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
             for (let instruction of this.initialInstructions.getARGs()) {
                 initialARGs.addInstruction(instruction);
             }
-            return initialARGs.resolveVariable(variable, line);
+            const value = initialARGs.resolveVariable(variable, line, this.overrides, expand);
+            return value === undefined ? this.resolvePredefinedVariable(variable) : value;
+        } else if (resolvedVariable === undefined && image !== this.initialInstructions && DefaultVariables.indexOf(variable) !== -1
+                && this.buildArgs.hasOwnProperty(variable)) {
+            // the proxy variables can be set without being declared
+            return this.buildArgs[variable];
         }
         return resolvedVariable;
     }
 
+    /**
+     * Expands the variables in the value of an ARG or ENV property
+     * against the variables that have been declared before its
+     * instruction. Values of variables that have been expanded can
+     * thus be chained through other variables.
+     */
+    private expandDeclaration(property: Property, line: number): string | null {
+        const value = property.getUnescapedValue();
+        if (value === null) {
+            return property.getValue();
+        }
+        return Expansion.expandWord(value, this.getEscapeCharacter(), name => this.resolveVariable(name, line));
+    }
+
+    /**
+     * Returns the build stage or the initial instructions that span
+     * the given line.
+     * 
+     * @return the image that spans the line, or null if the line is
+     *         not within any image
+     */
+    private getImageAtLine(line: number): ImageTemplate | null {
+        const images: ImageTemplate[] = [ this.initialInstructions ];
+        for (const image of images.concat(this.buildStages)) {
+            const range = image.getInstructions().length === 0 ? null : image.getRange();
+            if (range !== null && range.start.line <= line && line <= range.end.line) {
+                return image;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Resolves a variable that BuildKit declares in the global scope.
+     * 
+     * @return the value of the variable, or null if it is a
+     *         predefined variable whose value is not known, or
+     *         undefined if it is not a predefined variable
+     */
+    private resolvePredefinedVariable(variable: string): string | null | undefined {
+        if (PlatformVariables.indexOf(variable) === -1 && BuildKitVariables.indexOf(variable) === -1) {
+            return undefined;
+        }
+        return this.overrides.hasOwnProperty(variable) ? this.overrides[variable] : null;
+    }
+
     public getAvailableVariables(currentLine: number): string[] {
         if (this.getInstructionAt(currentLine) instanceof From) {
             let variables = [];
@@ -127,6 +308,11 @@ export class Dockerfile extends ImageTemplate implements ast.Dockerfile {
                     variables.push(property.getName());
                 }
             }
+            for (const variable of PlatformVariables.concat(BuildKitVariables)) {
+                if (variables.indexOf(variable) === -1) {
+                    variables.push(variable);
+                }
+            }
             return variables;
         }
 
@@ -0,0 +1,105 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { IgnorePattern } from './ignorePattern';
+import { Util } from './util';
+
+/**
+ * The patterns of a .dockerignore file that determine which files of
+ * the build context will be sent to the builder.
+ */
+export class Dockerignore {
+
+    private readonly patterns: IgnorePattern[];
+
+    constructor(patterns: IgnorePattern[]) {
+        this.patterns = patterns;
+    }
+
+    /**
+     * Parses the content of a .dockerignore file in the same way as
+     * Docker. Lines that start with a # are comments and will be
+     * skipped. Other lines have their surrounding whitespace trimmed
+     * and are then cleaned so that ./docs/ and docs are the same
+     * pattern. A # that follows whitespace is not a comment.
+     *
+     * @param content the content of the .dockerignore file
+     * @return the parsed .dockerignore file
+     */
+    public static parse(content: string): Dockerignore {
+        const patterns: IgnorePattern[] = [];
+        const lines = content.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            let line = lines[i];
+            let offset = 0;
+            // skip the byte order mark of a UTF-8 file
+            if (i === 0 && line.charAt(0) === '\uFEFF') {
+                line = line.substring(1);
+                offset = 1;
+            }
+            if (line.charAt(0) === '#') {
+                continue;
+            }
+            const value = line.trim();
+            if (value.length === 0) {
+                continue;
+            }
+
+            const start = offset + line.indexOf(value);
+            const range = Range.create(i, start, i, start + value.length);
+            const exclusion = value.charAt(0) === '!';
+            let pattern = exclusion ? value.substring(1).trim() : value;
+            if (pattern.length > 0) {
+                pattern = Util.cleanPath(pattern);
+                if (pattern.length > 1 && pattern.charAt(0) === '/') {
+                    pattern = pattern.substring(1);
+                }
+            }
+            patterns.push(new IgnorePattern(pattern, range, exclusion));
+        }
+        return new Dockerignore(patterns);
+    }
+
+    /**
+     * Returns the patterns of this file in the order that they
+     * appear, including any exclusions.
+     */
+    public getPatterns(): IgnorePattern[] {
+        return this.patterns;
+    }
+
+    /**
+     * Determines whether the given path will be excluded from the
+     * build context. A path is excluded if it or one of its parent
+     * directories matches a pattern and no later exclusion pattern
+     * includes it back. The last pattern that matches a path wins.
+     *
+     * @param path the slash-separated path of a file or a directory
+     *             relative to the root of the build context
+     * @return true if the path is excluded from the build context,
+     *         false otherwise
+     */
+    public matches(path: string): boolean {
+        const file = Util.cleanPath(path).replace(/^\/+/, "");
+        const parents = file.split('/').slice(0, -1);
+        let matched = false;
+        for (const pattern of this.patterns) {
+            // only patterns that could change the result need to be checked
+            if (pattern.isExclusion() !== matched) {
+                continue;
+            }
+            let match = pattern.matches(file);
+            for (let i = 1; !match && i <= parents.length; i++) {
+                match = pattern.matches(parents.slice(0, i).join('/'));
+            }
+            if (match) {
+                matched = !pattern.isExclusion();
+            }
+        }
+        return matched;
+    }
+}
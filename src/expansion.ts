@@ -0,0 +1,308 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/**
+ * Resolves a variable to its value. Returns a string if the variable
+ * has been set, null if it has been declared without a value, or
+ * undefined if it has not been declared at all.
+ */
+export type VariableResolver = (name: string) => string | null | undefined;
+
+/**
+ * Evaluates variables the same way that BuildKit does.
+ */
+export class Expansion {
+
+    /**
+     * The operators that may follow a variable's name in a ${}
+     * declaration.
+     */
+    public static readonly OPERATORS = [ ":-", ":+", ":?", "-", "+", "?", "#", "##", "%", "%%", "/", "//" ];
+
+    /**
+     * Expands the variables in the given text. Variables that cannot
+     * be resolved will be left as they are.
+     *
+     * @param text the text to expand
+     * @param escapeChar the escape character of the Dockerfile
+     * @param resolve the function to use for resolving variables
+     * @return the text with its variables expanded
+     */
+    public static expand(text: string, escapeChar: string, resolve: VariableResolver): string {
+        let expanded = "";
+        for (let i = 0; i < text.length; i++) {
+            const char = text.charAt(i);
+            if (char === escapeChar && text.charAt(i + 1) === '$') {
+                expanded += char + '$';
+                i++;
+            } else if (char === '$' && text.charAt(i + 1) === '{') {
+                const end = Expansion.findClosingBrace(text, i + 2, escapeChar);
+                if (end === -1) {
+                    return expanded + text.substring(i);
+                }
+                const value = Expansion.evaluateDeclaration(text.substring(i + 2, end), escapeChar, resolve);
+                expanded += value === undefined ? text.substring(i, end + 1) : value;
+                i = end;
+            } else if (char === '$') {
+                const name = /^[a-zA-Z0-9_]*/.exec(text.substring(i + 1))[0];
+                const value = name.length === 0 ? undefined : resolve(name);
+                expanded += typeof value === "string" ? value : '$' + name;
+                i += name.length;
+            } else {
+                expanded += char;
+            }
+        }
+        return expanded;
+    }
+
+    /**
+     * Expands the variables in a word and removes its quotes and
+     * escape characters in the same way as BuildKit's shell lexer.
+     * Variables in single quotes are not expanded. Thus, for "$A"b,
+     * the value of A followed by a b would be returned.
+     *
+     * @param text the raw text of the word as written in the document
+     * @param escapeChar the escape character of the Dockerfile
+     * @param resolve the function to use for resolving variables
+     * @return the processed word
+     */
+    public static expandWord(text: string, escapeChar: string, resolve: VariableResolver): string {
+        let expanded = "";
+        let quote: string | null = null;
+        for (let i = 0; i < text.length; i++) {
+            const char = text.charAt(i);
+            if (quote === '\'') {
+                if (char === quote) {
+                    quote = null;
+                } else {
+                    expanded += char;
+                }
+            } else if (char === escapeChar) {
+                const next = text.charAt(i + 1);
+                if (quote === '"' && next !== '"' && next !== '$' && next !== escapeChar) {
+                    // only a few characters can be escaped in double quotes
+                    expanded += char;
+                } else if (next === '\r' && text.charAt(i + 2) === '\n') {
+                    i++;
+                } else if (next !== '\n') {
+                    expanded += next;
+                }
+                i++;
+            } else if (char === '"' && quote === '"') {
+                quote = null;
+            } else if ((char === '"' || char === '\'') && quote === null) {
+                quote = char;
+            } else if (char === '$') {
+                let end = i;
+                if (text.charAt(i + 1) === '{') {
+                    end = Expansion.findClosingBrace(text, i + 2, escapeChar);
+                    if (end === -1) {
+                        return expanded + text.substring(i);
+                    }
+                } else {
+                    end += /^[a-zA-Z0-9_]*/.exec(text.substring(i + 1))[0].length;
+                }
+                expanded += Expansion.expand(text.substring(i, end + 1), escapeChar, resolve);
+                i = end;
+            } else {
+                expanded += char;
+            }
+        }
+        return expanded;
+    }
+
+    /**
+     * Evaluates a variable with the given operator.
+     *
+     * @param value the value of the variable, null if it has been
+     *              declared without a value, or undefined if it has
+     *              not been declared
+     * @param operator the operator that follows the variable's name,
+     *                 or null if there is no operator
+     * @param word the unexpanded text that follows the operator
+     * @param escapeChar the escape character of the Dockerfile
+     * @param resolve the function to use for resolving any variables
+     *                in the word
+     * @return the variable's value after the operator has been
+     *         applied, or undefined if the variable cannot be
+     *         evaluated
+     */
+    public static evaluate(value: string | null | undefined, operator: string | null, word: string | null, escapeChar: string, resolve: VariableResolver): string | undefined {
+        const set = typeof value === "string";
+        const empty = !set || value === "";
+        const expandWord = (text: string | null) => text === null ? "" : Expansion.expand(text, escapeChar, resolve);
+        switch (operator) {
+            case null:
+                return set ? value : undefined;
+            case ":-":
+                return empty ? expandWord(word) : value;
+            case "-":
+                return set ? value : expandWord(word);
+            case ":+":
+                return empty ? "" : expandWord(word);
+            case "+":
+                return set ? expandWord(word) : "";
+            case ":?":
+                return empty ? undefined : value;
+            case "?":
+                return set ? value : undefined;
+        }
+
+        if (!set) {
+            return undefined;
+        }
+        switch (operator) {
+            case "#":
+                return Expansion.removePrefix(value, expandWord(word), escapeChar, false);
+            case "##":
+                return Expansion.removePrefix(value, expandWord(word), escapeChar, true);
+            case "%":
+                return Expansion.removeSuffix(value, expandWord(word), escapeChar, false);
+            case "%%":
+                return Expansion.removeSuffix(value, expandWord(word), escapeChar, true);
+            case "/":
+            case "//":
+                let pattern = word === null ? "" : word;
+                let replacement = "";
+                for (let i = 0; i < pattern.length; i++) {
+                    if (pattern.charAt(i) === escapeChar) {
+                        i++;
+                    } else if (pattern.charAt(i) === '/') {
+                        replacement = pattern.substring(i + 1);
+                        pattern = pattern.substring(0, i);
+                        break;
+                    }
+                }
+                return Expansion.replace(value, expandWord(pattern), expandWord(replacement), escapeChar, operator === "//");
+        }
+        // unsupported operator
+        return undefined;
+    }
+
+    /**
+     * Evaluates the content between the braces of a ${} declaration.
+     */
+    private static evaluateDeclaration(declaration: string, escapeChar: string, resolve: VariableResolver): string | undefined {
+        const name = /^[a-zA-Z0-9_]*/.exec(declaration)[0];
+        if (name.length === 0) {
+            return undefined;
+        }
+        const remainder = declaration.substring(name.length);
+        if (remainder.length === 0) {
+            return Expansion.evaluate(resolve(name), null, null, escapeChar, resolve);
+        }
+        for (const length of [ 2, 1 ]) {
+            const operator = remainder.substring(0, length);
+            if (Expansion.OPERATORS.indexOf(operator) !== -1) {
+                return Expansion.evaluate(resolve(name), operator, remainder.substring(length), escapeChar, resolve);
+            }
+        }
+        return undefined;
+    }
+
+    private static findClosingBrace(text: string, start: number, escapeChar: string): number {
+        let depth = 0;
+        for (let i = start; i < text.length; i++) {
+            const char = text.charAt(i);
+            if (char === escapeChar) {
+                // an escaped } does not close the declaration
+                i++;
+            } else if (char === '$' && text.charAt(i + 1) === '{') {
+                depth++;
+                i++;
+            } else if (char === '}') {
+                if (depth === 0) {
+                    return i;
+                }
+                depth--;
+            }
+        }
+        return -1;
+    }
+
+    private static removePrefix(value: string, pattern: string, escapeChar: string, longest: boolean): string {
+        const regex = Expansion.toRegExp(pattern, escapeChar);
+        for (let i = 0; i <= value.length; i++) {
+            const length = longest ? value.length - i : i;
+            if (regex.test(value.substring(0, length))) {
+                return value.substring(length);
+            }
+        }
+        return value;
+    }
+
+    private static removeSuffix(value: string, pattern: string, escapeChar: string, longest: boolean): string {
+        const regex = Expansion.toRegExp(pattern, escapeChar);
+        for (let i = 0; i <= value.length; i++) {
+            const start = longest ? i : value.length - i;
+            if (regex.test(value.substring(start))) {
+                return value.substring(0, start);
+            }
+        }
+        return value;
+    }
+
+    private static replace(value: string, pattern: string, replacement: string, escapeChar: string, all: boolean): string {
+        if (pattern.length === 0) {
+            return value;
+        }
+        const regex = Expansion.toRegExp(pattern, escapeChar);
+        let replaced = "";
+        let start = 0;
+        searchLoop: while (start < value.length) {
+            // find the longest match that starts at the current position
+            for (let end = value.length; end > start; end--) {
+                if (regex.test(value.substring(start, end))) {
+                    replaced += replacement;
+                    start = end;
+                    if (all) {
+                        continue searchLoop;
+                    }
+                    return replaced + value.substring(start);
+                }
+            }
+            replaced += value.charAt(start);
+            start++;
+        }
+        return replaced;
+    }
+
+    /**
+     * Converts a shell pattern into a regular expression that matches
+     * the entire string. A * matches any sequence of characters, a ?
+     * matches any single character, and [...] matches any one of the
+     * enclosed characters.
+     */
+    private static toRegExp(pattern: string, escapeChar: string): RegExp {
+        let regex = "";
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern.charAt(i);
+            if (char === escapeChar && i + 1 < pattern.length) {
+                i++;
+                regex += Expansion.escapeRegExp(pattern.charAt(i));
+            } else if (char === '*') {
+                regex += "[\\s\\S]*";
+            } else if (char === '?') {
+                regex += "[\\s\\S]";
+            } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+                const end = pattern.indexOf(']', i + 2);
+                let set = pattern.substring(i + 1, end);
+                if (set.charAt(0) === '!') {
+                    set = '^' + set.substring(1);
+                }
+                regex += '[' + set.replace(/\\/g, "\\\\") + ']';
+                i = end;
+            } else {
+                regex += Expansion.escapeRegExp(char);
+            }
+        }
+        return new RegExp('^' + regex + '$');
+    }
+
+    private static escapeRegExp(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+    }
+}
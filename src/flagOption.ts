@@ -0,0 +1,69 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { Range } from 'vscode-languageserver-types';
+
+/**
+ * A key/value pair in a flag's value that uses comma-separated
+ * options such as RUN's --mount=type=cache,target=/root/.cache flag.
+ */
+export class FlagOption {
+
+    private readonly range: Range;
+    private readonly name: string;
+    private readonly nameRange: Range;
+    private readonly value: string | null;
+    private readonly valueRange: Range | null;
+
+    constructor(range: Range, name: string, nameRange: Range, value: string | null, valueRange: Range | null) {
+        this.range = range;
+        this.name = name;
+        this.nameRange = nameRange;
+        this.value = value;
+        this.valueRange = valueRange;
+    }
+
+    public toString(): string {
+        if (this.valueRange) {
+            return this.name + "=" + this.value;
+        }
+        return this.name;
+    }
+
+    /**
+     * Returns the range that encompasses this entire option, from the
+     * first character of its name to the last character of its value
+     * (if it has been defined).
+     * 
+     * @return the entire range of this option
+     */
+    public getRange(): Range {
+        return this.range;
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    public getNameRange(): Range {
+        return this.nameRange;
+    }
+
+    /**
+     * Returns the value that has been set to this option. May be null
+     * if the option has no value set like the ro in
+     * --mount=type=bind,ro. If the option is instead ro= with an
+     * equals sign then the option's value is the empty string.
+     * 
+     * @return this option's value if it has been defined, null
+     *         otherwise
+     */
+    public getValue(): string | null {
+        return this.value;
+    }
+
+    public getValueRange(): Range | null {
+        return this.valueRange;
+    }
+}
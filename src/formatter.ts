@@ -0,0 +1,202 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { TextDocument, TextEdit, Range } from 'vscode-languageserver-types';
+import { Dockerfile } from './dockerfile';
+import { Instruction } from './instruction';
+import { Env } from './instructions/env';
+import { Onbuild } from './instructions/onbuild';
+import { Run } from './instructions/run';
+import { FormatterOptions } from './main';
+
+export class Formatter {
+
+    private readonly keywordCase: string;
+    private readonly indentation: string | null;
+    private readonly alignEscapeCharacters: boolean;
+    private readonly maxRunLineLength: number;
+    private readonly normalizeEnvSpacing: boolean;
+
+    constructor(options?: FormatterOptions) {
+        options = options ? options : {};
+        this.keywordCase = options.keywordCase ? options.keywordCase : "upper";
+        this.indentation = options.indentation === undefined ? "    " : options.indentation;
+        this.alignEscapeCharacters = options.alignEscapeCharacters === true;
+        this.maxRunLineLength = options.maxRunLineLength ? options.maxRunLineLength : 0;
+        this.normalizeEnvSpacing = options.normalizeEnvSpacing !== false;
+    }
+
+    /**
+     * Computes the edits that will format the given Dockerfile.
+     * Comments are never removed or changed.
+     * 
+     * @return the edits to apply to the Dockerfile's content, sorted
+     *         by their position in the document
+     */
+    public format(dockerfile: Dockerfile): TextEdit[] {
+        const document = dockerfile.getDocument();
+        const escapeChar = dockerfile.getEscapeCharacter();
+        const edits: TextEdit[] = [];
+        for (const instruction of dockerfile.getInstructions()) {
+            this.formatKeyword(document, instruction.getInstructionRange(), edits);
+            if (instruction instanceof Onbuild) {
+                const triggerRange = instruction.getTriggerRange();
+                if (triggerRange !== null) {
+                    this.formatKeyword(document, triggerRange, edits);
+                }
+            }
+
+            const range = instruction.getRange();
+            if (range.start.line === range.end.line) {
+                if (instruction instanceof Run) {
+                    this.splitFlags(document, escapeChar, instruction, edits);
+                }
+            } else {
+                this.formatContinuationLines(document, escapeChar, instruction, edits);
+            }
+
+            if (instruction instanceof Env) {
+                this.formatProperties(document, instruction, edits);
+            }
+        }
+        return edits.sort((a, b) => {
+            return document.offsetAt(a.range.start) - document.offsetAt(b.range.start);
+        });
+    }
+
+    private formatKeyword(document: TextDocument, range: Range, edits: TextEdit[]): void {
+        if (this.keywordCase === "preserve" || range.start.line !== range.end.line) {
+            return;
+        }
+        const keyword = this.getText(document, range);
+        const formatted = this.keywordCase === "lower" ? keyword.toLowerCase() : keyword.toUpperCase();
+        if (keyword !== formatted) {
+            edits.push(TextEdit.replace(range, formatted));
+        }
+    }
+
+    /**
+     * Indents the lines of an instruction that follow an escaped
+     * newline and aligns the escape characters at the end of its lines.
+     * Empty lines, embedded comments, and heredoc bodies are ignored.
+     */
+    private formatContinuationLines(document: TextDocument, escapeChar: string, instruction: Instruction, edits: TextEdit[]): void {
+        const content = document.getText();
+        const start = document.offsetAt(instruction.getRange().start);
+        let end = document.offsetAt(instruction.getRange().end);
+        const heredocs = instruction.getHeredocs();
+        if (heredocs.length > 0) {
+            end = Math.min(end, document.offsetAt(heredocs[0].getBodyRange().start));
+        }
+
+        const escapedLines = [];
+        let lineStart = start;
+        while (lineStart < end) {
+            let newline = content.indexOf('\n', lineStart);
+            if (newline === -1 || newline > end) {
+                newline = end;
+            }
+            let lineEnd = newline;
+            if (lineEnd > lineStart && content.charAt(lineEnd - 1) === '\r') {
+                lineEnd--;
+            }
+            const line = content.substring(lineStart, lineEnd);
+            const trimmed = line.trim();
+            if (trimmed.length === 0 || (lineStart !== start && trimmed.charAt(0) === '#')) {
+                lineStart = newline + 1;
+                continue;
+            }
+
+            let leading = line.length - line.replace(/^[ \t]+/, "").length;
+            if (lineStart !== start && this.indentation !== null) {
+                if (line.substring(0, leading) !== this.indentation) {
+                    edits.push(TextEdit.replace(Range.create(document.positionAt(lineStart), document.positionAt(lineStart + leading)), this.indentation));
+                }
+                leading = this.indentation.length;
+            } else if (lineStart === start) {
+                leading = 0;
+            }
+
+            const trailing = line.replace(/[ \t]+$/, "");
+            if (trailing.charAt(trailing.length - 1) === escapeChar && lineEnd !== end) {
+                const escapeOffset = lineStart + trailing.length - 1;
+                const contentEnd = lineStart + line.substring(0, trailing.length - 1).replace(/[ \t]+$/, "").length;
+                escapedLines.push({
+                    contentEnd: contentEnd,
+                    escapeOffset: escapeOffset,
+                    width: leading + contentEnd - lineStart - (line.length - line.replace(/^[ \t]+/, "").length)
+                });
+            }
+            lineStart = newline + 1;
+        }
+
+        if (this.alignEscapeCharacters && escapedLines.length > 1) {
+            let column = 0;
+            for (const escapedLine of escapedLines) {
+                column = Math.max(column, escapedLine.width + 1);
+            }
+            for (const escapedLine of escapedLines) {
+                const padding = this.repeat(" ", column - escapedLine.width);
+                if (content.substring(escapedLine.contentEnd, escapedLine.escapeOffset) !== padding) {
+                    edits.push(TextEdit.replace(Range.create(document.positionAt(escapedLine.contentEnd), document.positionAt(escapedLine.escapeOffset)), padding));
+                }
+            }
+        }
+    }
+
+    /**
+     * Places every flag of a RUN instruction that is too long on its
+     * own line.
+     */
+    private splitFlags(document: TextDocument, escapeChar: string, run: Run, edits: TextEdit[]): void {
+        const range = run.getRange();
+        if (this.maxRunLineLength <= 0 || range.end.character - range.start.character <= this.maxRunLineLength) {
+            return;
+        }
+        const flags = run.getFlags();
+        const args = run.getArguments();
+        if (flags.length === 0 || args.length === 0) {
+            return;
+        }
+        const newline = document.getText().indexOf("\r\n") === -1 ? "\n" : "\r\n";
+        const indentation = this.indentation === null ? "    " : this.indentation;
+        const separator = " " + escapeChar + newline + indentation;
+        for (let i = 0; i < flags.length; i++) {
+            const next = i === flags.length - 1 ? args[0].getRange().start : flags[i + 1].getRange().start;
+            edits.push(TextEdit.replace(Range.create(flags[i].getRange().end, next), separator));
+        }
+    }
+
+    /**
+     * Normalizes the whitespace between the key=value pairs of an ENV
+     * instruction to a single space.
+     */
+    private formatProperties(document: TextDocument, env: Env, edits: TextEdit[]): void {
+        const properties = env.getProperties();
+        for (let i = 1; i < properties.length; i++) {
+            const previous = properties[i - 1].getRange();
+            const current = properties[i].getRange();
+            if (this.normalizeEnvSpacing && previous.end.line === current.start.line) {
+                const gap = Range.create(previous.end, current.start);
+                if (this.getText(document, gap) !== " ") {
+                    edits.push(TextEdit.replace(gap, " "));
+                }
+            }
+        }
+    }
+
+    private getText(document: TextDocument, range: Range): string {
+        return document.getText().substring(document.offsetAt(range.start), document.offsetAt(range.end));
+    }
+
+    private repeat(value: string, count: number): string {
+        let repeated = "";
+        for (let i = 0; i < count; i++) {
+            repeated += value;
+        }
+        return repeated;
+    }
+}
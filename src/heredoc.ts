@@ -0,0 +1,123 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { TextDocument, Range } from 'vscode-languageserver-types';
+
+/**
+ * A here-document that has been declared by a RUN, COPY, or ADD
+ * instruction through a marker such as <<EOF or <<-"EOF".
+ */
+export class Heredoc {
+
+    private readonly document: TextDocument;
+    private readonly range: Range;
+    private readonly nameRange: Range;
+    private readonly bodyRange: Range;
+    private readonly terminatorRange: Range | null;
+    private readonly quoted: boolean;
+    private readonly stripTabs: boolean;
+
+    constructor(document: TextDocument, range: Range, nameRange: Range, bodyRange: Range, terminatorRange: Range | null, quoted: boolean, stripTabs: boolean) {
+        this.document = document;
+        this.range = range;
+        this.nameRange = nameRange;
+        this.bodyRange = bodyRange;
+        this.terminatorRange = terminatorRange;
+        this.quoted = quoted;
+        this.stripTabs = stripTabs;
+    }
+
+    public toString(): string {
+        return this.getRangeContent(this.range);
+    }
+
+    /**
+     * Returns the range of the marker that declared this heredoc. This
+     * includes the << prefix, the optional - character, and any
+     * quotation marks surrounding the heredoc's name.
+     *
+     * @return the range of this heredoc's marker
+     */
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the name of this heredoc. The name does not include any
+     * quotation marks that surround it. Thus, for <<"EOF", the name of
+     * the heredoc would be EOF.
+     *
+     * @return this heredoc's name
+     */
+    public getName(): string {
+        return this.getRangeContent(this.nameRange);
+    }
+
+    public getNameRange(): Range {
+        return this.nameRange;
+    }
+
+    /**
+     * Returns the body of this heredoc. The body includes the trailing
+     * newline of its last line but not the line that terminates the
+     * heredoc. If this heredoc was declared with <<- then leading tabs
+     * will have been removed from every line of the body.
+     *
+     * @return the content of this heredoc's body, or the empty string
+     *         if the heredoc has no body
+     */
+    public getBody(): string {
+        const body = this.getRangeContent(this.bodyRange);
+        return this.stripTabs ? body.replace(/^\t+/gm, "") : body;
+    }
+
+    /**
+     * Returns the range that encompasses the raw content of this
+     * heredoc's body. The range starts on the line after the
+     * instruction's declaration and ends at the beginning of the line
+     * that terminates this heredoc.
+     *
+     * @return the range of this heredoc's body
+     */
+    public getBodyRange(): Range {
+        return this.bodyRange;
+    }
+
+    /**
+     * Returns the range of the line that terminates this heredoc,
+     * excluding any leading tabs that have been stripped.
+     *
+     * @return the range of the terminating name, or null if the
+     *         heredoc was never terminated before the end of the
+     *         instruction
+     */
+    public getTerminatorRange(): Range | null {
+        return this.terminatorRange;
+    }
+
+    /**
+     * Returns whether the name of this heredoc was surrounded by single
+     * or double quotes. Variables in the body of a quoted heredoc will
+     * not be expanded.
+     *
+     * @return true if this heredoc's name was quoted, false otherwise
+     */
+    public isQuoted(): boolean {
+        return this.quoted;
+    }
+
+    /**
+     * Returns whether this heredoc was declared with <<- and will
+     * have its leading tabs stripped from its body and terminator.
+     *
+     * @return true if leading tabs should be removed, false otherwise
+     */
+    public isStripTabs(): boolean {
+        return this.stripTabs;
+    }
+
+    private getRangeContent(range: Range): string {
+        return this.document.getText().substring(this.document.offsetAt(range.start), this.document.offsetAt(range.end));
+    }
+}
@@ -0,0 +1,137 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+
+/**
+ * A pattern of a .dockerignore file such as *.md, docs/**, or
+ * !README.md. Patterns are matched against the paths of the build
+ * context in the same way as Go's filepath.Match function with the
+ * addition of **, which matches any number of directories.
+ */
+export class IgnorePattern {
+
+    /**
+     * The characters that have a special meaning in a regular
+     * expression but not in a pattern.
+     */
+    private static readonly REGEXP_CHARACTERS = ".+()|{}$^";
+
+    private readonly value: string;
+    private readonly range: Range;
+    private readonly exclusion: boolean;
+    private readonly regex: RegExp | null;
+
+    constructor(value: string, range: Range, exclusion: boolean) {
+        this.value = value;
+        this.range = range;
+        this.exclusion = exclusion;
+        this.regex = IgnorePattern.compile(value);
+    }
+
+    public toString(): string {
+        return this.exclusion ? '!' + this.value : this.value;
+    }
+
+    /**
+     * Returns the cleaned pattern without its leading ! if it is an
+     * exclusion. Thus, for !./docs/../README.md, the value would be
+     * README.md.
+     */
+    public getValue(): string {
+        return this.value;
+    }
+
+    /**
+     * Returns the range of the pattern in the .dockerignore file,
+     * including its leading ! if it is an exclusion.
+     */
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns whether this pattern was prefixed with a ! and will
+     * include the files that it matches back into the build context.
+     */
+    public isExclusion(): boolean {
+        return this.exclusion;
+    }
+
+    /**
+     * Returns whether this pattern can be matched against paths. A
+     * pattern with an unterminated character class such as [a-z or
+     * an exclusion without a pattern is invalid and would fail the
+     * build.
+     */
+    public isValid(): boolean {
+        return this.regex !== null;
+    }
+
+    /**
+     * Determines whether the given path matches this pattern. The
+     * parent directories of the path are not checked.
+     *
+     * @param path the slash-separated path of a file or a directory
+     *             relative to the root of the build context
+     * @return true if the path matches this pattern, false otherwise
+     *         or if this pattern is not valid
+     */
+    public matches(path: string): boolean {
+        return this.regex !== null && this.regex.test(path);
+    }
+
+    private static compile(pattern: string): RegExp | null {
+        if (pattern === "") {
+            return null;
+        }
+
+        let regex = "^";
+        let inClass = false;
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern.charAt(i);
+            if (inClass && char !== '\\') {
+                // a character class such as [^a-z] is passed through as is
+                regex += char;
+                inClass = char !== ']';
+            } else if (char === '[') {
+                regex += char;
+                inClass = true;
+            } else if (char === '*') {
+                if (pattern.charAt(i + 1) === '*') {
+                    i++;
+                    // treat **/ as ** and let it match any number of directories
+                    if (pattern.charAt(i + 1) === '/') {
+                        i++;
+                    }
+                    regex += i + 1 === pattern.length ? ".*" : "(.*/)?";
+                } else {
+                    regex += "[^/]*";
+                }
+            } else if (char === '?') {
+                regex += "[^/]";
+            } else if (char === '\\') {
+                if (i + 1 === pattern.length) {
+                    regex += "\\\\";
+                } else {
+                    i++;
+                    const escaped = pattern.charAt(i);
+                    regex += /[a-zA-Z0-9]/.test(escaped) ? escaped : '\\' + escaped;
+                }
+            } else if (IgnorePattern.REGEXP_CHARACTERS.indexOf(char) !== -1) {
+                regex += '\\' + char;
+            } else {
+                regex += char;
+            }
+        }
+
+        try {
+            return new RegExp(regex + '$');
+        } catch (e) {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,243 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as ast from './main';
+import { CommandForm, DefaultShell } from './main';
+import { BuildStage } from './buildStage';
+import { Dockerfile } from './dockerfile';
+import { Expansion, VariableResolver } from './expansion';
+import { Instruction } from './instruction';
+import { Property } from './property';
+import { Util } from './util';
+import { Cmd } from './instructions/cmd';
+import { Entrypoint } from './instructions/entrypoint';
+import { Env } from './instructions/env';
+import { Expose } from './instructions/expose';
+import { Healthcheck } from './instructions/healthcheck';
+import { Label } from './instructions/label';
+import { Onbuild } from './instructions/onbuild';
+import { Shell } from './instructions/shell';
+import { Stopsignal } from './instructions/stopsignal';
+import { User } from './instructions/user';
+import { Volume } from './instructions/volume';
+import { Workdir } from './instructions/workdir';
+
+/**
+ * Computes the configuration of the image that a build stage would
+ * produce by applying its instructions in order.
+ */
+export class ImageConfigEvaluator {
+
+    private readonly dockerfile: Dockerfile;
+
+    constructor(dockerfile: Dockerfile) {
+        this.dockerfile = dockerfile;
+    }
+
+    /**
+     * Computes the configuration of the image of the given build
+     * stage.
+     *
+     * @param buildStage the build stage to evaluate
+     * @param line if specified, only the instructions that start
+     *             before this line will be applied
+     * @return the configuration of the build stage's image
+     */
+    public evaluate(buildStage: BuildStage, line?: number): ast.ImageConfig {
+        let config: ast.ImageConfig = {};
+        const parent = buildStage.getParent();
+        if (parent !== null) {
+            config = JSON.parse(JSON.stringify(this.evaluate(parent)));
+            // triggers only apply to the immediate child and are not inherited
+            delete config.OnBuild;
+            for (const trigger of parent.getOnbuildTriggers()) {
+                this.apply(config, trigger, false);
+            }
+        }
+
+        let cmdSet = false;
+        for (const instruction of buildStage.getInstructions()) {
+            if (line !== undefined && !instruction.isBefore(line)) {
+                break;
+            }
+            this.apply(config, instruction, cmdSet);
+            cmdSet = cmdSet || instruction instanceof Cmd;
+        }
+        return config;
+    }
+
+    private apply(config: ast.ImageConfig, instruction: Instruction, cmdSet: boolean): void {
+        if (instruction instanceof Env) {
+            // the properties of an ENV cannot refer to each other
+            const entries = instruction.getProperties().map(property => property.getName() + '=' + this.expandProperty(config, instruction, property));
+            const env = config.Env ? config.Env : [];
+            for (const entry of entries) {
+                const name = entry.substring(0, entry.indexOf('='));
+                const index = env.map(variable => variable.split('=')[0]).indexOf(name);
+                if (index === -1) {
+                    env.push(entry);
+                } else {
+                    env[index] = entry;
+                }
+            }
+            config.Env = env;
+        } else if (instruction instanceof Label) {
+            const labels = config.Labels ? config.Labels : {};
+            for (const property of instruction.getProperties()) {
+                labels[property.getName()] = this.expandProperty(config, instruction, property);
+            }
+            config.Labels = labels;
+        } else if (instruction instanceof Cmd) {
+            config.Cmd = instruction.getArgv(this.getShell(config));
+        } else if (instruction instanceof Entrypoint) {
+            config.Entrypoint = instruction.getArgv(this.getShell(config));
+            if (!cmdSet) {
+                // an inherited CMD is reset by an ENTRYPOINT
+                delete config.Cmd;
+            }
+        } else if (instruction instanceof Shell) {
+            if (instruction.getClosingBracket() !== null) {
+                config.Shell = instruction.getJSONStrings().map(arg => arg.getJSONValue());
+            }
+        } else if (instruction instanceof Expose) {
+            const ports = config.ExposedPorts ? config.ExposedPorts : {};
+            for (const port of instruction.getPorts()) {
+                for (let i = port.getStart(); port.isValid() && i <= port.getEnd(); i++) {
+                    ports[i + "/" + port.getEffectiveProtocol()] = {};
+                }
+            }
+            config.ExposedPorts = ports;
+        } else if (instruction instanceof Volume) {
+            const volumes = config.Volumes ? config.Volumes : {};
+            const paths = instruction.getClosingBracket() === null ?
+                this.expandArguments(config, instruction)
+                : instruction.getJSONStrings().map(arg => Expansion.expand(arg.getJSONValue(), this.dockerfile.getEscapeCharacter(), this.createResolver(config, instruction)));
+            for (const path of paths) {
+                volumes[path] = {};
+            }
+            config.Volumes = volumes;
+        } else if (instruction instanceof Workdir) {
+            const args = this.expandArguments(config, instruction);
+            if (args.length > 0) {
+                const path = args.join(' ');
+                const workingDirectory = config.WorkingDir ? config.WorkingDir : "/";
+                config.WorkingDir = Util.cleanPath(path.charAt(0) === '/' ? path : workingDirectory + '/' + path);
+            }
+        } else if (instruction instanceof User) {
+            const args = this.expandArguments(config, instruction);
+            if (args.length > 0) {
+                config.User = args[0];
+            }
+        } else if (instruction instanceof Stopsignal) {
+            const args = this.expandArguments(config, instruction);
+            if (args.length > 0) {
+                config.StopSignal = args[0];
+            }
+        } else if (instruction instanceof Healthcheck) {
+            const healthcheck = this.getHealthcheck(instruction);
+            if (healthcheck !== null) {
+                config.Healthcheck = healthcheck;
+            }
+        } else if (instruction instanceof Onbuild) {
+            const trigger = instruction.getArgumentsContent();
+            if (trigger !== null) {
+                config.OnBuild = (config.OnBuild ? config.OnBuild : []).concat(trigger);
+            }
+        }
+    }
+
+    /**
+     * Expands the variables in a property's value. Variables that have
+     * not been declared in the build stage will be resolved against
+     * the environment variables that have been inherited.
+     */
+    private expandProperty(config: ast.ImageConfig, instruction: Instruction, property: Property): string {
+        const value = property.getUnescapedValue();
+        if (value === null) {
+            return "";
+        }
+        return Expansion.expandWord(value, this.dockerfile.getEscapeCharacter(), this.createResolver(config, instruction));
+    }
+
+    /**
+     * Expands the variables in the arguments of an instruction and
+     * removes their quotes.
+     */
+    private expandArguments(config: ast.ImageConfig, instruction: Instruction): string[] {
+        const document = this.dockerfile.getDocument();
+        const resolve = this.createResolver(config, instruction);
+        return instruction.getArguments().map(arg => {
+            const range = arg.getRange();
+            const raw = document.getText().substring(document.offsetAt(range.start), document.offsetAt(range.end));
+            return Expansion.expandWord(raw, this.dockerfile.getEscapeCharacter(), resolve);
+        });
+    }
+
+    /**
+     * Creates a resolver for the variables of the given instruction.
+     * The environment variables that have been set so far take
+     * precedence and already have their own variables expanded.
+     * Other variables are resolved against the ARG instructions that
+     * have been declared before the instruction.
+     */
+    private createResolver(config: ast.ImageConfig, instruction: Instruction): VariableResolver {
+        const line = instruction.getRange().start.line;
+        const env = config.Env ? config.Env.slice() : [];
+        return (name: string) => {
+            for (const variable of env) {
+                if (variable.indexOf(name + '=') === 0) {
+                    return variable.substring(name.length + 1);
+                }
+            }
+            return this.dockerfile.resolveVariable(name, line);
+        };
+    }
+
+    private getShell(config: ast.ImageConfig): string[] {
+        return config.Shell ? config.Shell : DefaultShell;
+    }
+
+    private getHealthcheck(instruction: Healthcheck): ast.HealthConfig | null {
+        const args = instruction.getArguments();
+        if (args.length > 0 && args[0].getValue().toUpperCase() === "NONE") {
+            return { Test: [ "NONE" ] };
+        }
+        const form = instruction.getForm();
+        if (form === null) {
+            return null;
+        }
+
+        // the daemon wraps CMD-SHELL commands with the shell itself
+        const argv = instruction.getArgv([]);
+        const test = [ form === CommandForm.EXEC ? "CMD" : "CMD-SHELL" ].concat(argv);
+        const healthcheck: ast.HealthConfig = { Test: test };
+        const interval = instruction.getInterval();
+        if (interval !== null) {
+            healthcheck.Interval = ImageConfigEvaluator.toNanoseconds(interval);
+        }
+        const timeout = instruction.getTimeout();
+        if (timeout !== null) {
+            healthcheck.Timeout = ImageConfigEvaluator.toNanoseconds(timeout);
+        }
+        const startPeriod = instruction.getStartPeriod();
+        if (startPeriod !== null) {
+            healthcheck.StartPeriod = ImageConfigEvaluator.toNanoseconds(startPeriod);
+        }
+        const startInterval = instruction.getStartInterval();
+        if (startInterval !== null) {
+            healthcheck.StartInterval = ImageConfigEvaluator.toNanoseconds(startInterval);
+        }
+        const retries = instruction.getRetries();
+        if (retries !== null) {
+            healthcheck.Retries = retries;
+        }
+        return healthcheck;
+    }
+
+    private static toNanoseconds(milliseconds: number): number {
+        return Math.round(milliseconds * 1e6);
+    }
+}
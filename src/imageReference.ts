@@ -0,0 +1,195 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/**
+ * A reference to an image in a registry such as alpine:3.18 or
+ * ghcr.io/owner/app@sha256:... that has been normalized in the same
+ * way that Docker does. Images without a domain are assumed to be
+ * from docker.io and official images on docker.io are placed in the
+ * library namespace. Thus, alpine is normalized to
+ * docker.io/library/alpine:latest.
+ */
+export class ImageReference {
+
+    /**
+     * The domain that images without a domain will be pulled from.
+     */
+    public static readonly DEFAULT_DOMAIN = "docker.io";
+
+    /**
+     * The tag that is used if a reference has neither a tag nor a
+     * digest.
+     */
+    public static readonly DEFAULT_TAG = "latest";
+
+    private static readonly PATH_COMPONENT = "[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*";
+    private static readonly DOMAIN_COMPONENT = "(?:[a-zA-Z0-9]|[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9])";
+    private static readonly DOMAIN = new RegExp("^(?:" + ImageReference.DOMAIN_COMPONENT + "(?:\\." + ImageReference.DOMAIN_COMPONENT + ")*|\\[[a-fA-F0-9:]+\\])(?::[0-9]+)?$");
+    private static readonly PATH = new RegExp("^" + ImageReference.PATH_COMPONENT + "(?:/" + ImageReference.PATH_COMPONENT + ")*$");
+    private static readonly TAG = /^[\w][\w.-]{0,127}$/;
+    private static readonly DIGEST = /^[A-Za-z][A-Za-z0-9]*(?:[-_+.][A-Za-z][A-Za-z0-9]*)*:[0-9A-Fa-f]{32,}$/;
+    private static readonly IDENTIFIER = /^[a-f0-9]{64}$/;
+
+    private readonly domain: string;
+    private readonly path: string;
+    private readonly tag: string | null;
+    private readonly digest: string | null;
+
+    constructor(domain: string, path: string, tag: string | null, digest: string | null) {
+        this.domain = domain;
+        this.path = path;
+        this.tag = tag;
+        this.digest = digest;
+    }
+
+    /**
+     * Parses and normalizes the given image reference. The reference
+     * must follow the grammar of the distribution project's reference
+     * package, so its path must be in lowercase and its name may not
+     * be longer than 255 characters.
+     *
+     * @param reference the reference to parse, such as alpine,
+     *                  alpine:3.18, or localhost:5000/app@sha256:...
+     * @return the normalized reference, or null if the given string is
+     *         not a valid image reference
+     */
+    public static parse(reference: string): ImageReference | null {
+        let name = reference;
+        let digest: string | null = null;
+        const digestIndex = name.indexOf('@');
+        if (digestIndex !== -1) {
+            digest = name.substring(digestIndex + 1);
+            name = name.substring(0, digestIndex);
+            if (!ImageReference.DIGEST.test(digest)) {
+                return null;
+            }
+        }
+
+        let tag: string | null = null;
+        const tagIndex = name.lastIndexOf(':');
+        // the colon might be for a registry's port and not a tag
+        if (tagIndex > name.lastIndexOf('/')) {
+            tag = name.substring(tagIndex + 1);
+            name = name.substring(0, tagIndex);
+            if (!ImageReference.TAG.test(tag)) {
+                return null;
+            }
+        }
+
+        if (ImageReference.IDENTIFIER.test(name)) {
+            // a bare image identifier is not a repository name
+            return null;
+        }
+
+        let domain = ImageReference.DEFAULT_DOMAIN;
+        let path = name;
+        const slashIndex = name.indexOf('/');
+        if (slashIndex !== -1) {
+            const candidate = name.substring(0, slashIndex);
+            if (/[.:]/.test(candidate) || candidate === "localhost" || candidate.toLowerCase() !== candidate) {
+                domain = candidate;
+                path = name.substring(slashIndex + 1);
+            }
+        }
+        if (domain === "index.docker.io") {
+            domain = ImageReference.DEFAULT_DOMAIN;
+        }
+        if (domain === ImageReference.DEFAULT_DOMAIN && path.indexOf('/') === -1) {
+            path = "library/" + path;
+        }
+
+        if (!ImageReference.DOMAIN.test(domain) || !ImageReference.PATH.test(path) || domain.length + path.length + 1 > 255) {
+            return null;
+        }
+        return new ImageReference(domain, path, tag, digest);
+    }
+
+    /**
+     * Returns the domain of the registry that hosts the image, such
+     * as docker.io or localhost:5000.
+     */
+    public getDomain(): string {
+        return this.domain;
+    }
+
+    /**
+     * Returns the path of the image's repository within its registry,
+     * such as library/alpine.
+     */
+    public getPath(): string {
+        return this.path;
+    }
+
+    /**
+     * Returns the fully qualified name of the image's repository
+     * without a tag or a digest, such as docker.io/library/alpine.
+     */
+    public getName(): string {
+        return this.domain + '/' + this.path;
+    }
+
+    /**
+     * Returns the shortest name that Docker would display for the
+     * image's repository. For example, docker.io/library/alpine would
+     * be shortened to alpine and docker.io/owner/app to owner/app.
+     */
+    public getFamiliarName(): string {
+        if (this.domain === ImageReference.DEFAULT_DOMAIN) {
+            return this.path.indexOf("library/") === 0 && this.path.indexOf('/', 8) === -1 ? this.path.substring(8) : this.path;
+        }
+        return this.getName();
+    }
+
+    /**
+     * Returns the tag that was specified by the reference.
+     *
+     * @return the reference's tag, or null if no tag was specified
+     */
+    public getTag(): string | null {
+        return this.tag;
+    }
+
+    /**
+     * Returns the digest that was specified by the reference, such as
+     * sha256:613685c22f65d01f2264bdd49b8a336488e14faf29f3ff9b6bf76a4da23c4700.
+     *
+     * @return the reference's digest, or null if no digest was
+     *         specified
+     */
+    public getDigest(): string | null {
+        return this.digest;
+    }
+
+    /**
+     * Returns the tag that will be pulled for this reference. This
+     * will be latest if neither a tag nor a digest has been specified.
+     *
+     * @return the reference's tag, or null if the reference only has
+     *         a digest
+     */
+    public getEffectiveTag(): string | null {
+        if (this.tag === null && this.digest === null) {
+            return ImageReference.DEFAULT_TAG;
+        }
+        return this.tag;
+    }
+
+    /**
+     * Returns the canonical form of this reference, such as
+     * docker.io/library/alpine:latest.
+     */
+    public toString(): string {
+        const tag = this.getEffectiveTag();
+        let reference = this.getName();
+        if (tag !== null) {
+            reference += ':' + tag;
+        }
+        if (this.digest !== null) {
+            reference += '@' + this.digest;
+        }
+        return reference;
+    }
+}
@@ -7,15 +7,19 @@
 import { Range, Position } from 'vscode-languageserver-types';
 import * as ast from './main';
 import { Comment } from './comment';
+import { InstalledPackage } from './installedPackage';
 import { Instruction } from './instruction';
+import { Property } from './property';
 import { Arg } from './instructions/arg';
 import { Cmd } from './instructions/cmd';
 import { Copy } from './instructions/copy';
 import { Env } from './instructions/env';
 import { Entrypoint } from './instructions/entrypoint';
+import { Expose } from './instructions/expose';
 import { From } from './instructions/from';
 import { Healthcheck } from './instructions/healthcheck';
 import { Onbuild } from './instructions/onbuild';
+import { Run } from './instructions/run';
 import { Util } from './util';
 
 export class ImageTemplate implements ast.ImageTemplate {
@@ -113,6 +117,50 @@ export class ImageTemplate implements ast.ImageTemplate {
         return args;
     }
 
+    /**
+     * Gets all the EXPOSE instructions that are defined in this image.
+     */
+    public getEXPOSEs(): Expose[] {
+        let exposes = [];
+        for (let instruction of this.instructions) {
+            if (instruction instanceof Expose) {
+                exposes.push(instruction);
+            }
+        }
+        return exposes;
+    }
+
+    /**
+     * Returns the ports that this image will expose as declared by its
+     * EXPOSE instructions. Port ranges are expanded into individual
+     * ports and every port will include its protocol, such as 80/tcp.
+     * Port specifications that cannot be resolved to valid port
+     * numbers, ranges that end before they start, and protocols other
+     * than tcp, udp, and sctp will be ignored.
+     * 
+     * @return the unique ports that will be exposed, in the order
+     *         that they were first declared
+     */
+    public getExposedPorts(): string[] {
+        const exposedPorts = [];
+        const found: { [port: string]: boolean } = Object.create(null);
+        for (const expose of this.getEXPOSEs()) {
+            for (const port of expose.getPorts()) {
+                if (!port.isValid()) {
+                    continue;
+                }
+                for (let i = port.getStart(); i <= port.getEnd(); i++) {
+                    const exposedPort = i + "/" + port.getEffectiveProtocol();
+                    if (!found[exposedPort]) {
+                        found[exposedPort] = true;
+                        exposedPorts.push(exposedPort);
+                    }
+                }
+            }
+        }
+        return exposedPorts;
+    }
+
     /**
      * Gets all the FROM instructions that are defined in this image.
      */
@@ -139,6 +187,27 @@ export class ImageTemplate implements ast.ImageTemplate {
         return froms;
     }
 
+    public getInstalledPackages(): InstalledPackage[] {
+        let packages: InstalledPackage[] = [];
+        for (const run of this.getRUNs()) {
+            packages = packages.concat(run.getInstalledPackages());
+        }
+        return packages;
+    }
+
+    /**
+     * Gets all the RUN instructions that are defined in this image.
+     */
+    public getRUNs(): Run[] {
+        let runs = [];
+        for (let instruction of this.instructions) {
+            if (instruction instanceof Run) {
+                runs.push(instruction);
+            }
+        }
+        return runs;
+    }
+
     public getOnbuildTriggers(): Instruction[] {
         let triggers = [];
         for (let instruction of this.instructions) {
@@ -188,18 +257,25 @@ export class ImageTemplate implements ast.ImageTemplate {
      * 
      * @param variable the name of the variable to resolve
      * @param line the line number that the variable is on, zero-based
+     * @param buildArgs the values that should override the values of
+     *                  the ARG instructions, ENV instructions will
+     *                  not be overridden
+     * @param expand the function to use for expanding the variables
+     *               in a declared value, it is given the property
+     *               that declares the value and the line of its
+     *               instruction
      * @return the value of the variable as defined by an ARG or ENV
      *         instruction, or null if no value has been specified, or
      *         undefined if a variable with the given name has not
      *         been defined
      */
-    public resolveVariable(variable: string, line: number): string | null | undefined {
+    public resolveVariable(variable: string, line: number, buildArgs?: { [name: string]: string }, expand?: (property: Property, line: number) => string | null): string | null | undefined {
         let envs = this.getENVs();
         for (let i = envs.length - 1; i >= 0; i--) {
             if (envs[i].isBefore(line)) {
                 for (let property of envs[i].getProperties()) {
                     if (property.getName() === variable) {
-                        return property.getValue();
+                        return expand ? expand(property, envs[i].getRange().start.line) : property.getValue();
                     }
                 }
             }
@@ -210,7 +286,10 @@ export class ImageTemplate implements ast.ImageTemplate {
             if (args[i].isBefore(line)) {
                 let property = args[i].getProperty();
                 if (property && property.getName() === variable) {
-                    return property.getValue();
+                    if (buildArgs && buildArgs.hasOwnProperty(variable)) {
+                        return buildArgs[variable];
+                    }
+                    return expand ? expand(property, args[i].getRange().start.line) : property.getValue();
                 }
             }
         }
@@ -0,0 +1,75 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { PackageManager } from './main';
+import { Run } from './instructions/run';
+
+/**
+ * A package that is installed by a package manager in a RUN
+ * instruction, such as curl in apt-get install -y curl=7.88.1-10.
+ */
+export class InstalledPackage {
+
+    private readonly manager: PackageManager;
+    private readonly name: string;
+    private readonly version: string | null;
+    private readonly range: Range;
+    private readonly instruction: Run;
+
+    constructor(manager: PackageManager, name: string, version: string | null, range: Range, instruction: Run) {
+        this.manager = manager;
+        this.name = name;
+        this.version = version;
+        this.range = range;
+        this.instruction = instruction;
+    }
+
+    public toString(): string {
+        return this.version === null ? this.name : this.name + "@" + this.version;
+    }
+
+    /**
+     * Returns the package manager that installs this package.
+     */
+    public getManager(): PackageManager {
+        return this.manager;
+    }
+
+    /**
+     * Returns the name of the package without its version. Extras of
+     * Python packages and the architectures and target releases of
+     * Debian packages will also be removed.
+     */
+    public getName(): string {
+        return this.name;
+    }
+
+    /**
+     * Returns the version that the package has been pinned to.
+     *
+     * @return the package's version, or null if the package has not
+     *         been pinned to a specific version
+     */
+    public getVersion(): string | null {
+        return this.version;
+    }
+
+    /**
+     * Returns the range of the word in the Dockerfile that specifies
+     * this package.
+     */
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the RUN instruction that installs this package.
+     */
+    public getInstruction(): Run {
+        return this.instruction;
+    }
+}
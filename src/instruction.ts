@@ -2,13 +2,15 @@
  * Copyright (c) Remy Suen. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import { TextDocument, Range, Position } from 'vscode-languageserver-types';
+import { TextDocument, Range, Position, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Expansion } from './expansion';
 import { Util } from './util';
 import { Dockerfile } from './dockerfile';
 import { Line } from './line';
 import { Argument } from './argument';
+import { Heredoc } from './heredoc';
 import { Variable } from './variable';
-import { Keyword } from './main';
+import { BuildKitVariables, Keyword, DiagnosticCode, PlatformVariables } from './main';
 import { Arg } from './instructions/arg';
 
 export class Instruction extends Line {
@@ -21,6 +23,8 @@ export class Instruction extends Line {
 
     private readonly instructionRange: Range;
 
+    private heredocs: Heredoc[] | undefined = undefined;
+
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range);
         this.dockerfile = dockerfile;
@@ -45,6 +49,20 @@ export class Instruction extends Line {
         return this.document.getText().substring(this.document.offsetAt(range.start), this.document.offsetAt(range.end));
     }
 
+    /**
+     * Determines whether the given offset in the document is within
+     * one of the given variables.
+     */
+    protected isInVariable(variables: Variable[], offset: number): boolean {
+        for (const variable of variables) {
+            const range = variable.getRange();
+            if (this.document.offsetAt(range.start) <= offset && offset < this.document.offsetAt(range.end)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
     public getInstructionRange(): Range {
         return this.instructionRange;
     }
@@ -57,6 +75,34 @@ export class Instruction extends Line {
         return this.getInstruction().toUpperCase();
     }
 
+    /**
+     * Returns the heredocs that have been declared by this instruction.
+     * Only RUN, COPY, and ADD instructions support heredocs.
+     * 
+     * @return the heredocs of this instruction in the order that they
+     *         were declared, or an empty array if there are none
+     */
+    public getHeredocs(): Heredoc[] {
+        if (this.heredocs === undefined) {
+            switch (this.getKeyword()) {
+                case Keyword.ADD:
+                case Keyword.COPY:
+                case Keyword.RUN:
+                    this.heredocs = Util.parseHeredocs(
+                        this.document,
+                        this.escapeChar,
+                        this.document.offsetAt(this.instructionRange.end),
+                        this.document.offsetAt(this.getRange().end)
+                    );
+                    break;
+                default:
+                    this.heredocs = [];
+                    break;
+            }
+        }
+        return this.heredocs;
+    }
+
     public getArgumentsRange(): Range | null {
         let args = this.getArguments();
         if (args.length === 0) {
@@ -181,6 +227,11 @@ export class Instruction extends Line {
         let range = this.getInstructionRange();
         let extra = this.document.offsetAt(range.end) - this.document.offsetAt(range.start);
         let content = this.getTextContent();
+        const heredocs = this.getHeredocs();
+        if (heredocs.length > 0) {
+            // the bodies of the heredocs are not arguments
+            content = content.substring(0, this.document.offsetAt(heredocs[0].getBodyRange().start) - this.document.offsetAt(range.start));
+        }
         let fullArgs = content.substring(extra);
         let offset = this.document.offsetAt(range.start) + extra;
         let start = false;
@@ -314,11 +365,12 @@ export class Instruction extends Line {
         for (let i = 0; i < args.length; i++) {
             const argRange = args[i].getRange();
             let offset = this.document.offsetAt(argRange.start);
-            const variables = this.parseVariables(offset, args[i].getValue());
+            // the variables' ranges are offsets into the raw text of the argument
+            const variables = this.parseVariables(offset, this.getRangeContent(argRange));
             const swaps = [];
             let requiresExpansion = false;
             for (let variable of variables) {
-                const value = this.dockerfile.resolveVariable(variable.getName(), variable.getNameRange().start.line);
+                const value = this.expandVariable(variable);
                 swaps.push(value);
                 requiresExpansion = requiresExpansion || value !== undefined;
             }
@@ -329,7 +381,7 @@ export class Instruction extends Line {
                     const variableRange = variables[j].getRange();
                     const start = this.document.offsetAt(variableRange.start);
                     const end = this.document.offsetAt(variableRange.end);
-                    if (swaps[j]) {
+                    if (swaps[j] !== undefined) {
                         // replace variable with its resolved value
                         expanded += this.document.getText().substring(offset, start);
                         expanded += swaps[j];
@@ -353,6 +405,19 @@ export class Instruction extends Line {
         return args;
     }
 
+    /**
+     * Evaluates the given variable against the ARG and ENV
+     * instructions that have been declared before it.
+     * 
+     * @return the variable's expanded value, or undefined if the
+     *         variable could not be resolved
+     */
+    private expandVariable(variable: Variable): string | undefined {
+        const line = variable.getNameRange().start.line;
+        const resolve = (name: string) => this.dockerfile.resolveVariable(name, line);
+        return Expansion.evaluate(resolve(variable.getName()), variable.getOperator(), variable.getSubstitutionParameter(), this.escapeChar, resolve);
+    }
+
     public getVariables(): Variable[] {
         const variables = [];
         const args = this.getArguments();
@@ -362,12 +427,58 @@ export class Instruction extends Line {
             const parsedVariables = this.parseVariables(this.document.offsetAt(arg.getRange().start), rawValue);
             for (const parsedVariable of parsedVariables) {
                 variables.push(parsedVariable);
+                this.addNestedVariables(parsedVariable, variables);
             }
         }
         return variables;
     }
 
-    private parseVariables(offset: number, arg: string): Variable[] {
+    private addNestedVariables(variable: Variable, variables: Variable[]): void {
+        const range = variable.getSubstitutionRange();
+        if (range !== null) {
+            for (const nested of this.parseVariables(this.document.offsetAt(range.start), this.getRangeContent(range))) {
+                variables.push(nested);
+                this.addNestedVariables(nested, variables);
+            }
+        }
+    }
+
+    /**
+     * Returns the problems that were found when this instruction was
+     * parsed. This includes variables that are missing their closing
+     * } and heredocs that were never terminated.
+     * 
+     * @return the problems in this instruction, or an empty array if
+     *         no problems were found
+     */
+    public getDiagnostics(): Diagnostic[] {
+        const diagnostics = [];
+        for (const arg of this.getArguments()) {
+            this.validateVariables(arg.getRange(), diagnostics);
+        }
+        for (const heredoc of this.getHeredocs()) {
+            if (heredoc.getTerminatorRange() === null) {
+                diagnostics.push(Diagnostic.create(
+                    heredoc.getRange(),
+                    "Heredoc " + heredoc.getName() + " is not terminated",
+                    DiagnosticSeverity.Error,
+                    DiagnosticCode.UnterminatedHeredoc,
+                    "dockerfile-ast"
+                ));
+            }
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Checks the variables in the given range of the document and
+     * adds a problem for every variable that is missing its closing }.
+     */
+    protected validateVariables(range: Range, diagnostics: Diagnostic[]): void {
+        this.parseVariables(this.document.offsetAt(range.start), this.getRangeContent(range), diagnostics);
+    }
+
+    private parseVariables(offset: number, arg: string, diagnostics?: Diagnostic[]): Variable[] {
         let variables = [];
         variableLoop: for (let i = 0; i < arg.length; i++) {
             switch (arg.charAt(i)) {
@@ -385,11 +496,15 @@ export class Instruction extends Line {
                         let substitutionStart = -1;
                         let substitutionEnd = -1;
                         let modifierRead = -1;
+                        let operator: string | null = null;
+                        let operatorLength = 1;
+                        // the number of nested ${ declarations in the substitution parameter
+                        let depth = 0;
                         nameLoop: for (let j = i + 2; j < arg.length; j++) {
                             let char = arg.charAt(j);
                             switch (char) {
                                 case this.escapeChar:
-                                    for (let k = j + 1; k < arg.length; k++) {
+                                    escapeLoop: for (let k = j + 1; k < arg.length; k++) {
                                         switch (arg.charAt(k)) {
                                             case ' ':
                                             case '\t':
@@ -400,10 +515,37 @@ export class Instruction extends Line {
                                                 // escape this newline
                                                 j = k;
                                                 continue nameLoop;
+                                            default:
+                                                break escapeLoop;
+                                        }
+                                    }
+                                    if (j + 1 < arg.length) {
+                                        // keep the escaped character so that an escaped / or }
+                                        // is not mistaken for a separator or the closing brace
+                                        const escaped = char + arg.charAt(j + 1);
+                                        if (modifierRead !== -1) {
+                                            if (substitutionStart === -1) {
+                                                substitutionStart = j;
+                                            }
+                                            substitutionEnd = j + 1;
+                                            escapedSubstitutionParameter += escaped;
                                         }
+                                        escapedString += escaped;
+                                        j++;
                                     }
                                     break;
                                 case '}':
+                                    if (depth > 0) {
+                                        // closing a nested variable in the substitution parameter
+                                        depth--;
+                                        if (substitutionStart === -1) {
+                                            substitutionStart = j;
+                                        }
+                                        substitutionEnd = j;
+                                        escapedSubstitutionParameter += char;
+                                        escapedString += char;
+                                        break;
+                                    }
                                     escapedString += '}';
                                     let modifier = null;
                                     let modifierRange = null;
@@ -420,15 +562,15 @@ export class Instruction extends Line {
                                             // but a modifier character existed,
                                             // just offset the range by 1 from
                                             // the modifier character
-                                            substitutionStart = modifierRead + 1;
-                                            substitutionEnd = modifierRead + 1;
+                                            substitutionStart = modifierRead + operatorLength;
+                                            substitutionEnd = modifierRead + operatorLength;
                                         } else {
                                             // offset one more from the last
                                             // character found
                                             substitutionEnd = substitutionEnd + 1;
                                         }
-                                        modifier = arg.substring(modifierRead, modifierRead + 1);
-                                        modifierRange = Range.create(this.document.positionAt(offset + modifierRead), this.document.positionAt(offset + modifierRead + 1));
+                                        modifier = arg.substring(modifierRead, modifierRead + operatorLength);
+                                        modifierRange = Range.create(this.document.positionAt(offset + modifierRead), this.document.positionAt(offset + modifierRead + operatorLength));
                                         substitutionRange = Range.create(this.document.positionAt(offset + substitutionStart), this.document.positionAt(offset + substitutionEnd));
                                     }
                                     let start = this.document.positionAt(offset + i);
@@ -438,6 +580,7 @@ export class Instruction extends Line {
                                         Range.create(start, this.document.positionAt(offset + j + 1)),
                                         modifier,
                                         modifierRange,
+                                        operator,
                                         substitutionParameter,
                                         substitutionRange,
                                         this.dockerfile.resolveVariable(escapedName, start.line) !== undefined,
@@ -469,7 +612,21 @@ export class Instruction extends Line {
                                     break;
                                 default:
                                     if (nameEnd === -1) {
-                                        escapedName += char;
+                                        if (escapedName.length > 0 && "-+?#%/".indexOf(char) !== -1) {
+                                            // an operator that is not preceded by a colon
+                                            nameEnd = j;
+                                            modifierRead = j;
+                                            operator = char;
+                                            if (char !== '-' && char !== '+' && char !== '?' && arg.charAt(j + 1) === char) {
+                                                // ##, %%, or //
+                                                operator += char;
+                                                operatorLength = 2;
+                                                escapedString += char;
+                                                j++;
+                                            }
+                                        } else {
+                                            escapedName += char;
+                                        }
                                     } else if (modifierRead !== -1) {
                                         if (substitutionStart === -1) {
                                             substitutionStart = j;
@@ -477,15 +634,30 @@ export class Instruction extends Line {
                                         } else {
                                             substitutionEnd = j;
                                         }
+                                        if (char === '$' && arg.charAt(j + 1) === '{') {
+                                            depth++;
+                                        }
                                         escapedSubstitutionParameter += char;
                                     } else {
                                         modifierRead = j;
+                                        if (char === '-' || char === '+' || char === '?') {
+                                            operator = ':' + char;
+                                        }
                                     }
                                     escapedString += char;
                                     break;
                             }
                         }
                         // no } found, not a valid variable, stop processing
+                        if (diagnostics) {
+                            diagnostics.push(Diagnostic.create(
+                                Range.create(this.document.positionAt(offset + i), this.document.positionAt(offset + arg.length)),
+                                "Variable is missing its closing }",
+                                DiagnosticSeverity.Error,
+                                DiagnosticCode.UnterminatedVariable,
+                                "dockerfile-ast"
+                            ));
+                        }
                         break variableLoop;
                     } else if (Util.isWhitespace(arg.charAt(i + 1)) || i === arg.length - 1) {
                         // $ followed by whitespace or EOF, ignore this variable
@@ -512,6 +684,7 @@ export class Instruction extends Line {
                                         null,
                                         null,
                                         null,
+                                        null,
                                         this.dockerfile.resolveVariable(escapedName, varStart.line) !== undefined,
                                         this.isBuildVariable(escapedName, varStart.line),
                                         '$' + escapedName
@@ -542,6 +715,7 @@ export class Instruction extends Line {
                                         null,
                                         null,
                                         null,
+                                        null,
                                         this.dockerfile.resolveVariable(escapedName, start.line) !== undefined,
                                         this.isBuildVariable(escapedName, start.line),
                                         '$' + escapedName
@@ -558,6 +732,7 @@ export class Instruction extends Line {
                                     null,
                                     null,
                                     null,
+                                    null,
                                     this.dockerfile.resolveVariable(escapedName, varStart.line) !== undefined,
                                     this.isBuildVariable(escapedName, varStart.line),
                                     '$' + escapedName
@@ -576,6 +751,7 @@ export class Instruction extends Line {
                             null,
                             null,
                             null,
+                            null,
                             this.dockerfile.resolveVariable(escapedName, start.line) !== undefined,
                             this.isBuildVariable(escapedName, start.line),
                             '$' + escapedName
@@ -596,6 +772,9 @@ export class Instruction extends Line {
                     return true;
                 }
             }
+            if (PlatformVariables.indexOf(variable) !== -1 || BuildKitVariables.indexOf(variable) !== -1) {
+                return true;
+            }
             return undefined;
         }
         let image = this.dockerfile.getContainingImage(Position.create(line, 0));
@@ -3,16 +3,103 @@
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
 import { TextDocument, Range } from 'vscode-languageserver-types';
+import { AddSourceType, BuildContext } from '../main';
+import { Argument } from '../argument';
+import { CopyInstruction } from '../copyInstruction';
+import { CopyResolution } from '../copyResolution';
+import { CopyResolver } from '../copyResolver';
 import { Dockerfile } from '../dockerfile';
-import { JSONInstruction } from '../jsonInstruction';
+import { Expansion } from '../expansion';
+import { Flag } from '../flag';
 
-export class Add extends JSONInstruction {
+export class Add extends CopyInstruction {
+
+    private static readonly SUPPORTED_FLAGS = [ "chown", "chmod", "link", "exclude", "checksum", "keep-git-dir" ];
+
+    /**
+     * The file extensions of the compressed and uncompressed tar
+     * archives that will be extracted.
+     */
+    private static readonly ARCHIVE = /\.(tar|tar\.gz|tgz|tar\.bz2|tbz2?|tar\.xz|txz|tar\.zst|tzst)$/i;
 
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range, dockerfile, escapeChar, instruction, instructionRange);
     }
 
-    public stopSearchingForFlags(argument: string): boolean {
-        return argument.indexOf("--") === -1;
+    protected getSupportedFlags(): string[] {
+        return Add.SUPPORTED_FLAGS;
+    }
+
+    /**
+     * Determines what kind of source the given argument is. Variables
+     * in the argument will be expanded before it is classified. Git
+     * repositories are addressed with git@, git://, or ssh:// or by a
+     * URL that ends with .git, optionally followed by a #ref fragment.
+     * Local files are assumed to be tar archives by their extension
+     * while Docker inspects their contents instead.
+     * 
+     * @param source one of the arguments returned by getSources()
+     * @return the kind of the source
+     */
+    public getSourceType(source: Argument): AddSourceType {
+        const line = this.getRange().start.line;
+        const value = Expansion.expand(source.getValue(), this.escapeChar, name => this.dockerfile.resolveVariable(name, line));
+        if (/^(git@|git:\/\/|ssh:\/\/)/.test(value) || /^https?:\/\/[^#]+\.git\/?(#.*)?$/.test(value)) {
+            return AddSourceType.GIT;
+        } else if (/^https?:\/\//.test(value)) {
+            return AddSourceType.URL;
+        } else if (Add.ARCHIVE.test(value)) {
+            return AddSourceType.ARCHIVE;
+        }
+        return AddSourceType.PATH;
+    }
+
+    /**
+     * Returns the --checksum flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getChecksumFlag(): Flag | null {
+        return this.getLastFlag("checksum");
+    }
+
+    /**
+     * Returns the checksum that a remote source must match, such as
+     * sha256:24454f830cdb571e2c4ad15481119c43b3cafd48dd869a9b2945d1036d1dc68d.
+     * 
+     * @return the checksum, or null if this instruction does not have
+     *         a --checksum flag with a value
+     */
+    public getChecksum(): string | null {
+        const flag = this.getChecksumFlag();
+        return flag === null ? null : flag.getValue();
+    }
+
+    /**
+     * Returns the --keep-git-dir flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getKeepGitDirFlag(): Flag | null {
+        return this.getLastFlag("keep-git-dir");
+    }
+
+    /**
+     * Returns whether the .git directory of a Git repository source
+     * will be kept.
+     */
+    public isKeepGitDir(): boolean {
+        return this.isEnabled(this.getKeepGitDirFlag());
+    }
+
+    /**
+     * Resolves the sources of this instruction against the files of
+     * the given build context.
+     * 
+     * @param context the build context that the image will be built
+     *                with
+     * @return the files that this instruction will copy and where
+     *         they will be copied to
+     */
+    public resolve(context: BuildContext): CopyResolution {
+        return new CopyResolver(this.dockerfile, context).resolve(this, null, false, this.getExcludeFlags());
     }
-}
\ No newline at end of file
+}
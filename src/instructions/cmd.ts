@@ -5,10 +5,36 @@
 import { TextDocument, Range } from 'vscode-languageserver-types';
 import { Dockerfile } from '../dockerfile';
 import { JSONInstruction } from '../jsonInstruction';
+import { ShellScript } from '../shell/shellScript';
 
 export class Cmd extends JSONInstruction {
 
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range, dockerfile, escapeChar, instruction, instructionRange);
     }
+
+    /**
+     * Returns the arguments that will be passed to the container's
+     * ENTRYPOINT, or the command that the container will run if the
+     * image has no ENTRYPOINT. See BuildStage's
+     * getContainerArgv() for how the two are combined.
+     * 
+     * @param shell the shell to run a command in shell form with, if
+     *              unspecified, the active shell of the build stage
+     *              will be used
+     */
+    public getArgv(shell?: string[]): string[] {
+        return this.getCommandArgv(shell);
+    }
+
+    /**
+     * Parses the command of this instruction into its pipelines and
+     * simple commands if it is in shell form.
+     * 
+     * @return the parsed shell command, or null if the command is in
+     *         exec form or if there is no command
+     */
+    public getShellScript(): ShellScript | null {
+        return this.parseShellScript();
+    }
 }
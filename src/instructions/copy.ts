@@ -3,22 +3,72 @@
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
 import { TextDocument, Range } from 'vscode-languageserver-types';
+import { BuildContext } from '../main';
+import { CopyInstruction } from '../copyInstruction';
+import { CopyResolution } from '../copyResolution';
+import { CopyResolver } from '../copyResolver';
 import { Dockerfile } from '../dockerfile';
 import { Flag } from '../flag';
-import { JSONInstruction } from '../jsonInstruction';
 
-export class Copy extends JSONInstruction {
+export class Copy extends CopyInstruction {
+
+    private static readonly SUPPORTED_FLAGS = [ "from", "chown", "chmod", "link", "parents", "exclude" ];
 
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range, dockerfile, escapeChar, instruction, instructionRange);
     }
 
-    public stopSearchingForFlags(argument: string): boolean {
-        return argument.indexOf("--") === -1;
+    protected getSupportedFlags(): string[] {
+        return Copy.SUPPORTED_FLAGS;
     }
 
+    /**
+     * Returns the --from flag of this instruction. If multiple flags
+     * have been declared, the last one will be returned.
+     */
     public getFromFlag(): Flag | null {
-        let flags = super.getFlags();
-        return flags.length === 1 && flags[0].getName() === "from" ? flags[0] : null;
+        return this.getLastFlag("from");
+    }
+
+    /**
+     * Returns the build stage, image, or named context that the files
+     * will be copied from instead of the build context.
+     * 
+     * @return the name or index of a build stage or the name of an
+     *         image, or null if this instruction does not have a
+     *         --from flag with a value
+     */
+    public getFrom(): string | null {
+        const flag = this.getFromFlag();
+        return flag === null ? null : flag.getValue();
+    }
+
+    /**
+     * Returns the --parents flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getParentsFlag(): Flag | null {
+        return this.getLastFlag("parents");
+    }
+
+    /**
+     * Returns whether the parent directories of the sources will be
+     * preserved in the destination.
+     */
+    public isParents(): boolean {
+        return this.isEnabled(this.getParentsFlag());
+    }
+
+    /**
+     * Resolves the sources of this instruction against the files of
+     * the given build context.
+     * 
+     * @param context the build context that the image will be built
+     *                with
+     * @return the files that this instruction will copy and where
+     *         they will be copied to
+     */
+    public resolve(context: BuildContext): CopyResolution {
+        return new CopyResolver(this.dockerfile, context).resolve(this, this.getFrom(), this.isParents(), this.getExcludeFlags());
     }
 }
@@ -0,0 +1,51 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { Dockerfile } from '../dockerfile';
+import { Instruction } from '../instruction';
+import { Port } from '../port';
+
+export class Expose extends Instruction {
+
+    constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
+        super(document, range, dockerfile, escapeChar, instruction, instructionRange);
+    }
+
+    /**
+     * Returns the port specifications of this instruction. The values
+     * of the ports will have had their variables expanded.
+     */
+    public getPorts(): Port[] {
+        const ports = [];
+        const args = this.getExpandedArguments();
+        const variables = this.getVariables();
+        for (const arg of args) {
+            const range = arg.getRange();
+            const value = arg.getValue();
+            const rawStart = this.document.offsetAt(range.start);
+            const raw = this.getRangeContent(range);
+            let rawIndex = raw.lastIndexOf('/');
+            while (rawIndex !== -1 && this.isInVariable(variables, rawStart + rawIndex)) {
+                rawIndex = raw.substring(0, rawIndex).lastIndexOf('/');
+            }
+            const index = value.lastIndexOf('/');
+            const port = index === -1 ? value : value.substring(0, index);
+            const protocol = index === -1 ? null : value.substring(index + 1);
+            if (rawIndex === -1) {
+                ports.push(new Port(value, range, port, range, protocol, null));
+            } else {
+                ports.push(new Port(
+                    value,
+                    range,
+                    port,
+                    Range.create(range.start, this.document.positionAt(rawStart + rawIndex)),
+                    protocol,
+                    Range.create(this.document.positionAt(rawStart + rawIndex + 1), range.end)
+                ));
+            }
+        }
+        return ports;
+    }
+}
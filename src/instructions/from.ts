@@ -4,18 +4,73 @@
  * ------------------------------------------------------------------------------------------ */
 import { TextDocument, Range } from 'vscode-languageserver-types';
 import { Dockerfile } from '../dockerfile';
-import { Instruction } from '../instruction';
+import { Flag } from '../flag';
+import { ImageReference } from '../imageReference';
+import { ModifiableInstruction } from '../modifiableInstruction';
 
-export class From extends Instruction {
+export class From extends ModifiableInstruction {
 
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range, dockerfile, escapeChar, instruction, instructionRange);
     }
 
+    protected stopSearchingForFlags(argument: string): boolean {
+        return argument.indexOf("--") !== 0;
+    }
+
+    /**
+     * Returns the --platform flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getPlatformFlag(): Flag | null {
+        return this.getLastFlag("platform");
+    }
+
+    /**
+     * Returns the platform that the base image should be pulled for,
+     * such as linux/amd64. Variables in the value will not be
+     * expanded.
+     * 
+     * @return the platform, or null if this instruction does not have
+     *         a --platform flag with a value
+     */
+    public getPlatform(): string | null {
+        const flag = this.getPlatformFlag();
+        return flag === null ? null : flag.getValue();
+    }
+
     public getImage(): string | null {
         return this.getRangeContent(this.getImageRange());
     }
 
+    /**
+     * Returns the image that will be used as the base image after its
+     * variables have been resolved against the ARG instructions that
+     * have been declared before the first FROM instruction and the
+     * build arguments that the Dockerfile was parsed with.
+     * 
+     * @return the base image with its variables expanded, or null if
+     *         unspecified
+     */
+    public getExpandedImage(): string | null {
+        const args = this.getExpandedArguments();
+        return args.length !== 0 ? args[0].getValue() : null;
+    }
+
+    /**
+     * Parses the expanded base image of this instruction into a
+     * normalized image reference. Note that the base image may also be
+     * the name of an earlier build stage instead of an actual image.
+     * 
+     * @return the base image's reference, or null if unspecified, if
+     *         it contains variables that cannot be resolved, or if it
+     *         is not a valid reference
+     */
+    public getImageReference(): ImageReference | null {
+        const image = this.getExpandedImage();
+        return image === null ? null : ImageReference.parse(image);
+    }
+
     /**
      * Returns the name of the image that will be used as the base image.
      * 
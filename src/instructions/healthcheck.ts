@@ -2,13 +2,33 @@
  * Copyright (c) Remy Suen. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import { TextDocument, Range } from 'vscode-languageserver-types';
+import { TextDocument, Range, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
 import { Dockerfile } from '../dockerfile';
 import { Argument } from '../argument';
+import { Flag } from '../flag';
 import { ModifiableInstruction } from '../modifiableInstruction';
+import { ShellParser } from '../shell/shellParser';
+import { ShellScript } from '../shell/shellScript';
+import { CommandForm, DiagnosticCode } from '../main';
 
 export class Healthcheck extends ModifiableInstruction {
 
+    private static readonly DURATION_FLAGS = [ "interval", "timeout", "start-period", "start-interval" ];
+
+    /**
+     * The number of nanoseconds in each unit of a duration.
+     */
+    private static readonly DURATION_UNITS: { [unit: string]: number } = {
+        "ns": 1,
+        "us": 1e3,
+        "\u00b5s": 1e3,
+        "\u03bcs": 1e3,
+        "ms": 1e6,
+        "s": 1e9,
+        "m": 60e9,
+        "h": 3600e9
+    };
+
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range, dockerfile, escapeChar, instruction, instructionRange);
     }
@@ -22,4 +42,299 @@ export class Healthcheck extends ModifiableInstruction {
         let args = this.getArguments();
         return args.length !== 0 ? args[0] : null;
     }
+
+    /**
+     * Returns the problems of this instruction. In addition to the
+     * problems found by Instruction, an error will be included for
+     * every flag that is not supported, for every duration that is
+     * malformed, negative, or less than one millisecond, and for any
+     * arguments that follow a NONE subcommand.
+     */
+    public getDiagnostics(): Diagnostic[] {
+        const diagnostics = super.getDiagnostics();
+        for (const flag of this.getFlags()) {
+            const name = flag.getName();
+            if (Healthcheck.DURATION_FLAGS.indexOf(name) !== -1) {
+                const message = this.validateDuration(flag);
+                if (message !== null) {
+                    const range = flag.getValueRange();
+                    diagnostics.push(Diagnostic.create(
+                        range === null ? flag.getNameRange() : range,
+                        message,
+                        DiagnosticSeverity.Error,
+                        DiagnosticCode.InvalidDuration,
+                        "dockerfile-ast"
+                    ));
+                }
+            } else if (name !== "retries") {
+                diagnostics.push(Diagnostic.create(
+                    flag.getNameRange(),
+                    "Unknown flag: " + name,
+                    DiagnosticSeverity.Error,
+                    DiagnosticCode.UnknownFlag,
+                    "dockerfile-ast"
+                ));
+            }
+        }
+
+        const args = this.getArguments();
+        if (args.length > 1 && args[0].getValue().toUpperCase() === "NONE") {
+            diagnostics.push(Diagnostic.create(
+                Range.create(args[1].getRange().start, args[args.length - 1].getRange().end),
+                "HEALTHCHECK NONE takes no arguments",
+                DiagnosticSeverity.Error,
+                DiagnosticCode.NoneArguments,
+                "dockerfile-ast"
+            ));
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Checks the value of a flag that expects a duration.
+     * 
+     * @return a message that describes the problem with the flag's
+     *         value, or null if the value is valid
+     */
+    private validateDuration(flag: Flag): string | null {
+        const value = flag.getValue();
+        if (value === null) {
+            return "Missing a value on flag: " + flag.getName();
+        } else if (value === "") {
+            return null;
+        }
+        const duration = Healthcheck.parseDuration(value);
+        if (duration === null) {
+            return "Invalid duration: " + value;
+        } else if (duration < 0) {
+            return "Duration of --" + flag.getName() + " cannot be negative: " + value;
+        } else if (duration !== 0 && duration < 1e6) {
+            return "Duration of --" + flag.getName() + " cannot be less than 1ms: " + value;
+        }
+        return null;
+    }
+
+    /**
+     * Returns the --interval flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getIntervalFlag(): Flag | null {
+        return this.getLastFlag("interval");
+    }
+
+    /**
+     * Returns the time to wait between running the health check's
+     * command.
+     * 
+     * @return the interval in milliseconds, or null if this
+     *         instruction does not have an --interval flag with a
+     *         valid duration
+     */
+    public getInterval(): number | null {
+        return this.getDuration(this.getIntervalFlag());
+    }
+
+    /**
+     * Returns the --timeout flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getTimeoutFlag(): Flag | null {
+        return this.getLastFlag("timeout");
+    }
+
+    /**
+     * Returns how long the health check's command may run before the
+     * check is considered to have failed.
+     * 
+     * @return the timeout in milliseconds, or null if this instruction
+     *         does not have a --timeout flag with a valid duration
+     */
+    public getTimeout(): number | null {
+        return this.getDuration(this.getTimeoutFlag());
+    }
+
+    /**
+     * Returns the --start-period flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getStartPeriodFlag(): Flag | null {
+        return this.getLastFlag("start-period");
+    }
+
+    /**
+     * Returns how long the container is given to start up before
+     * failed health checks are counted.
+     * 
+     * @return the start period in milliseconds, or null if this
+     *         instruction does not have a --start-period flag with a
+     *         valid duration
+     */
+    public getStartPeriod(): number | null {
+        return this.getDuration(this.getStartPeriodFlag());
+    }
+
+    /**
+     * Returns the --start-interval flag of this instruction. If
+     * multiple flags have been declared, the last one will be
+     * returned.
+     */
+    public getStartIntervalFlag(): Flag | null {
+        return this.getLastFlag("start-interval");
+    }
+
+    /**
+     * Returns the time to wait between running the health check's
+     * command during the start period.
+     * 
+     * @return the start interval in milliseconds, or null if this
+     *         instruction does not have a --start-interval flag with
+     *         a valid duration
+     */
+    public getStartInterval(): number | null {
+        return this.getDuration(this.getStartIntervalFlag());
+    }
+
+    /**
+     * Returns the --retries flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getRetriesFlag(): Flag | null {
+        return this.getLastFlag("retries");
+    }
+
+    /**
+     * Returns the number of consecutive failures that are needed for
+     * the container to be considered unhealthy.
+     * 
+     * @return the number of retries, or null if this instruction does
+     *         not have a --retries flag with a non-negative integer
+     */
+    public getRetries(): number | null {
+        const flag = this.getRetriesFlag();
+        const value = flag === null ? null : flag.getValue();
+        return value !== null && /^\d+$/.test(value) ? parseInt(value) : null;
+    }
+
+    private getDuration(flag: Flag | null): number | null {
+        const value = flag === null ? null : flag.getValue();
+        const duration = value === null ? null : Healthcheck.parseDuration(value);
+        return duration === null ? null : duration / 1e6;
+    }
+
+    /**
+     * Parses a duration with the syntax of Go's time.ParseDuration
+     * function, such as 30s, 1m30s, or 1.5h.
+     * 
+     * @return the duration in nanoseconds, or null if the given value
+     *         is not a valid duration
+     */
+    private static parseDuration(value: string): number | null {
+        const sign = value.charAt(0) === '-' ? -1 : 1;
+        if (value.charAt(0) === '-' || value.charAt(0) === '+') {
+            value = value.substring(1);
+        }
+        if (value === "0") {
+            return 0;
+        }
+        const regex = /(\d+(?:\.\d*)?|\.\d+)(ns|us|\u00b5s|\u03bcs|ms|s|m|h)/g;
+        let duration = 0;
+        let consumed = 0;
+        let match = regex.exec(value);
+        while (match !== null && match.index === consumed) {
+            duration += parseFloat(match[1]) * Healthcheck.DURATION_UNITS[match[2]];
+            consumed += match[0].length;
+            match = regex.exec(value);
+        }
+        return consumed === 0 || consumed !== value.length ? null : sign * Math.round(duration);
+    }
+
+    /**
+     * Determines whether the command of this HEALTHCHECK CMD
+     * instruction has been written as a JSON array or as a plain
+     * string.
+     * 
+     * @return the form of the command, or null if this instruction
+     *         does not have a CMD subcommand that is followed by a
+     *         command
+     */
+    public getForm(): CommandForm | null {
+        const command = this.getCommand();
+        if (command === null) {
+            return null;
+        }
+        return this.parseExecForm(command) === null ? CommandForm.SHELL : CommandForm.EXEC;
+    }
+
+    /**
+     * Computes the arguments that the health check's command will be
+     * executed with inside the container. A command in exec form will
+     * be executed as is while a command in shell form will be passed
+     * to the shell as its last argument.
+     * 
+     * @param shell the shell to run a command in shell form with, if
+     *              unspecified, the active shell of the build stage
+     *              will be used
+     * @return the command's arguments, or an empty array if this
+     *         instruction does not have a CMD subcommand that is
+     *         followed by a command
+     */
+    public getArgv(shell?: string[]): string[] {
+        const command = this.getCommand();
+        if (command === null) {
+            return [];
+        }
+        const argv = this.parseExecForm(command);
+        if (argv !== null) {
+            return argv;
+        }
+        if (shell === undefined) {
+            shell = this.dockerfile.getShell(this.getRange().start.line);
+        }
+        return shell.concat(command);
+    }
+
+    /**
+     * Parses the command of this instruction into its pipelines and
+     * simple commands if it is in shell form.
+     * 
+     * @return the parsed shell command, or null if the command is in
+     *         exec form or if this instruction does not have a CMD
+     *         subcommand that is followed by a command
+     */
+    public getShellScript(): ShellScript | null {
+        if (this.getForm() !== CommandForm.SHELL) {
+            return null;
+        }
+        const args = this.getArguments();
+        const range = Range.create(args[1].getRange().start, this.getArgumentsRange().end);
+        return new ShellParser(this.document, this.escapeChar).parse(range);
+    }
+
+    /**
+     * Returns the text that follows the CMD subcommand with any
+     * escaped newlines removed.
+     */
+    private getCommand(): string | null {
+        const args = this.getArguments();
+        if (args.length < 2 || args[0].getValue().toUpperCase() !== "CMD") {
+            return null;
+        }
+        const content = this.getArgumentsContent();
+        return content.substring(args[0].getValue().length).trim();
+    }
+
+    private parseExecForm(command: string): string[] | null {
+        if (command.charAt(0) !== '[') {
+            return null;
+        }
+        try {
+            const parsed = JSON.parse(command);
+            if (Array.isArray(parsed) && parsed.every(item => typeof item === "string")) {
+                return parsed;
+            }
+        } catch (e) {
+            // not a valid JSON array so the command is in shell form
+        }
+        return null;
+    }
 }
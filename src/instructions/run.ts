@@ -0,0 +1,169 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { Dockerfile } from '../dockerfile';
+import { Flag } from '../flag';
+import { FlagOption } from '../flagOption';
+import { InstalledPackage } from '../installedPackage';
+import { JSONInstruction } from '../jsonInstruction';
+import { Mount } from '../mount';
+import { PackageExtractor } from '../packageExtractor';
+import { ShellScript } from '../shell/shellScript';
+
+export class Run extends JSONInstruction {
+
+    private mounts: Mount[] | undefined = undefined;
+
+    constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
+        super(document, range, dockerfile, escapeChar, instruction, instructionRange);
+    }
+
+    /**
+     * Returns the command that this instruction will execute during
+     * the build.
+     * 
+     * @param shell the shell to run a command in shell form with, if
+     *              unspecified, the active shell of the build stage
+     *              will be used
+     */
+    public getArgv(shell?: string[]): string[] {
+        return this.getCommandArgv(shell);
+    }
+
+    /**
+     * Parses the command of this instruction into its pipelines and
+     * simple commands if it is in shell form.
+     * 
+     * @return the parsed shell command, or null if the command is in
+     *         exec form or if there is no command
+     */
+    public getShellScript(): ShellScript | null {
+        return this.parseShellScript();
+    }
+
+    /**
+     * Returns the packages that the shell command of this instruction
+     * installs with apt-get, apk, yum, dnf, pip, npm, or gem. Variables
+     * in the names and versions of the packages will be expanded.
+     * Packages that are installed from local files or URLs will not
+     * be included.
+     */
+    public getInstalledPackages(): InstalledPackage[] {
+        return new PackageExtractor(this.dockerfile).extract(this);
+    }
+
+    public stopSearchingForFlags(argument: string): boolean {
+        return argument.indexOf("--") !== 0;
+    }
+
+    /**
+     * Returns the mounts that have been declared by this instruction's
+     * --mount flags in the order that they were declared.
+     */
+    public getMounts(): Mount[] {
+        if (this.mounts === undefined) {
+            this.mounts = [];
+            for (const flag of this.getFlags()) {
+                if (flag.getName() === "mount") {
+                    this.mounts.push(new Mount(flag, this.parseOptions(flag)));
+                }
+            }
+        }
+        return this.mounts;
+    }
+
+    /**
+     * Returns the --network flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getNetworkFlag(): Flag | null {
+        return this.getLastFlag("network");
+    }
+
+    /**
+     * Returns the networking mode that this instruction's command will
+     * be run with, such as default, none, or host.
+     * 
+     * @return the network's name, or null if this instruction does
+     *         not have a --network flag with a value
+     */
+    public getNetwork(): string | null {
+        const flag = this.getNetworkFlag();
+        return flag === null ? null : flag.getValue();
+    }
+
+    /**
+     * Returns the --security flag of this instruction. If multiple
+     * flags have been declared, the last one will be returned.
+     */
+    public getSecurityFlag(): Flag | null {
+        return this.getLastFlag("security");
+    }
+
+    /**
+     * Returns the security mode that this instruction's command will
+     * be run with, such as sandbox or insecure.
+     * 
+     * @return the security mode, or null if this instruction does not
+     *         have a --security flag with a value
+     */
+    public getSecurity(): string | null {
+        const flag = this.getSecurityFlag();
+        return flag === null ? null : flag.getValue();
+    }
+
+    /**
+     * Splits the value of a flag into its comma-separated key/value
+     * pairs. Commas inside double quotes do not separate options and
+     * quotes surrounding an option or its value will be removed.
+     */
+    private parseOptions(flag: Flag): FlagOption[] {
+        const options = [];
+        const valueRange = flag.getValueRange();
+        if (valueRange === null) {
+            return options;
+        }
+        const offset = this.document.offsetAt(valueRange.start);
+        const content = this.getRangeContent(valueRange);
+        let start = 0;
+        let quoted = false;
+        for (let i = 0; i <= content.length; i++) {
+            const char = content.charAt(i);
+            if (char === '"') {
+                quoted = !quoted;
+            } else if (i === content.length || (char === ',' && !quoted)) {
+                if (start !== i) {
+                    options.push(this.createOption(offset, content.substring(start, i), start));
+                }
+                start = i + 1;
+            }
+        }
+        return options;
+    }
+
+    private createOption(offset: number, option: string, start: number): FlagOption {
+        if (option.length > 1 && option.charAt(0) === '"' && option.charAt(option.length - 1) === '"') {
+            // the entire option has been quoted
+            option = option.substring(1, option.length - 1);
+            start++;
+        }
+        const range = Range.create(this.document.positionAt(offset + start), this.document.positionAt(offset + start + option.length));
+        const index = option.indexOf('=');
+        if (index === -1) {
+            return new FlagOption(range, option, range, null, null);
+        }
+        let value = option.substring(index + 1);
+        if (value.length > 1 && value.charAt(0) === '"' && value.charAt(value.length - 1) === '"') {
+            value = value.substring(1, value.length - 1);
+        }
+        return new FlagOption(
+            range,
+            option.substring(0, index),
+            Range.create(range.start, this.document.positionAt(offset + start + index)),
+            value,
+            Range.create(this.document.positionAt(offset + start + index + 1), range.end)
+        );
+    }
+}
@@ -3,6 +3,7 @@
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
 import { TextDocument, Range } from 'vscode-languageserver-types';
+import { Argument } from '../argument';
 import { Dockerfile } from '../dockerfile';
 import { Instruction } from '../instruction';
 
@@ -11,4 +12,144 @@ export class User extends Instruction {
     constructor(document: TextDocument, range: Range, dockerfile: Dockerfile, escapeChar: string, instruction: string, instructionRange: Range) {
         super(document, range, dockerfile, escapeChar, instruction, instructionRange);
     }
+
+    /**
+     * Returns the user that subsequent instructions and the container
+     * will run as. This is the part of the instruction's argument
+     * before its colon with any variables expanded. Thus, for
+     * USER node:staff, the user would be node.
+     *
+     * @return the name or ID of the user, or null if this instruction
+     *         has no arguments
+     */
+    public getUser(): string | null {
+        const arg = this.getUserArgument();
+        if (arg === null) {
+            return null;
+        }
+        const value = arg.getValue();
+        const index = value.indexOf(':');
+        return index === -1 ? value : value.substring(0, index);
+    }
+
+    /**
+     * Returns the range of the user in the document. If the colon that
+     * separates the user from the group comes from a variable, the
+     * range will cover the entire argument.
+     *
+     * @return the user's range, or null if this instruction has no
+     *         arguments
+     */
+    public getUserRange(): Range | null {
+        const arg = this.getUserArgument();
+        if (arg === null) {
+            return null;
+        }
+        const index = this.getRawSeparatorIndex(arg);
+        if (index === -1) {
+            return arg.getRange();
+        }
+        return Range.create(arg.getRange().start, this.document.positionAt(this.document.offsetAt(arg.getRange().start) + index));
+    }
+
+    /**
+     * Returns the group that subsequent instructions and the container
+     * will run as. This is the part of the instruction's argument
+     * after its colon with any variables expanded.
+     *
+     * @return the name or ID of the group, or null if a group has not
+     *         been specified
+     */
+    public getGroup(): string | null {
+        const arg = this.getUserArgument();
+        const value = arg === null ? null : arg.getValue();
+        const index = value === null ? -1 : value.indexOf(':');
+        return index === -1 ? null : value.substring(index + 1);
+    }
+
+    /**
+     * Returns the range of the group in the document. This excludes
+     * the : character.
+     *
+     * @return the group's range, or null if the group was not
+     *         declared in the document directly
+     */
+    public getGroupRange(): Range | null {
+        const arg = this.getUserArgument();
+        const index = arg === null ? -1 : this.getRawSeparatorIndex(arg);
+        if (index === -1) {
+            return null;
+        }
+        return Range.create(this.document.positionAt(this.document.offsetAt(arg.getRange().start) + index + 1), arg.getRange().end);
+    }
+
+    /**
+     * Returns the user as a numeric ID. Thus, for USER 1000:1000, the
+     * UID would be 1000.
+     *
+     * @return the ID of the user, or null if the user is not a number
+     */
+    public getUid(): number | null {
+        return User.parseId(this.getUser());
+    }
+
+    /**
+     * Returns the group as a numeric ID.
+     *
+     * @return the ID of the group, or null if a group has not been
+     *         specified or if it is not a number
+     */
+    public getGid(): number | null {
+        return User.parseId(this.getGroup());
+    }
+
+    /**
+     * Returns whether this instruction switches to the root user
+     * either by its name or by its UID of 0.
+     */
+    public isRoot(): boolean {
+        const user = this.getUser();
+        return user !== null && User.isRootUser(user);
+    }
+
+    /**
+     * Determines whether the given user refers to the root user. The
+     * user may be followed by a group such as root:staff.
+     *
+     * @param user the name or ID of a user
+     * @return true if the user is the root user, false otherwise
+     */
+    public static isRootUser(user: string): boolean {
+        const index = user.indexOf(':');
+        const name = index === -1 ? user : user.substring(0, index);
+        return name === "root" || User.parseId(name) === 0;
+    }
+
+    private getUserArgument(): Argument | null {
+        const args = this.getExpandedArguments();
+        return args.length === 0 ? null : args[0];
+    }
+
+    /**
+     * Returns the index of the colon that separates the user from the
+     * group in the argument's raw text. Colons within variables such
+     * as ${USER:-node} are ignored.
+     *
+     * @return the colon's index relative to the start of the argument,
+     *         or -1 if the argument has no such colon
+     */
+    private getRawSeparatorIndex(arg: Argument): number {
+        const rawStart = this.document.offsetAt(arg.getRange().start);
+        const raw = this.getRangeContent(arg.getRange());
+        const variables = this.getVariables();
+        let rawIndex = raw.indexOf(':');
+        while (rawIndex !== -1 && this.isInVariable(variables, rawStart + rawIndex)) {
+            rawIndex = raw.indexOf(':', rawIndex + 1);
+        }
+        return rawIndex;
+    }
+
+    private static parseId(id: string | null): number | null {
+        return id === null || id.match(/^[0-9]+$/) === null ? null : parseInt(id, 10);
+    }
 }
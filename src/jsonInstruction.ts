@@ -2,14 +2,22 @@
  * Copyright (c) Remy Suen. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import { TextDocument, Range } from 'vscode-languageserver-types';
+import { TextDocument, Range, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
 import { Dockerfile } from './dockerfile';
 import { Argument } from './argument';
 import { JSONArgument } from './jsonArgument';
 import { ModifiableInstruction } from './modifiableInstruction';
+import { ShellParser } from './shell/shellParser';
+import { ShellScript } from './shell/shellScript';
+import { CommandForm, DiagnosticCode } from './main';
 
 export class JSONInstruction extends ModifiableInstruction {
 
+    /**
+     * The shells that a heredoc's script may declare with a shebang.
+     */
+    private static readonly SHELLS = [ "sh", "bash", "ash", "dash", "zsh" ];
+
     private readonly openingBracket: Argument | null = null;
     private readonly closingBracket: Argument | null = null;
     private readonly jsonStrings: JSONArgument[] = [];
@@ -103,6 +111,9 @@ export class JSONInstruction extends ModifiableInstruction {
                     break;
                 case ' ':
                 case '\t':
+                    if (quoted) {
+                        escapedArg = escapedArg + char;
+                    }
                     break;
                 case '\\':
                     if (quoted) {
@@ -165,6 +176,32 @@ export class JSONInstruction extends ModifiableInstruction {
         }
     }
 
+    /**
+     * Returns the problems of this instruction. In addition to the
+     * problems found by Instruction, a warning will be included if
+     * the arguments look like a JSON array that has not been closed
+     * or if its strings have been quoted with single quotes. Such
+     * arguments will be treated as a shell command instead.
+     */
+    public getDiagnostics(): Diagnostic[] {
+        const diagnostics = super.getDiagnostics();
+        if (this.openingBracket !== null && this.closingBracket === null) {
+            const content = this.getRawArgumentsContent();
+            const index = content.indexOf('[');
+            const next = content.substring(index + 1).trim().charAt(0);
+            if (content.indexOf(']', index) === -1 || next === '\'') {
+                diagnostics.push(Diagnostic.create(
+                    this.getArgumentsRange(),
+                    "Malformed JSON array, the arguments will be treated as a shell command",
+                    DiagnosticSeverity.Warning,
+                    DiagnosticCode.MalformedJSON,
+                    "dockerfile-ast"
+                ));
+            }
+        }
+        return diagnostics;
+    }
+
     protected stopSearchingForFlags(_value: string): boolean {
         return true;
     }
@@ -180,4 +217,72 @@ export class JSONInstruction extends ModifiableInstruction {
     public getClosingBracket(): Argument | null {
         return this.closingBracket;
     }
+
+    /**
+     * Determines whether the arguments of this instruction have been
+     * written as a JSON array or as a plain string. Arguments that
+     * look like a JSON array but are malformed are in shell form.
+     */
+    public getForm(): CommandForm {
+        return this.closingBracket === null ? CommandForm.SHELL : CommandForm.EXEC;
+    }
+
+    /**
+     * Computes the arguments that the command of this instruction
+     * will be executed with. A command in exec form will be executed
+     * as is while a command in shell form will be passed to the shell
+     * as its last argument.
+     * 
+     * @param shell the shell to run a command in shell form with, if
+     *              unspecified, the shell that is active at this
+     *              instruction will be used
+     * @return the command's arguments, or an empty array if there is
+     *         no command
+     */
+    protected getCommandArgv(shell?: string[]): string[] {
+        if (this.getForm() === CommandForm.EXEC) {
+            return this.jsonStrings.map(arg => arg.getJSONValue());
+        }
+        const content = this.getArgumentsContent();
+        if (content === null) {
+            return [];
+        }
+        if (shell === undefined) {
+            shell = this.dockerfile.getShell(this.getRange().start.line);
+        }
+        return shell.concat(content);
+    }
+
+    /**
+     * Parses the command of this instruction if it is in shell form.
+     * If the command is only a heredoc such as RUN <<EOF, the body of
+     * the heredoc is the script that will be run and it will be parsed
+     * instead.
+     * 
+     * @return the parsed shell command, or null if the command is in
+     *         exec form or if there is no command, or if the heredoc
+     *         is a script for an interpreter other than a shell
+     */
+    protected parseShellScript(): ShellScript | null {
+        const range = this.getArgumentsRange();
+        if (this.getForm() === CommandForm.EXEC || range === null) {
+            return null;
+        }
+        const args = this.getArguments();
+        const heredocs = this.getHeredocs();
+        if (args.length === 1 && heredocs.length > 0 && this.document.offsetAt(args[0].getRange().start) === this.document.offsetAt(heredocs[0].getRange().start)) {
+            const body = heredocs[0].isStripTabs() ? heredocs[0].getBody().replace(/^\t+/, "") : heredocs[0].getBody();
+            const shebang = /^#!\s*(\S+)(?:[ \t]+(\S+))?/.exec(body);
+            if (shebang !== null) {
+                const interpreter = shebang[1].substring(shebang[1].lastIndexOf('/') + 1);
+                const program = interpreter === "env" && shebang[2] ? shebang[2] : interpreter;
+                if (JSONInstruction.SHELLS.indexOf(program) === -1) {
+                    return null;
+                }
+            }
+            // the Dockerfile's escape character does not apply to the body
+            return new ShellParser(this.document, '\\').parse(heredocs[0].getBodyRange());
+        }
+        return new ShellParser(this.document, this.escapeChar).parse(range);
+    }
 }
@@ -0,0 +1,67 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { LinterConfiguration, DiagnosticCode } from '../main';
+import { Dockerfile } from '../dockerfile';
+import { RuleRegistry } from './ruleRegistry';
+import { Suppression } from './suppression';
+
+export class Linter {
+
+    private readonly configuration: LinterConfiguration;
+    private readonly registry: RuleRegistry;
+
+    constructor(configuration?: LinterConfiguration) {
+        this.configuration = configuration ? configuration : {};
+        this.registry = this.configuration.registry ? this.configuration.registry : RuleRegistry.createDefault();
+    }
+
+    public lint(dockerfile: Dockerfile): Diagnostic[] {
+        const rules = this.configuration.rules ? this.configuration.rules : {};
+        const suppressions = Suppression.parse(dockerfile);
+        const diagnostics: Diagnostic[] = [];
+        const disabled: string[] = [];
+        for (const rule of this.registry.getRules()) {
+            const id = rule.getId();
+            const severity = rules[id] === undefined ? rule.getDefaultSeverity() : rules[id];
+            if (severity === "off") {
+                disabled.push(id);
+                continue;
+            }
+            for (const problem of rule.check(dockerfile)) {
+                const diagnostic = Diagnostic.create(problem.range, problem.message, severity, id, "dockerfile-ast");
+                let suppressed = false;
+                for (const suppression of suppressions) {
+                    if (suppression.suppresses(diagnostic)) {
+                        suppressed = true;
+                    }
+                }
+                if (!suppressed) {
+                    diagnostics.push(diagnostic);
+                }
+            }
+        }
+
+        const unused = rules[DiagnosticCode.UnusedSuppression] === undefined ? DiagnosticSeverity.Warning : rules[DiagnosticCode.UnusedSuppression];
+        if (unused !== "off") {
+            for (const suppression of suppressions) {
+                for (const rule of suppression.getRules()) {
+                    // rules that were not run cannot have matched anything
+                    if (!rule.used && disabled.indexOf(rule.id) === -1) {
+                        diagnostics.push(Diagnostic.create(rule.range, "Suppression for \"" + rule.id + "\" did not match any problem", unused, DiagnosticCode.UnusedSuppression, "dockerfile-ast"));
+                    }
+                }
+            }
+        }
+        return diagnostics.sort((a, b) => {
+            if (a.range.start.line === b.range.start.line) {
+                return a.range.start.character - b.range.start.character;
+            }
+            return a.range.start.line - b.range.start.line;
+        });
+    }
+}
@@ -0,0 +1,67 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Rule } from '../main';
+import { DeprecatedMaintainer } from './rules/deprecatedMaintainer';
+import { ExecForm } from './rules/execForm';
+import { LatestTag } from './rules/latestTag';
+import { MultipleCmd } from './rules/multipleCmd';
+import { RelativeWorkdir } from './rules/relativeWorkdir';
+
+export class RuleRegistry {
+
+    private readonly rules: Rule[] = [];
+
+    /**
+     * Creates a registry that contains all of the built-in rules.
+     */
+    public static createDefault(): RuleRegistry {
+        const registry = new RuleRegistry();
+        registry.register(new DeprecatedMaintainer());
+        registry.register(new ExecForm());
+        registry.register(new LatestTag());
+        registry.register(new MultipleCmd());
+        registry.register(new RelativeWorkdir());
+        return registry;
+    }
+
+    /**
+     * Adds a rule to this registry. If a rule with the same identifier
+     * has already been registered, it will be replaced.
+     */
+    public register(rule: Rule): void {
+        this.unregister(rule.getId());
+        this.rules.push(rule);
+    }
+
+    /**
+     * Removes the rule with the given identifier from this registry.
+     * 
+     * @return true if a rule was removed, false otherwise
+     */
+    public unregister(id: string): boolean {
+        for (let i = 0; i < this.rules.length; i++) {
+            if (this.rules[i].getId() === id) {
+                this.rules.splice(i, 1);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public getRule(id: string): Rule | null {
+        for (const rule of this.rules) {
+            if (rule.getId() === id) {
+                return rule;
+            }
+        }
+        return null;
+    }
+
+    public getRules(): Rule[] {
+        return this.rules;
+    }
+}
@@ -0,0 +1,37 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Dockerfile, Keyword, Rule } from '../../main';
+
+/**
+ * Reports MAINTAINER instructions as they have been deprecated in
+ * favour of LABEL instructions.
+ */
+export class DeprecatedMaintainer implements Rule {
+
+    public getId(): string {
+        return "deprecated-maintainer";
+    }
+
+    public getDescription(): string {
+        return "MAINTAINER is deprecated, use a LABEL instead";
+    }
+
+    public getDefaultSeverity(): DiagnosticSeverity {
+        return DiagnosticSeverity.Warning;
+    }
+
+    public check(dockerfile: Dockerfile): Diagnostic[] {
+        const diagnostics = [];
+        for (const instruction of dockerfile.getInstructions()) {
+            if (instruction.getKeyword() === Keyword.MAINTAINER) {
+                diagnostics.push(Diagnostic.create(instruction.getInstructionRange(), "MAINTAINER is deprecated, use a LABEL instead"));
+            }
+        }
+        return diagnostics;
+    }
+}
@@ -0,0 +1,45 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Dockerfile, Rule } from '../../main';
+import { JSONInstruction } from '../../jsonInstruction';
+import { Cmd } from '../../instructions/cmd';
+import { Entrypoint } from '../../instructions/entrypoint';
+
+/**
+ * Reports CMD and ENTRYPOINT instructions that are not written as a
+ * JSON array. Commands in shell form are run by /bin/sh -c and will
+ * not receive signals such as SIGTERM.
+ */
+export class ExecForm implements Rule {
+
+    public getId(): string {
+        return "exec-form";
+    }
+
+    public getDescription(): string {
+        return "CMD and ENTRYPOINT should use the JSON exec form";
+    }
+
+    public getDefaultSeverity(): DiagnosticSeverity {
+        return DiagnosticSeverity.Warning;
+    }
+
+    public check(dockerfile: Dockerfile): Diagnostic[] {
+        const diagnostics = [];
+        for (const instruction of dockerfile.getInstructions()) {
+            if (instruction instanceof Cmd || instruction instanceof Entrypoint) {
+                const jsonInstruction = instruction as JSONInstruction;
+                const range = jsonInstruction.getArgumentsRange();
+                if (range !== null && (jsonInstruction.getOpeningBracket() === null || jsonInstruction.getClosingBracket() === null)) {
+                    diagnostics.push(Diagnostic.create(range, instruction.getKeyword() + " should use the JSON exec form"));
+                }
+            }
+        }
+        return diagnostics;
+    }
+}
@@ -0,0 +1,50 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Dockerfile, Rule } from '../../main';
+
+/**
+ * Reports FROM instructions whose image uses the latest tag, either
+ * explicitly or by not specifying a tag or digest at all. FROM
+ * instructions that refer to the scratch image, to an earlier build
+ * stage, or to an image with variables are ignored.
+ */
+export class LatestTag implements Rule {
+
+    public getId(): string {
+        return "latest-tag";
+    }
+
+    public getDescription(): string {
+        return "FROM should pin its image to a tag other than latest";
+    }
+
+    public getDefaultSeverity(): DiagnosticSeverity {
+        return DiagnosticSeverity.Warning;
+    }
+
+    public check(dockerfile: Dockerfile): Diagnostic[] {
+        const diagnostics = [];
+        const stages: string[] = [];
+        for (const from of dockerfile.getFROMs()) {
+            const image = from.getImage();
+            const stage = from.getBuildStage();
+            if (image !== null && image.indexOf('$') === -1 && image !== "scratch" && stages.indexOf(image.toLowerCase()) === -1) {
+                const tag = from.getImageTag();
+                if (tag === "latest") {
+                    diagnostics.push(Diagnostic.create(from.getImageTagRange(), "Pin the image to a tag other than latest"));
+                } else if (tag === null && from.getImageDigest() === null) {
+                    diagnostics.push(Diagnostic.create(from.getImageRange(), "No tag has been specified so the latest tag will be used"));
+                }
+            }
+            if (stage !== null) {
+                stages.push(stage.toLowerCase());
+            }
+        }
+        return diagnostics;
+    }
+}
@@ -0,0 +1,39 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Dockerfile, Rule } from '../../main';
+
+/**
+ * Reports CMD instructions in a build stage that are overridden by a
+ * later CMD instruction in the same build stage.
+ */
+export class MultipleCmd implements Rule {
+
+    public getId(): string {
+        return "multiple-cmd";
+    }
+
+    public getDescription(): string {
+        return "Only the last CMD of a build stage will take effect";
+    }
+
+    public getDefaultSeverity(): DiagnosticSeverity {
+        return DiagnosticSeverity.Warning;
+    }
+
+    public check(dockerfile: Dockerfile): Diagnostic[] {
+        const diagnostics = [];
+        for (const from of dockerfile.getFROMs()) {
+            const stage = dockerfile.getContainingImage(from.getRange().start);
+            const cmds = stage === null ? [] : stage.getCMDs();
+            for (let i = 0; i < cmds.length - 1; i++) {
+                diagnostics.push(Diagnostic.create(cmds[i].getInstructionRange(), "This CMD is overridden by a later CMD in the same build stage"));
+            }
+        }
+        return diagnostics;
+    }
+}
@@ -0,0 +1,48 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Dockerfile, Keyword, Rule } from '../../main';
+
+/**
+ * Reports WORKDIR instructions with a relative path. The path that a
+ * relative WORKDIR resolves to depends on the WORKDIR of the base
+ * image. Paths that still start with a variable after expansion are
+ * ignored.
+ */
+export class RelativeWorkdir implements Rule {
+
+    public getId(): string {
+        return "relative-workdir";
+    }
+
+    public getDescription(): string {
+        return "WORKDIR should use an absolute path";
+    }
+
+    public getDefaultSeverity(): DiagnosticSeverity {
+        return DiagnosticSeverity.Warning;
+    }
+
+    public check(dockerfile: Dockerfile): Diagnostic[] {
+        const diagnostics = [];
+        for (const instruction of dockerfile.getInstructions()) {
+            if (instruction.getKeyword() !== Keyword.WORKDIR) {
+                continue;
+            }
+            const args = instruction.getExpandedArguments();
+            if (args.length === 0) {
+                continue;
+            }
+            const path = args[0].getValue();
+            // allow Windows paths such as C:\ and C:/
+            if (path.charAt(0) !== '/' && path.charAt(0) !== '$' && path.match(/^[a-zA-Z]:[\\/]/) === null) {
+                diagnostics.push(Diagnostic.create(instruction.getArgumentsRange(), "WORKDIR should use an absolute path"));
+            }
+        }
+        return diagnostics;
+    }
+}
@@ -0,0 +1,141 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Diagnostic, Position, Range, TextDocument } from 'vscode-languageserver-types';
+import { Comment } from '../comment';
+import { Dockerfile } from '../dockerfile';
+import { Util } from '../util';
+
+/**
+ * A rule that has been listed in a suppression comment.
+ */
+export interface SuppressedRule {
+
+    id: string;
+
+    range: Range;
+
+    /**
+     * Whether a diagnostic has been suppressed by this entry.
+     */
+    used: boolean;
+}
+
+/**
+ * A comment that suppresses the diagnostics of the rules that it
+ * lists. A suppression is declared with one of the following forms:
+ *
+ * # dockerfile-ast-ignore next-line rule-a,rule-b
+ * # dockerfile-ast-ignore-file rule-c
+ */
+export class Suppression {
+
+    private readonly comment: Comment;
+    private readonly range: Range | null;
+    private readonly rules: SuppressedRule[];
+
+    /**
+     * @param comment the comment that declared this suppression
+     * @param range the range that this suppression applies to, or
+     *              null if it applies to the entire file
+     * @param rules the rules that should be suppressed
+     */
+    constructor(comment: Comment, range: Range | null, rules: SuppressedRule[]) {
+        this.comment = comment;
+        this.range = range;
+        this.rules = rules;
+    }
+
+    /**
+     * Finds the suppressions that have been declared in the given
+     * Dockerfile's comments.
+     */
+    public static parse(dockerfile: Dockerfile): Suppression[] {
+        const instructions = dockerfile.getInstructions();
+        const suppressions: Suppression[] = [];
+        for (const comment of dockerfile.getComments()) {
+            const content = comment.getContent();
+            const match = /^dockerfile-ast-ignore(?:-file|\s+next-line)\s+(\S.*)$/.exec(content);
+            if (match === null) {
+                continue;
+            }
+
+            const contentStart = comment.getContentRange().start;
+            const rules: SuppressedRule[] = [];
+            let offset = content.length - match[1].length;
+            for (const id of match[1].split(",")) {
+                const trimmed = id.trim();
+                if (trimmed.length > 0) {
+                    const start = contentStart.character + offset + id.indexOf(trimmed);
+                    rules.push({
+                        id: trimmed,
+                        range: Range.create(contentStart.line, start, contentStart.line, start + trimmed.length),
+                        used: false
+                    });
+                }
+                offset += id.length + 1;
+            }
+
+            if (content.indexOf("dockerfile-ast-ignore-file") === 0) {
+                suppressions.push(new Suppression(comment, null, rules));
+            } else {
+                const line = comment.getRange().start.line + 1;
+                // cover all of the lines of the instruction that follows the comment
+                // or just the next line if there is no such instruction
+                let range: Range | null = null;
+                for (const instruction of instructions) {
+                    if (instruction.getRange().start.line === line) {
+                        range = instruction.getRange();
+                        break;
+                    }
+                }
+                suppressions.push(new Suppression(comment, range === null ? Suppression.getLineRange(dockerfile.getDocument(), line) : range, rules));
+            }
+        }
+        return suppressions;
+    }
+
+    public getComment(): Comment {
+        return this.comment;
+    }
+
+    public getRules(): SuppressedRule[] {
+        return this.rules;
+    }
+
+    /**
+     * Determines whether the given diagnostic should be suppressed.
+     * Any rule entries that match the diagnostic will be marked as
+     * used.
+     *
+     * @param diagnostic the diagnostic to check
+     * @return true if the diagnostic should not be reported, false
+     *         otherwise
+     */
+    public suppresses(diagnostic: Diagnostic): boolean {
+        if (this.range !== null && !Util.isInsideRange(diagnostic.range.start, this.range)) {
+            return false;
+        }
+        let suppressed = false;
+        for (const rule of this.rules) {
+            if (rule.id === diagnostic.code) {
+                rule.used = true;
+                suppressed = true;
+            }
+        }
+        return suppressed;
+    }
+
+    private static getLineRange(document: TextDocument, line: number): Range {
+        const text = document.getText();
+        const start = document.offsetAt(Position.create(line, 0));
+        let end = start;
+        while (end < text.length && !Util.isNewline(text.charAt(end))) {
+            end++;
+        }
+        return Range.create(line, 0, line, end - start);
+    }
+}
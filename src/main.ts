@@ -2,13 +2,22 @@
  * Copyright (c) Remy Suen. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import { Position, Range } from 'vscode-languageserver-types';
+import { Position, Range, Diagnostic, DiagnosticSeverity, TextDocumentContentChangeEvent, TextEdit } from 'vscode-languageserver-types';
 
 export { Argument } from './argument';
 export { JSONArgument } from './jsonArgument';
+import { BuildStageGraph } from './buildStageGraph';
+export { BuildStageGraph };
+export { BuildStageEdge } from './buildStageEdge';
+export { BuildStageNode } from './buildStageNode';
 import { Comment } from './comment';
 export { Comment };
+export { CopyInstruction } from './copyInstruction';
+export { CopyResolution } from './copyResolution';
+export { CopySource } from './copySource';
 import * as dockerfile from './dockerfile';
+import { Dockerignore } from './dockerignore';
+export { Dockerignore };
 
 export interface ImageTemplate {
 
@@ -26,12 +35,34 @@ export interface ImageTemplate {
 
     getENVs(): Env[];
 
+    getEXPOSEs(): Expose[];
+
+    /**
+     * Returns the ports that this image will expose as declared by its
+     * EXPOSE instructions. Port ranges are expanded into individual
+     * ports and every port will include its protocol, such as 80/tcp.
+     * 
+     * @return the unique ports that will be exposed
+     */
+    getExposedPorts(): string[];
+
     getFROMs(): From[];
 
     getHEALTHCHECKs(): Healthcheck[];
 
+    /**
+     * Returns the packages that the RUN instructions of this image
+     * install with apt-get, apk, yum, dnf, pip, npm, or gem.
+     * 
+     * @return the installed packages in the order that they appear
+     *         in the Dockerfile
+     */
+    getInstalledPackages(): InstalledPackage[];
+
     getOnbuildTriggers(): Instruction[];
 
+    getRUNs(): Run[];
+
     contains(position: Position): boolean;
 
     /**
@@ -49,12 +80,208 @@ export interface ImageTemplate {
     getRange(): Range | null;
 }
 
+/**
+ * The health check that a container will run, as declared by a
+ * HEALTHCHECK instruction. Durations are in nanoseconds.
+ */
+export interface HealthConfig {
+
+    /**
+     * The command to run. The first item will be NONE if health
+     * checks have been disabled, CMD if the remaining items should be
+     * executed directly, or CMD-SHELL if the second item should be
+     * run with the system's default shell.
+     */
+    Test: string[];
+
+    Interval?: number;
+
+    Timeout?: number;
+
+    StartPeriod?: number;
+
+    StartInterval?: number;
+
+    Retries?: number;
+}
+
+/**
+ * The configuration that an image would be created with, shaped like
+ * the config section of an image's configuration in the OCI image
+ * specification. Shell, Healthcheck, and OnBuild are Docker
+ * extensions to the specification. A property will only be set if an
+ * instruction has set it.
+ */
+export interface ImageConfig {
+
+    User?: string;
+
+    /**
+     * The ports to expose, such as 80/tcp, mapped to empty objects.
+     */
+    ExposedPorts?: { [port: string]: {} };
+
+    /**
+     * The environment variables of the image in the form of NAME=value.
+     */
+    Env?: string[];
+
+    Entrypoint?: string[];
+
+    Cmd?: string[];
+
+    /**
+     * The paths of the volumes to create, mapped to empty objects.
+     */
+    Volumes?: { [path: string]: {} };
+
+    WorkingDir?: string;
+
+    Labels?: { [name: string]: string };
+
+    StopSignal?: string;
+
+    Shell?: string[];
+
+    Healthcheck?: HealthConfig;
+
+    /**
+     * The triggers that will be run when another image is built on
+     * top of this image, such as RUN echo hello.
+     */
+    OnBuild?: string[];
+}
+
+/**
+ * A build stage of a Dockerfile. A build stage starts with a FROM
+ * instruction and includes every instruction up until the next FROM
+ * instruction.
+ */
+export interface BuildStage extends ImageTemplate {
+
+    /**
+     * Returns the FROM instruction that starts this build stage.
+     */
+    getFrom(): From;
+
+    /**
+     * Returns the name that has been assigned to this build stage
+     * with FROM <image> AS <name>.
+     *
+     * @return this build stage's name, or null if it has not been
+     *         given one
+     */
+    getName(): string | null;
+
+    /**
+     * Returns the zero-based index of this build stage in the
+     * Dockerfile.
+     */
+    getIndex(): number;
+
+    /**
+     * Returns the build stage that this build stage uses as its base
+     * image. Only build stages that come before this build stage can
+     * be used as a base image.
+     *
+     * @return the earlier build stage that is named by this build
+     *         stage's FROM instruction, or null if the FROM
+     *         instruction does not refer to a build stage
+     */
+    getParent(): BuildStage | null;
+
+    /**
+     * Evaluates the instructions of this build stage to determine the
+     * configuration of the image that it would produce. If this build
+     * stage is based on an earlier build stage, it will inherit that
+     * build stage's configuration and run its ONBUILD triggers. The
+     * configuration of an external base image cannot be known so it
+     * will not be included.
+     *
+     * @return the configuration that the image would be created with
+     */
+    getImageConfig(): ImageConfig;
+
+    /**
+     * Returns the user that the instructions of this build stage will
+     * run as at the given line. The user is set by the last USER
+     * instruction before the line and may include a group such as
+     * node:staff. USER instructions of a parent build stage and its
+     * ONBUILD triggers are taken into account.
+     *
+     * @param line if specified, only the instructions that start
+     *             before this line will be considered, otherwise the
+     *             user of the build stage's final image is returned
+     * @return the user with any variables expanded, or null if no
+     *         USER instruction applies and the user of the base image
+     *         will be used which is root unless the base image has
+     *         changed it
+     */
+    getEffectiveUser(line?: number): string | null;
+
+    /**
+     * Returns the command that a container created from the image of
+     * this build stage will run. This is the image's ENTRYPOINT
+     * followed by its CMD. If the ENTRYPOINT is in shell form, the
+     * arguments of the CMD will be passed to the shell after the
+     * command string and will thus be ignored by the command.
+     *
+     * @return the arguments of the container's command, or an empty
+     *         array if the image has neither an ENTRYPOINT nor a CMD
+     */
+    getContainerArgv(): string[];
+
+    /**
+     * Returns the comments that are within this build stage. Comments
+     * that come after the last instruction of the build stage are not
+     * included as they may belong to the next build stage instead.
+     */
+    getComments(): Comment[];
+}
+
 export interface Dockerfile extends ImageTemplate {
 
+    /**
+     * Returns the build arguments that were used to parse this
+     * Dockerfile.
+     */
+    getBuildArgs(): { [name: string]: string };
+
+    /**
+     * Returns the platform that was used to parse this Dockerfile.
+     * 
+     * @return the target platform of the build, or null if one was
+     *         not specified
+     */
+    getPlatform(): string | null;
+
     getEscapeCharacter(): string;
 
     getInitialARGs(): Arg[];
 
+    /**
+     * Returns the instructions that come before the first FROM
+     * instruction of this Dockerfile.
+     */
+    getInitialInstructions(): ImageTemplate;
+
+    /**
+     * Returns the build stages of this Dockerfile in the order that
+     * they were declared.
+     */
+    getBuildStages(): BuildStage[];
+
+    /**
+     * Finds the build stage with the given name or index. Names are
+     * matched case-insensitively.
+     *
+     * @param nameOrIndex the name or zero-based index of the build
+     *                    stage to find
+     * @return the matching build stage, or null if this Dockerfile
+     *         does not have such a build stage
+     */
+    getBuildStage(nameOrIndex: string | number): BuildStage | null;
+
     getComments(): Comment[];
 
     /**
@@ -86,17 +313,228 @@ export interface Dockerfile extends ImageTemplate {
      */
     resolveVariable(variable: string, line: number): string | null | undefined;
 
+    /**
+     * Returns the problems that were found while parsing the
+     * Dockerfile, such as an invalid escape parser directive or a
+     * variable that is missing its closing } character.
+     * 
+     * @return the problems in the Dockerfile sorted by the order that
+     *         they appear in the document
+     */
+    getDiagnostics(): Diagnostic[];
+
+    /**
+     * Creates a graph of the build stages in this Dockerfile and the
+     * references that they make to one another.
+     */
+    getBuildStageGraph(): BuildStageGraph;
+
+}
+
+/**
+ * Describes the build that a Dockerfile will be parsed for.
+ */
+export interface ParserOptions {
+
+    /**
+     * The values of the build arguments as they would be passed to
+     * the builder with --build-arg. A build argument will only
+     * override the value of a variable that has been declared by an
+     * ARG instruction in the build stage that uses it. The proxy
+     * variables in DefaultVariables may be set without having been
+     * declared.
+     */
+    buildArgs?: { [name: string]: string };
+
+    /**
+     * The platform that the image will be built for in the
+     * os/arch[/variant] format, such as linux/arm64/v8. This is used
+     * for resolving the TARGET* variables of PlatformVariables.
+     */
+    platform?: string;
+
+    /**
+     * The platform of the builder in the os/arch[/variant] format.
+     * This is used for resolving the BUILD* variables of
+     * PlatformVariables. Defaults to the platform option.
+     */
+    buildPlatform?: string;
+
+    /**
+     * The name of the build stage that is being built. This is used
+     * for resolving the TARGETSTAGE variable.
+     */
+    target?: string;
+}
+
+/**
+ * The files of a build context that the sources of COPY and ADD
+ * instructions will be resolved against. A directory on disk can be
+ * resolved against by listing the paths of the files within it.
+ */
+export interface BuildContext {
+
+    /**
+     * The slash-separated paths of the files in the build context
+     * relative to its root, such as src/main.ts. Directories are
+     * implied by the files that they contain. An empty directory can
+     * be included by ending its path with a slash.
+     */
+    files: string[];
+
+    /**
+     * The .dockerignore file of the build context. Files that it
+     * excludes cannot be copied by COPY or ADD instructions.
+     */
+    dockerignore?: Dockerignore | null;
+}
+
+/**
+ * Customizes how a Dockerfile is printed back into text. If a
+ * callback returns null or undefined then the original text of that
+ * comment or instruction will be printed.
+ */
+export interface PrinterOptions {
+
+    /**
+     * Returns the text that should be printed for the given
+     * instruction. This replaces the entire range of the instruction,
+     * including any comments that are embedded within it.
+     */
+    printInstruction?(instruction: Instruction): string | null | undefined;
+
+    /**
+     * Returns the text that should be printed for the given comment.
+     * Comments embedded inside an instruction will not be passed to
+     * this callback as they are printed as a part of the instruction.
+     */
+    printComment?(comment: Comment): string | null | undefined;
 }
 
+/**
+ * Controls which rules are applied when a Dockerfile is formatted.
+ */
+export interface FormatterOptions {
+
+    /**
+     * How the keywords of instructions should be cased. Defaults to
+     * "upper".
+     */
+    keywordCase?: "upper" | "lower" | "preserve";
+
+    /**
+     * The whitespace to indent lines that follow an escaped newline
+     * with. Defaults to four spaces. If null, the indentation of
+     * such lines will not be changed.
+     */
+    indentation?: string | null;
+
+    /**
+     * Whether the escape characters at the end of the lines of a
+     * multiline instruction should be aligned to the same column.
+     * Defaults to false.
+     */
+    alignEscapeCharacters?: boolean;
+
+    /**
+     * RUN instructions that are on a single line that is longer than
+     * this many characters will have each of their flags, such as
+     * --mount, placed on its own line. Defaults to 0 which never
+     * splits a RUN instruction.
+     */
+    maxRunLineLength?: number;
+
+    /**
+     * Whether the whitespace between the key=value pairs of an ENV
+     * instruction should be normalized to a single space. Defaults
+     * to true.
+     */
+    normalizeEnvSpacing?: boolean;
+}
+
+/**
+ * A check that is run against a Dockerfile by the linter.
+ */
+export interface Rule {
+
+    /**
+     * Returns the unique identifier of this rule. The identifier is
+     * used to configure the rule and will be set as the code of the
+     * diagnostics that the rule reports.
+     */
+    getId(): string;
+
+    /**
+     * Returns a short description of what this rule checks for.
+     */
+    getDescription(): string;
+
+    /**
+     * Returns the severity that this rule's diagnostics will be
+     * reported with if it has not been configured.
+     */
+    getDefaultSeverity(): DiagnosticSeverity;
+
+    /**
+     * Checks the given Dockerfile for problems. The severity, code,
+     * and source of the returned diagnostics will be replaced by the
+     * linter so only their ranges and messages need to be set.
+     * 
+     * @param dockerfile the Dockerfile to check
+     * @return the problems that were found
+     */
+    check(dockerfile: Dockerfile): Diagnostic[];
+}
+
+/**
+ * Configures which rules the linter should run and the severity that
+ * their diagnostics should be reported with.
+ */
+export interface LinterConfiguration {
+
+    /**
+     * The severities of the rules keyed by their identifiers. A rule
+     * that has been set to "off" will not be run. Rules that have not
+     * been configured will use their default severity. Suppression
+     * comments that did not match any problems are reported with the
+     * "unused-suppression" identifier.
+     */
+    rules?: { [id: string]: DiagnosticSeverity | "off" };
+
+    /**
+     * The rules that should be run. Defaults to a registry with all of
+     * the built-in rules.
+     */
+    registry?: RuleRegistry;
+}
+
+import { Formatter } from './formatter';
+import { Linter } from './lint/linter';
+import { RuleRegistry } from './lint/ruleRegistry';
+export { RuleRegistry };
 import { Parser } from './parser';
+import { Printer } from './printer';
 export { Flag } from './flag';
+export { FlagOption } from './flagOption';
+export { Heredoc } from './heredoc';
+export { IgnorePattern } from './ignorePattern';
+import { InstalledPackage } from './installedPackage';
+export { InstalledPackage };
+export { ImageReference } from './imageReference';
 import { ImageTemplate } from './imageTemplate';
 import { Instruction } from './instruction';
 export { Instruction };
 export { Line } from './line';
+export { Mount } from './mount';
 import { ParserDirective } from './parserDirective';
 export { ParserDirective };
+export { Port } from './port';
 export { Property } from './property';
+export { ShellCommand } from './shell/shellCommand';
+export { ShellPipeline } from './shell/shellPipeline';
+export { ShellRedirect } from './shell/shellRedirect';
+export { ShellScript } from './shell/shellScript';
+export { ShellWord } from './shell/shellWord';
 export { Variable } from './variable';
 
 export { Add } from './instructions/add';
@@ -110,6 +548,8 @@ import { Entrypoint } from './instructions/entrypoint';
 export { Entrypoint };
 import { Env } from './instructions/env';
 export { Env };
+import { Expose } from './instructions/expose';
+export { Expose };
 import { From } from './instructions/from';
 export { From };
 import { Healthcheck } from './instructions/healthcheck';
@@ -119,6 +559,8 @@ export { Label } from './instructions/label';
 export { ModifiableInstruction } from './modifiableInstruction';
 export { Onbuild } from './instructions/onbuild';
 export { PropertyInstruction } from './propertyInstruction';
+import { Run } from './instructions/run';
+export { Run };
 export { Shell } from './instructions/shell';
 export { Stopsignal } from './instructions/stopsignal';
 export { User } from './instructions/user';
@@ -146,10 +588,147 @@ export enum Keyword {
     WORKDIR = "WORKDIR"
 }
 
+/**
+ * The ways in which a build stage can depend on another build stage.
+ */
+export enum BuildStageDependency {
+    /**
+     * The build stage uses another build stage as its base image.
+     */
+    FROM = "FROM",
+    /**
+     * The build stage copies files with COPY --from.
+     */
+    COPY = "COPY",
+    /**
+     * The build stage mounts another build stage with RUN --mount.
+     */
+    MOUNT = "MOUNT"
+}
+
+/**
+ * The places that the sources of a COPY or ADD instruction can be
+ * copied from.
+ */
+export enum SourceOrigin {
+    /**
+     * The source is a path in the build context.
+     */
+    CONTEXT = "CONTEXT",
+    /**
+     * The source is a path in another build stage that has been
+     * referenced with --from.
+     */
+    STAGE = "STAGE",
+    /**
+     * The source is a path in an image that has been referenced with
+     * --from.
+     */
+    IMAGE = "IMAGE",
+    /**
+     * The source is a URL or a Git repository that ADD will download.
+     */
+    REMOTE = "REMOTE",
+    /**
+     * The source is a here-document of the instruction.
+     */
+    HEREDOC = "HEREDOC"
+}
+
+/**
+ * The kinds of sources that an ADD instruction can add to the image.
+ */
+export enum AddSourceType {
+    /**
+     * The source is a file or directory that will be copied as is.
+     */
+    PATH = "PATH",
+    /**
+     * The source is a URL that will be downloaded.
+     */
+    URL = "URL",
+    /**
+     * The source is a Git repository that will be cloned.
+     */
+    GIT = "GIT",
+    /**
+     * The source is a local tar archive that will be extracted.
+     */
+    ARCHIVE = "ARCHIVE"
+}
+
+/**
+ * The package managers whose installations can be found in the
+ * commands of RUN instructions.
+ */
+export enum PackageManager {
+    /**
+     * Debian packages installed with apt-get install or apt install.
+     */
+    APT = "apt",
+    /**
+     * Alpine packages installed with apk add.
+     */
+    APK = "apk",
+    /**
+     * RPM packages installed with yum install.
+     */
+    YUM = "yum",
+    /**
+     * RPM packages installed with dnf install or microdnf install.
+     */
+    DNF = "dnf",
+    /**
+     * Python packages installed with pip install.
+     */
+    PIP = "pip",
+    /**
+     * Node.js packages installed globally with npm install -g.
+     */
+    NPM = "npm",
+    /**
+     * Ruby gems installed with gem install.
+     */
+    GEM = "gem"
+}
+
+/**
+ * The forms that the command of a CMD, ENTRYPOINT, HEALTHCHECK, or RUN
+ * instruction can be written in.
+ */
+export enum CommandForm {
+    /**
+     * The command is a JSON array of strings that will be executed
+     * directly without a shell.
+     */
+    EXEC = "EXEC",
+    /**
+     * The command is a string that will be run with the build stage's
+     * shell.
+     */
+    SHELL = "SHELL"
+}
+
 export enum Directive {
     escape = "escape"
 }
 
+/**
+ * The codes of the diagnostics that are reported when a Dockerfile
+ * is parsed or linted.
+ */
+export enum DiagnosticCode {
+    DuplicateFlag = "duplicate-flag",
+    InvalidDuration = "invalid-duration",
+    InvalidEscapeDirective = "invalid-escape-directive",
+    MalformedJSON = "malformed-json",
+    NoneArguments = "none-arguments",
+    UnknownFlag = "unknown-flag",
+    UnterminatedHeredoc = "unterminated-heredoc",
+    UnterminatedVariable = "unterminated-variable",
+    UnusedSuppression = "unused-suppression"
+}
+
 export const DefaultVariables = [
     "FTP_PROXY", "ftp_proxy",
     "HTTP_PROXY", "http_proxy",
@@ -157,11 +736,171 @@ export const DefaultVariables = [
     "NO_PROXY", "no_proxy"
 ];
 
+/**
+ * The ARG variables that BuildKit defines automatically from the
+ * platforms of the build. They are declared in the global scope so
+ * they can be used by FROM instructions without having been declared.
+ * A build stage must declare them with an ARG instruction without a
+ * value, such as ARG TARGETARCH, before they can be used in the build
+ * stage.
+ */
+export const PlatformVariables = [
+    "BUILDPLATFORM", "BUILDOS", "BUILDARCH", "BUILDVARIANT",
+    "TARGETPLATFORM", "TARGETOS", "TARGETARCH", "TARGETVARIANT"
+];
+
+/**
+ * The other ARG variables that BuildKit predefines. TARGETSTAGE is the
+ * name of the build stage that is being built and the BUILDKIT_*
+ * variables configure the builder. They follow the same scoping rules
+ * as the variables in PlatformVariables.
+ */
+export const BuildKitVariables = [
+    "TARGETSTAGE",
+    "BUILDKIT_CACHE_MOUNT_NS",
+    "BUILDKIT_CONTEXT_KEEP_GIT_DIR",
+    "BUILDKIT_INLINE_CACHE",
+    "BUILDKIT_MULTI_PLATFORM",
+    "BUILDKIT_SANDBOX_HOSTNAME",
+    "BUILDKIT_SYNTAX"
+];
+
+/**
+ * The shell that commands in shell form will be run with if the
+ * shell has not been changed by a SHELL instruction.
+ */
+export const DefaultShell = [ "/bin/sh", "-c" ];
+
 export namespace DockerfileParser {
 
-    export function parse(content: string): Dockerfile {
+    /**
+     * Parses the given content into a Dockerfile.
+     * 
+     * @param content the content of the Dockerfile
+     * @param options the build that the Dockerfile will be evaluated
+     *                for, the variables in the Dockerfile will be
+     *                resolved against its build arguments and platforms
+     * @return the parsed Dockerfile
+     */
+    export function parse(content: string, options?: ParserOptions): Dockerfile {
         let parser = new Parser();
-        return parser.parse(content);
+        return parser.parse(content, options);
+    }
+
+    /**
+     * Creates a new Dockerfile by applying the given changes to an
+     * existing Dockerfile. Only the comments and instructions that
+     * have been affected by the changes will be scanned again. The
+     * previous Dockerfile will not be modified.
+     * 
+     * @param previous the Dockerfile that the changes were made to
+     * @param changes the changes that were made to the content of the
+     *                previous Dockerfile, in the order that they were
+     *                made
+     * @return a Dockerfile that is equal to one that has been parsed
+     *         from the changed content with the previous Dockerfile's
+     *         build arguments and platforms
+     */
+    export function update(previous: Dockerfile, changes: TextDocumentContentChangeEvent[]): Dockerfile {
+        let parser = new Parser();
+        return parser.update(previous as dockerfile.Dockerfile, changes);
+    }
+
+}
+
+export namespace DockerignoreParser {
+
+    /**
+     * Parses the given content into a .dockerignore file.
+     * 
+     * @param content the content of the .dockerignore file
+     * @return the parsed .dockerignore file
+     */
+    export function parse(content: string): Dockerignore {
+        return Dockerignore.parse(content);
+    }
+
+    /**
+     * Returns the paths of the ignore files that will be used when
+     * building the given Dockerfile, in the order that they will be
+     * looked for. An ignore file named after the Dockerfile, such as
+     * Dockerfile.dev.dockerignore for Dockerfile.dev, is read from
+     * the same directory as the Dockerfile. Only if it does not exist
+     * will the .dockerignore file at the root of the build context be
+     * used instead.
+     * 
+     * @param dockerfilePath the path of the Dockerfile
+     * @param contextPath the path of the root of the build context
+     * @return the paths of the Dockerfile's own ignore file and of the
+     *         build context's .dockerignore file
+     */
+    export function getIgnoreFilePaths(dockerfilePath: string, contextPath: string): string[] {
+        return [
+            dockerfilePath + ".dockerignore",
+            contextPath === "" ? ".dockerignore" : contextPath.replace(/[\/\\]+$/, "") + "/.dockerignore"
+        ];
+    }
+
+}
+
+export namespace DockerfileFormatter {
+
+    /**
+     * Computes the edits that will format the given Dockerfile
+     * according to the given options. Comments will be preserved.
+     * 
+     * @param dockerfile the Dockerfile to format
+     * @param options the formatting rules to apply
+     * @return the edits to apply to the Dockerfile's content, sorted
+     *         by their position in the document
+     */
+    export function format(dockerfile: Dockerfile, options?: FormatterOptions): TextEdit[] {
+        let formatter = new Formatter(options);
+        return formatter.format(dockerfile as dockerfile.Dockerfile);
+    }
+
+}
+
+export namespace DockerfileLinter {
+
+    /**
+     * Creates a registry that contains all of the built-in rules.
+     */
+    export function createRegistry(): RuleRegistry {
+        return RuleRegistry.createDefault();
+    }
+
+    /**
+     * Runs the configured rules against the given Dockerfile.
+     * 
+     * @param dockerfile the Dockerfile to check
+     * @param configuration the rules to run and their severities
+     * @return the problems that were found, sorted by the order that
+     *         they appear in the document
+     */
+    export function lint(dockerfile: Dockerfile, configuration?: LinterConfiguration): Diagnostic[] {
+        let linter = new Linter(configuration);
+        return linter.lint(dockerfile as dockerfile.Dockerfile);
+    }
+
+}
+
+export namespace DockerfilePrinter {
+
+    /**
+     * Prints the given Dockerfile back into text. The whitespace,
+     * newlines, line continuations, and comments of the original
+     * content are preserved so a Dockerfile printed without any
+     * options will be identical to the content it was parsed from.
+     * 
+     * @param dockerfile the Dockerfile to print
+     * @param options callbacks for changing how specific comments or
+     *                instructions should be printed
+     * @return the text of the Dockerfile
+     */
+    export function print(dockerfile: Dockerfile, options?: PrinterOptions): string {
+        let printer = new Printer(options);
+        return printer.print(dockerfile as dockerfile.Dockerfile);
     }
 
 }
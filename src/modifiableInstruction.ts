@@ -2,7 +2,7 @@
  * Copyright (c) Remy Suen. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import { TextDocument, Range, Position } from 'vscode-languageserver-types';
+import { TextDocument, Range, Position, Diagnostic } from 'vscode-languageserver-types';
 import { Dockerfile } from './dockerfile';
 import { Argument } from './argument';
 import { Flag } from './flag';
@@ -92,6 +92,36 @@ export abstract class ModifiableInstruction extends Instruction {
         return this.flags;
     }
 
+    /**
+     * Returns the last flag of this instruction with the given name.
+     * 
+     * @param name the name of the flag to find
+     * @return the last flag with the given name, or null if this
+     *         instruction has no such flag
+     */
+    protected getLastFlag(name: string): Flag | null {
+        const flags = this.getFlags();
+        for (let i = flags.length - 1; i >= 0; i--) {
+            if (flags[i].getName() === name) {
+                return flags[i];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Returns the problems that were found when this instruction was
+     * parsed. The values of the instruction's flags will also be
+     * checked for variables that are missing their closing }.
+     */
+    public getDiagnostics(): Diagnostic[] {
+        const diagnostics = [];
+        for (const flag of this.getFlags()) {
+            this.validateVariables(flag.getRange(), diagnostics);
+        }
+        return diagnostics.concat(super.getDiagnostics());
+    }
+
     public getArguments(): Argument[] {
         const args = super.getArguments();
         const flags = this.getFlags();
@@ -0,0 +1,168 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { Flag } from './flag';
+import { FlagOption } from './flagOption';
+
+/**
+ * A mount that has been declared by a RUN instruction's --mount flag.
+ */
+export class Mount {
+
+    private readonly flag: Flag;
+    private readonly options: FlagOption[];
+
+    constructor(flag: Flag, options: FlagOption[]) {
+        this.flag = flag;
+        this.options = options;
+    }
+
+    public toString(): string {
+        return this.flag.toString();
+    }
+
+    /**
+     * Returns the --mount flag that declared this mount.
+     */
+    public getFlag(): Flag {
+        return this.flag;
+    }
+
+    /**
+     * Returns all the comma-separated options of this mount in the
+     * order that they were declared.
+     */
+    public getOptions(): FlagOption[] {
+        return this.options;
+    }
+
+    /**
+     * Returns the last option with one of the given names. Options
+     * that are declared later override the ones that came before it.
+     * 
+     * @param names the names that the option may be declared with
+     * @return the matching option, or null if the mount does not
+     *         declare such an option
+     */
+    public getOption(...names: string[]): FlagOption | null {
+        for (let i = this.options.length - 1; i >= 0; i--) {
+            if (names.indexOf(this.options[i].getName()) !== -1) {
+                return this.options[i];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Returns the type of this mount. If no type has been specified,
+     * the mount will be a bind mount.
+     * 
+     * @return the type of this mount such as bind, cache, secret,
+     *         ssh, or tmpfs
+     */
+    public getType(): string {
+        const type = this.getOptionValue("type");
+        return type === null ? "bind" : type;
+    }
+
+    /**
+     * Returns the path that this mount will be mounted at. The path
+     * may be declared with target, dst, or destination.
+     */
+    public getTarget(): string | null {
+        return this.getOptionValue("target", "dst", "destination");
+    }
+
+    /**
+     * Returns the path in the mounted source that will be mounted. The
+     * path may be declared with source or src.
+     */
+    public getSource(): string | null {
+        return this.getOptionValue("source", "src");
+    }
+
+    /**
+     * Returns the build stage, image, or context that bind and cache
+     * mounts will use as their source.
+     */
+    public getFrom(): string | null {
+        return this.getOptionValue("from");
+    }
+
+    /**
+     * Returns the id of a cache, secret, or ssh mount.
+     */
+    public getId(): string | null {
+        return this.getOptionValue("id");
+    }
+
+    /**
+     * Returns how a cache mount may be shared between concurrent
+     * builds. One of shared, private, or locked.
+     */
+    public getSharing(): string | null {
+        return this.getOptionValue("sharing");
+    }
+
+    public getMode(): string | null {
+        return this.getOptionValue("mode");
+    }
+
+    public getUid(): string | null {
+        return this.getOptionValue("uid");
+    }
+
+    public getGid(): string | null {
+        return this.getOptionValue("gid");
+    }
+
+    /**
+     * Returns the name of the environment variable that a secret will
+     * be exposed as.
+     */
+    public getEnv(): string | null {
+        return this.getOptionValue("env");
+    }
+
+    /**
+     * Returns the maximum size of a tmpfs mount.
+     */
+    public getSize(): string | null {
+        return this.getOptionValue("size");
+    }
+
+    /**
+     * Returns whether the build will fail if a secret or ssh mount is
+     * unavailable.
+     */
+    public isRequired(): boolean {
+        return this.isOptionEnabled(false, "required");
+    }
+
+    /**
+     * Returns whether this mount can only be read from. Bind mounts
+     * are read-only unless rw has been specified whereas other mounts
+     * are writable unless ro has been specified.
+     */
+    public isReadOnly(): boolean {
+        if (this.getType() === "bind") {
+            return !this.isOptionEnabled(false, "rw", "readwrite");
+        }
+        return this.isOptionEnabled(false, "ro", "readonly");
+    }
+
+    private getOptionValue(...names: string[]): string | null {
+        const option = this.getOption(...names);
+        return option === null ? null : option.getValue();
+    }
+
+    private isOptionEnabled(defaultValue: boolean, ...names: string[]): boolean {
+        const option = this.getOption(...names);
+        if (option === null) {
+            return defaultValue;
+        }
+        const value = option.getValue();
+        return value === null || value.toLowerCase() === "true";
+    }
+}
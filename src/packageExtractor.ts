@@ -0,0 +1,200 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { PackageManager } from './main';
+import { Dockerfile } from './dockerfile';
+import { Expansion } from './expansion';
+import { InstalledPackage } from './installedPackage';
+import { Run } from './instructions/run';
+import { ShellWord } from './shell/shellWord';
+
+/**
+ * Finds the packages that are installed by the shell commands of a
+ * RUN instruction.
+ */
+export class PackageExtractor {
+
+    /**
+     * The options of each package manager that take the next word as
+     * their value.
+     */
+    private static readonly VALUE_OPTIONS: { [manager: string]: string[] } = {
+        "apt": [ "-o", "--option", "-t", "--target-release", "--default-release", "-c", "--config-file" ],
+        "apk": [ "-t", "--virtual", "-X", "--repository", "-p", "--root", "--arch", "--cache-dir", "--keys-dir", "--repositories-file" ],
+        "yum": [ "-c", "--config", "--installroot", "--releasever", "--setopt", "--enablerepo", "--disablerepo", "-x", "--exclude" ],
+        "dnf": [ "-c", "--config", "--installroot", "--releasever", "--setopt", "--enablerepo", "--disablerepo", "-x", "--exclude" ],
+        "pip": [ "-r", "--requirement", "-c", "--constraint", "-e", "--editable", "-i", "--index-url", "--extra-index-url", "-f", "--find-links", "-t", "--target", "--prefix", "--root", "--trusted-host", "--platform", "--python-version", "--implementation", "--abi", "--src", "--upgrade-strategy", "--cache-dir", "--progress-bar" ],
+        "npm": [ "--prefix", "--registry", "--location", "--tag" ],
+        "gem": [ "-v", "--version", "-i", "--install-dir", "-n", "--bindir", "-s", "--source", "--platform" ]
+    };
+
+    private readonly dockerfile: Dockerfile;
+
+    constructor(dockerfile: Dockerfile) {
+        this.dockerfile = dockerfile;
+    }
+
+    public extract(run: Run): InstalledPackage[] {
+        const script = run.getShellScript();
+        if (script === null) {
+            return [];
+        }
+
+        const packages: InstalledPackage[] = [];
+        for (const command of script.getCommands()) {
+            const name = command.getName();
+            if (name === null) {
+                continue;
+            }
+            let words = [ name ].concat(command.getArguments());
+            // skip over commands that only run the package manager
+            while (words.length > 0 && (words[0].getValue() === "sudo" || words[0].getValue() === "env")) {
+                words = words.slice(1);
+                while (words.length > 0 && (words[0].getValue().charAt(0) === '-' || /^[a-zA-Z_][a-zA-Z0-9_]*=/.test(words[0].getValue()))) {
+                    words = words.slice(1);
+                }
+            }
+            if (words.length === 0) {
+                continue;
+            }
+
+            const program = words[0].getValue().substring(words[0].getValue().lastIndexOf('/') + 1);
+            let args = words.slice(1);
+            if (/^python[0-9.]*$/.test(program) && args.length > 1 && args[0].getValue() === "-m" && /^pip[0-9.]*$/.test(args[1].getValue())) {
+                args = args.slice(2);
+                this.extractPackages(run, PackageManager.PIP, args, [ "install" ], packages);
+                continue;
+            }
+
+            switch (program) {
+                case "apt-get":
+                case "apt":
+                case "aptitude":
+                    this.extractPackages(run, PackageManager.APT, args, [ "install" ], packages);
+                    break;
+                case "apk":
+                    this.extractPackages(run, PackageManager.APK, args, [ "add" ], packages);
+                    break;
+                case "yum":
+                    this.extractPackages(run, PackageManager.YUM, args, [ "install" ], packages);
+                    break;
+                case "dnf":
+                case "microdnf":
+                    this.extractPackages(run, PackageManager.DNF, args, [ "install" ], packages);
+                    break;
+                case "npm":
+                    this.extractPackages(run, PackageManager.NPM, args, [ "install", "i", "add" ], packages);
+                    break;
+                case "gem":
+                    this.extractPackages(run, PackageManager.GEM, args, [ "install" ], packages);
+                    break;
+                default:
+                    if (/^pip[0-9.]*$/.test(program)) {
+                        this.extractPackages(run, PackageManager.PIP, args, [ "install" ], packages);
+                    }
+                    break;
+            }
+        }
+        return packages;
+    }
+
+    private extractPackages(run: Run, manager: PackageManager, args: ShellWord[], subcommands: string[], packages: InstalledPackage[]): void {
+        const valueOptions = PackageExtractor.VALUE_OPTIONS[manager];
+        const options: { [name: string]: string } = {};
+        const operands: ShellWord[] = [];
+        let optionsEnded = false;
+        for (let i = 0; i < args.length; i++) {
+            const value = args[i].getValue();
+            if (optionsEnded || value.charAt(0) !== '-' || value === "-") {
+                operands.push(args[i]);
+            } else if (value === "--") {
+                optionsEnded = true;
+            } else if (value.indexOf('=') !== -1) {
+                options[value.substring(0, value.indexOf('='))] = value.substring(value.indexOf('=') + 1);
+            } else if (valueOptions.indexOf(value) !== -1 && i + 1 < args.length) {
+                options[value] = args[i + 1].getValue();
+                i++;
+            } else {
+                options[value] = "";
+            }
+        }
+
+        if (operands.length === 0 || subcommands.indexOf(operands[0].getValue()) === -1) {
+            return;
+        }
+        if (manager === PackageManager.NPM && options["-g"] === undefined && options["--global"] === undefined && options["--location"] !== "global") {
+            // only global installations add packages to the image itself
+            return;
+        }
+
+        const line = run.getRange().start.line;
+        const resolve = (name: string) => this.dockerfile.resolveVariable(name, line);
+        for (const operand of operands.slice(1)) {
+            const raw = operand.getRawValue();
+            if (raw.indexOf("$(") !== -1 || raw.indexOf('`') !== -1) {
+                // the output of a command substitution is only known at build time
+                continue;
+            }
+            let value = operand.getValue();
+            if (raw.indexOf('\'') === -1) {
+                value = Expansion.expand(value, this.dockerfile.getEscapeCharacter(), resolve);
+            }
+            if (value.length === 0 || /^(\.|\/|~)|:\/\//.test(value) || /\.(deb|rpm|apk|whl|gem|tgz)$|\.tar\.gz$/.test(value)) {
+                // local files and URLs do not have a name that can be inventoried
+                continue;
+            }
+
+            const parsed = this.parsePackage(manager, value, options);
+            packages.push(new InstalledPackage(manager, parsed[0], parsed[1], operand.getRange(), run));
+        }
+    }
+
+    /**
+     * Splits a package specification into its name and its version.
+     */
+    private parsePackage(manager: PackageManager, value: string, options: { [name: string]: string }): [ string, string | null ] {
+        let match: RegExpExecArray | null;
+        switch (manager) {
+            case PackageManager.APT:
+                // name:arch=version or name/release
+                match = /^([^=:/]+)(?::[^=/]+)?(?:\/[^=]+)?(?:=(.+))?$/.exec(value);
+                break;
+            case PackageManager.APK:
+                // name=version or name~version, but not a range such as name>1.0
+                match = /^([^=~<>]+)(?:~?=|~)?(.+)?$/.exec(value);
+                if (match !== null && /[<>]/.test(value)) {
+                    return [ value.split(/[<>]/)[0], null ];
+                }
+                break;
+            case PackageManager.YUM:
+            case PackageManager.DNF:
+                // name-version-release where the version is made of
+                // dot-separated parts that start with a digit
+                match = /^(.+?)(?:-(\d+(?:\.[0-9A-Za-z_+~]+)+(?:-[0-9A-Za-z_.+~]+)?))?$/.exec(value);
+                break;
+            case PackageManager.PIP:
+                // name[extras]==version
+                match = /^([^\[<>=!~;\s]+)(?:\[[^\]]*\])?(?:===?([^,;\s]+))?/.exec(value);
+                break;
+            case PackageManager.NPM:
+                // @scope/name@version
+                match = /^(@?[^@]+)(?:@(.+))?$/.exec(value);
+                break;
+            case PackageManager.GEM:
+                // name:version, or any name with the --version option
+                match = /^([^:]+)(?::(.+))?$/.exec(value);
+                if (match !== null && match[2] === undefined) {
+                    const version = options["-v"] !== undefined ? options["-v"] : options["--version"];
+                    return [ match[1], version === undefined ? null : version ];
+                }
+                break;
+        }
+        if (match === null) {
+            return [ value, null ];
+        }
+        return [ match[1], match[2] === undefined ? null : match[2] ];
+    }
+}
@@ -4,29 +4,31 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { TextDocument, Range, Position } from 'vscode-languageserver-types';
+import { TextDocument, TextDocumentContentChangeEvent, Range, Position, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
 import { Comment } from './comment';
 import { ParserDirective } from './parserDirective';
 import { Instruction } from './instruction';
 import { Line } from './line';
-import { JSONInstruction } from './jsonInstruction';
 import { Add } from './instructions/add';
 import { Arg } from './instructions/arg';
 import { Cmd } from './instructions/cmd';
 import { Copy } from './instructions/copy';
 import { Env } from './instructions/env';
 import { Entrypoint } from './instructions/entrypoint';
+import { Expose } from './instructions/expose';
 import { From } from './instructions/from';
 import { Healthcheck } from './instructions/healthcheck';
 import { Label } from './instructions/label';
 import { Onbuild } from './instructions/onbuild';
+import { Run } from './instructions/run';
 import { Shell } from './instructions/shell';
 import { Stopsignal } from './instructions/stopsignal';
 import { Workdir } from './instructions/workdir';
 import { User } from './instructions/user';
 import { Volume } from './instructions/volume';
 import { Dockerfile } from './dockerfile';
-import { Directive } from './main';
+import { Directive, Keyword, DiagnosticCode, ParserOptions } from './main';
+import { Util } from './util';
 
 export class Parser {
 
@@ -46,6 +48,8 @@ export class Parser {
                 return new Entrypoint(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
             case "ENV":
                 return new Env(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
+            case "EXPOSE":
+                return new Expose(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
             case "FROM":
                 return new From(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
             case "HEALTHCHECK":
@@ -55,7 +59,7 @@ export class Parser {
             case "ONBUILD":
                 return new Onbuild(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
             case "RUN":
-                return new JSONInstruction(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
+                return new Run(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
             case "SHELL":
                 return new Shell(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
             case "STOPSIGNAL":
@@ -70,6 +74,33 @@ export class Parser {
         return new Instruction(document, lineRange, dockerfile, escapeChar, instruction, instructionRange);
     }
 
+    /**
+     * Determines where an instruction ends if it has declared any
+     * heredocs on its first line.
+     * 
+     * @param document the document being parsed
+     * @param instruction the instruction's keyword as written
+     * @param argumentsStart the offset where the instruction's keyword ends
+     * @param lineEnd the offset of the newline that ends the
+     *                instruction's first logical line
+     * @return the offset that the instruction's last heredoc ends at,
+     *         or lineEnd if the instruction has no heredocs
+     */
+    private getHeredocsEnd(document: TextDocument, instruction: string, argumentsStart: number, lineEnd: number): number {
+        switch (instruction.toUpperCase()) {
+            case Keyword.ADD:
+            case Keyword.COPY:
+            case Keyword.RUN:
+                const heredocs = Util.parseHeredocs(document, this.escapeChar, argumentsStart, document.getText().length);
+                if (heredocs.length > 0) {
+                    const last = heredocs[heredocs.length - 1];
+                    const terminatorRange = last.getTerminatorRange();
+                    return document.offsetAt(terminatorRange === null ? last.getBodyRange().end : terminatorRange.end);
+                }
+        }
+        return lineEnd;
+    }
+
     private getDirectiveSymbol(document: TextDocument, buffer: string): Line | null {
         // reset the escape directive in between runs
         this.escapeChar = '';
@@ -164,21 +195,32 @@ export class Parser {
         return null;
     }
 
-    public parse(buffer: string): Dockerfile {
+    private setDirective(dockerfile: Dockerfile, directive: ParserDirective): void {
+        dockerfile.setDirective(directive);
+        if (Directive.escape === directive.getDirective()) {
+            let value = directive.getValue();
+            if (value === '`' || value === '\\') {
+                this.escapeChar = value;
+            } else {
+                dockerfile.addDiagnostic(Diagnostic.create(
+                    directive.getValueRange(),
+                    "Invalid escape directive value, must be ` or \\",
+                    DiagnosticSeverity.Error,
+                    DiagnosticCode.InvalidEscapeDirective,
+                    "dockerfile-ast"
+                ));
+            }
+        }
+    }
+
+    public parse(buffer: string, options?: ParserOptions): Dockerfile {
         let document = TextDocument.create("", "", 0, buffer);
-        let dockerfile = new Dockerfile(document);
+        let dockerfile = new Dockerfile(document, options ? options : {});
         let line: any = this.getDirectiveSymbol(document, buffer);
         let offset = 0;
         this.escapeChar = '\\';
         if (line instanceof ParserDirective) {
-            let directive = line as ParserDirective;
-            dockerfile.setDirective(directive);
-            if (Directive.escape === directive.getDirective()) {
-                let value = directive.getValue();
-                if (value === '`' || value === '\\') {
-                    this.escapeChar = value;
-                }
-            }
+            this.setDirective(dockerfile, line);
             offset = document.offsetAt(line.getRange().end);
         } else if (line instanceof Comment) {
             dockerfile.addComment(line);
@@ -186,6 +228,165 @@ export class Parser {
             offset = document.offsetAt(Position.create(1, 0));
         }
 
+        this.parseLines(document, dockerfile, offset, () => false);
+        this.finish(dockerfile);
+        return dockerfile;
+    }
+
+    /**
+     * Creates a new Dockerfile by applying the given changes to the
+     * content of an existing Dockerfile. Only the comments and
+     * instructions that have been touched by the changes are scanned
+     * again. The ones before and after the changes are recreated from
+     * their previous ranges, shifted to match the new content, without
+     * being scanned. The resulting Dockerfile is equal to the one that
+     * would have been created if the new content had been parsed in its
+     * entirety.
+     * 
+     * @param previous the Dockerfile to apply the changes to, it will
+     *                 not be modified
+     * @param changes the changes to apply in the order that they
+     *                were made, every change's range is relative to
+     *                the content after the preceding changes have been
+     *                applied
+     * @return a new Dockerfile for the changed content
+     */
+    public update(previous: Dockerfile, changes: TextDocumentContentChangeEvent[]): Dockerfile {
+        const previousDocument = previous.getDocument();
+        let document = previousDocument;
+        let buffer = document.getText();
+        let fullParse = false;
+        let dirtyStart = -1;
+        let dirtyEnd = -1;
+        let delta = 0;
+        for (const change of changes) {
+            if (change.range === undefined) {
+                // the entire document has been replaced
+                buffer = change.text;
+                fullParse = true;
+            } else {
+                const start = document.offsetAt(change.range.start);
+                const end = document.offsetAt(change.range.end);
+                const difference = change.text.length - (end - start);
+                buffer = buffer.substring(0, start) + change.text + buffer.substring(end);
+                if (dirtyStart === -1) {
+                    dirtyStart = start;
+                    dirtyEnd = end + difference;
+                } else {
+                    dirtyStart = Math.min(dirtyStart, start);
+                    dirtyEnd = Math.max(dirtyEnd, end) + difference;
+                }
+                delta += difference;
+            }
+            document = TextDocument.create("", "", 0, buffer);
+        }
+
+        // changes to the first line may change the parser directive
+        if (fullParse || dirtyStart === -1 || previousDocument.positionAt(dirtyStart).line === 0) {
+            return this.parse(buffer, previous.getOptions());
+        }
+
+        // find the comments and instructions that are not inside an instruction
+        const instructions = previous.getInstructions();
+        const comments = previous.getComments();
+        const topLevelStarts: number[] = [];
+        let commentIndex = 0;
+        for (const instruction of instructions) {
+            const start = previousDocument.offsetAt(instruction.getRange().start);
+            const end = previousDocument.offsetAt(instruction.getRange().end);
+            while (commentIndex < comments.length && previousDocument.offsetAt(comments[commentIndex].getRange().start) < start) {
+                topLevelStarts.push(previousDocument.offsetAt(comments[commentIndex].getRange().start));
+                commentIndex++;
+            }
+            topLevelStarts.push(start);
+            while (commentIndex < comments.length && previousDocument.offsetAt(comments[commentIndex].getRange().start) < end) {
+                // embedded in the instruction
+                commentIndex++;
+            }
+        }
+        for (; commentIndex < comments.length; commentIndex++) {
+            topLevelStarts.push(previousDocument.offsetAt(comments[commentIndex].getRange().start));
+        }
+
+        // start scanning from the last comment or instruction that starts before the change
+        let scanStart = -1;
+        const resumeStarts: { [offset: number]: boolean } = {};
+        for (const start of topLevelStarts) {
+            if (start < dirtyStart) {
+                scanStart = start;
+            } else {
+                resumeStarts[start] = true;
+            }
+        }
+        if (scanStart === -1) {
+            return this.parse(buffer, previous.getOptions());
+        }
+
+        const dockerfile = new Dockerfile(document, previous.getOptions());
+        this.escapeChar = '\\';
+        const directive = previous.getDirective();
+        if (directive !== null) {
+            this.setDirective(dockerfile, new ParserDirective(document, directive.getRange(), directive.getNameRange(), directive.getValueRange()));
+        }
+
+        this.copyLines(previousDocument, document, dockerfile, previous, 0, scanStart, 0);
+        const resumeOffset = this.parseLines(document, dockerfile, scanStart, (offset: number) => {
+            return offset >= dirtyEnd && resumeStarts[offset - delta] === true;
+        });
+        this.copyLines(previousDocument, document, dockerfile, previous, resumeOffset - delta, previousDocument.getText().length + 1, delta);
+        this.finish(dockerfile);
+        return dockerfile;
+    }
+
+    /**
+     * Recreates the comments and instructions of a previous Dockerfile
+     * that start within the given range of offsets in the new document.
+     */
+    private copyLines(previousDocument: TextDocument, document: TextDocument, dockerfile: Dockerfile, previous: Dockerfile, start: number, end: number, delta: number): void {
+        const shift = (range: Range): Range => {
+            return Range.create(
+                document.positionAt(previousDocument.offsetAt(range.start) + delta),
+                document.positionAt(previousDocument.offsetAt(range.end) + delta)
+            );
+        };
+        for (const comment of previous.getComments()) {
+            const offset = previousDocument.offsetAt(comment.getRange().start);
+            if (start <= offset && offset < end) {
+                dockerfile.addComment(new Comment(document, shift(comment.getRange())));
+            }
+        }
+        for (const instruction of previous.getInstructions()) {
+            const offset = previousDocument.offsetAt(instruction.getRange().start);
+            if (start <= offset && offset < end) {
+                dockerfile.addInstruction(Parser.createInstruction(
+                    document,
+                    dockerfile,
+                    this.escapeChar,
+                    shift(instruction.getRange()),
+                    instruction.getInstruction(),
+                    shift(instruction.getInstructionRange())
+                ));
+            }
+        }
+    }
+
+    /**
+     * Parses the comments and instructions of the document starting
+     * from the given offset and adds them to the Dockerfile.
+     * 
+     * @param document the document to parse
+     * @param dockerfile the Dockerfile to add the parsed lines to
+     * @param offset the offset to start parsing from, must not be in
+     *               the middle of a comment or an instruction
+     * @param canResume a callback that determines whether parsing
+     *                  should stop at the given offset because the
+     *                  comment or instruction that starts there, and
+     *                  everything after it, is already known
+     * @return the offset that parsing stopped at, or the length of
+     *         the document if the entire document was parsed
+     */
+    private parseLines(document: TextDocument, dockerfile: Dockerfile, offset: number, canResume: (offset: number) => boolean): number {
+        const buffer = document.getText();
         lineCheck: for (let i = offset; i < buffer.length; i++) {
             let char = buffer.charAt(i);
             switch (char) {
@@ -195,6 +396,9 @@ export class Parser {
                 case '\n':
                     break;
                 case '#':
+                    if (canResume(i)) {
+                        return i;
+                    }
                     for (let j = i + 1; j < buffer.length; j++) {
                         char = buffer.charAt(j);
                         switch (char) {
@@ -214,6 +418,9 @@ export class Parser {
                     dockerfile.addComment(new Comment(document, range));
                     break lineCheck;
                 default:
+                    if (canResume(i)) {
+                        return i;
+                    }
                     let instruction = char;
                     let instructionStart = i;
                     let instructionEnd = -1;
@@ -271,8 +478,8 @@ export class Parser {
                                             if (escaped) {
                                                 continue;
                                             }
-                                            i = k;
-                                            lineRange = Range.create(document.positionAt(instructionStart), document.positionAt(k));
+                                            i = this.getHeredocsEnd(document, instruction, instructionEnd, k);
+                                            lineRange = Range.create(document.positionAt(instructionStart), document.positionAt(i));
                                             instructionRange = Range.create(document.positionAt(instructionStart), document.positionAt(instructionEnd));
                                             dockerfile.addInstruction(Parser.createInstruction(document, dockerfile, this.escapeChar, lineRange, instruction, instructionRange));
                                             continue lineCheck;
@@ -373,10 +580,16 @@ export class Parser {
                     break lineCheck;
             }
         }
+        return buffer.length;
+    }
 
+    private finish(dockerfile: Dockerfile): void {
         dockerfile.organizeComments();
-
-        return dockerfile;
+        for (const instruction of dockerfile.getInstructions()) {
+            for (const diagnostic of instruction.getDiagnostics()) {
+                dockerfile.addDiagnostic(diagnostic);
+            }
+        }
     }
 
 }
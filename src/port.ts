@@ -0,0 +1,140 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import { Range } from 'vscode-languageserver-types';
+
+/**
+ * A port specification of an EXPOSE instruction such as 80, 80/udp,
+ * or 8000-8010/tcp.
+ */
+export class Port {
+
+    private static readonly PROTOCOLS = [ "tcp", "udp", "sctp" ];
+
+    private readonly value: string;
+    private readonly range: Range;
+    private readonly port: string;
+    private readonly portRange: Range;
+    private readonly protocol: string | null;
+    private readonly protocolRange: Range | null;
+
+    constructor(value: string, range: Range, port: string, portRange: Range, protocol: string | null, protocolRange: Range | null) {
+        this.value = value;
+        this.range = range;
+        this.port = port;
+        this.portRange = portRange;
+        this.protocol = protocol;
+        this.protocolRange = protocolRange;
+    }
+
+    public toString(): string {
+        return this.value;
+    }
+
+    /**
+     * Returns the entire port specification with any variables
+     * expanded to their resolved values.
+     */
+    public getValue(): string {
+        return this.value;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the port or port range of this specification without
+     * its protocol. Thus, for 8000-8010/tcp, the port would be
+     * 8000-8010.
+     */
+    public getPort(): string {
+        return this.port;
+    }
+
+    public getPortRange(): Range {
+        return this.portRange;
+    }
+
+    /**
+     * Returns the first port of this specification.
+     * 
+     * @return the first port number, or null if the port is not a
+     *         valid number between 0 and 65535
+     */
+    public getStart(): number | null {
+        const index = this.port.indexOf('-');
+        return Port.parsePort(index === -1 ? this.port : this.port.substring(0, index));
+    }
+
+    /**
+     * Returns the last port of this specification. If this
+     * specification is for a single port then the end and the start
+     * of the specification will be the same.
+     * 
+     * @return the last port number, or null if the port is not a
+     *         valid number between 0 and 65535
+     */
+    public getEnd(): number | null {
+        const index = this.port.indexOf('-');
+        return Port.parsePort(index === -1 ? this.port : this.port.substring(index + 1));
+    }
+
+    /**
+     * Returns whether this specification covers a range of ports
+     * such as 8000-8010.
+     */
+    public isRange(): boolean {
+        return this.port.indexOf('-') !== -1;
+    }
+
+    /**
+     * Returns the protocol that has been declared for this port such
+     * as tcp, udp, or sctp.
+     * 
+     * @return the declared protocol, or null if no protocol has been
+     *         specified
+     */
+    public getProtocol(): string | null {
+        return this.protocol;
+    }
+
+    /**
+     * Returns the range of the protocol in the document. This
+     * excludes the / character.
+     * 
+     * @return the protocol's range, or null if the protocol was not
+     *         declared in the document directly
+     */
+    public getProtocolRange(): Range | null {
+        return this.protocolRange;
+    }
+
+    /**
+     * Returns the protocol that the port will use. Ports that have
+     * not declared a protocol will default to tcp.
+     */
+    public getEffectiveProtocol(): string {
+        return this.protocol === null || this.protocol === "" ? "tcp" : this.protocol.toLowerCase();
+    }
+
+    /**
+     * Returns whether this specification can be exposed. Its ports
+     * must be between 0 and 65535, a range must not end before it
+     * starts, and its protocol must be tcp, udp, or sctp.
+     */
+    public isValid(): boolean {
+        const start = this.getStart();
+        const end = this.getEnd();
+        return start !== null && end !== null && start <= end && Port.PROTOCOLS.indexOf(this.getEffectiveProtocol()) !== -1;
+    }
+
+    private static parsePort(port: string): number | null {
+        if (port.match(/^[0-9]+$/) === null) {
+            return null;
+        }
+        const value = parseInt(port, 10);
+        return value > 65535 ? null : value;
+    }
+}
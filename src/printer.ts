@@ -0,0 +1,93 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { TextDocument } from 'vscode-languageserver-types';
+import { Comment } from './comment';
+import { Dockerfile } from './dockerfile';
+import { Instruction } from './instruction';
+import { Line } from './line';
+import { PrinterOptions } from './main';
+
+export class Printer {
+
+    private readonly options: PrinterOptions;
+
+    constructor(options?: PrinterOptions) {
+        this.options = options ? options : {};
+    }
+
+    /**
+     * Prints the given Dockerfile back into text. The parser
+     * directive, comments, and instructions are printed in the order
+     * that they appear in the document. The whitespace and newlines
+     * between them are preserved as is so a Dockerfile that has been
+     * printed without any customizations will be identical to the
+     * content it was parsed from.
+     * 
+     * Comments that are embedded in a multiline instruction are
+     * printed as a part of that instruction.
+     */
+    public print(dockerfile: Dockerfile): string {
+        const document = dockerfile.getDocument();
+        const content = document.getText();
+        let output = "";
+        let offset = 0;
+        for (const line of this.getTopLevelLines(document, dockerfile)) {
+            const range = line.getRange();
+            const start = document.offsetAt(range.start);
+            output += content.substring(offset, start);
+            output += this.printLine(line);
+            offset = document.offsetAt(range.end);
+        }
+        return output + content.substring(offset);
+    }
+
+    private printLine(line: Line): string {
+        let printed: string | null | undefined = undefined;
+        if (line instanceof Instruction) {
+            if (this.options.printInstruction) {
+                printed = this.options.printInstruction(line);
+            }
+        } else if (line instanceof Comment) {
+            if (this.options.printComment) {
+                printed = this.options.printComment(line);
+            }
+        }
+        return printed === null || printed === undefined ? line.getTextContent() : printed;
+    }
+
+    /**
+     * Returns the lines of the Dockerfile that are not contained
+     * within an instruction, sorted by their position in the document.
+     */
+    private getTopLevelLines(document: TextDocument, dockerfile: Dockerfile): Line[] {
+        const lines: Line[] = [];
+        const directive = dockerfile.getDirective();
+        if (directive !== null) {
+            lines.push(directive);
+        }
+        const instructions = dockerfile.getInstructions();
+        const comments = dockerfile.getComments();
+        let commentIndex = 0;
+        for (const instruction of instructions) {
+            const start = document.offsetAt(instruction.getRange().start);
+            const end = document.offsetAt(instruction.getRange().end);
+            while (commentIndex < comments.length && document.offsetAt(comments[commentIndex].getRange().start) < start) {
+                lines.push(comments[commentIndex]);
+                commentIndex++;
+            }
+            lines.push(instruction);
+            while (commentIndex < comments.length && document.offsetAt(comments[commentIndex].getRange().start) < end) {
+                // embedded in the instruction
+                commentIndex++;
+            }
+        }
+        for (; commentIndex < comments.length; commentIndex++) {
+            lines.push(comments[commentIndex]);
+        }
+        return lines;
+    }
+}
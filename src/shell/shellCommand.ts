@@ -0,0 +1,80 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { ShellRedirect } from './shellRedirect';
+import { ShellWord } from './shellWord';
+
+/**
+ * A simple shell command such as DEBIAN_FRONTEND=noninteractive
+ * apt-get install -y curl > /dev/null. A simple command consists of
+ * optional variable assignments, the name of the command to run, the
+ * command's arguments, and its redirects.
+ */
+export class ShellCommand {
+
+    private readonly range: Range;
+    private readonly words: ShellWord[];
+    private readonly redirects: ShellRedirect[];
+
+    constructor(range: Range, words: ShellWord[], redirects: ShellRedirect[]) {
+        this.range = range;
+        this.words = words;
+        this.redirects = redirects;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns every word of this command in the order that they were
+     * written, excluding the words of its redirects.
+     */
+    public getWords(): ShellWord[] {
+        return this.words;
+    }
+
+    /**
+     * Returns the NAME=value variable assignments that precede the
+     * name of this command.
+     */
+    public getAssignments(): ShellWord[] {
+        return this.words.slice(0, this.getNameIndex() === -1 ? this.words.length : this.getNameIndex());
+    }
+
+    /**
+     * Returns the name of the command that will be run.
+     *
+     * @return the command's name, or null if this command only
+     *         assigns variables or only has redirects
+     */
+    public getName(): ShellWord | null {
+        const index = this.getNameIndex();
+        return index === -1 ? null : this.words[index];
+    }
+
+    /**
+     * Returns the arguments that will be passed to the command.
+     */
+    public getArguments(): ShellWord[] {
+        const index = this.getNameIndex();
+        return index === -1 ? [] : this.words.slice(index + 1);
+    }
+
+    public getRedirects(): ShellRedirect[] {
+        return this.redirects;
+    }
+
+    private getNameIndex(): number {
+        for (let i = 0; i < this.words.length; i++) {
+            if (!/^[a-zA-Z_][a-zA-Z0-9_]*=/.test(this.words[i].getRawValue())) {
+                return i;
+            }
+        }
+        return -1;
+    }
+}
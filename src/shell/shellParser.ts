@@ -0,0 +1,346 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { ShellCommand } from './shellCommand';
+import { ShellPipeline } from './shellPipeline';
+import { ShellRedirect } from './shellRedirect';
+import { ShellScript } from './shellScript';
+import { ShellWord } from './shellWord';
+
+interface Token {
+
+    type: "word" | "operator" | "number";
+
+    value: string;
+
+    start: number;
+
+    end: number;
+}
+
+/**
+ * Parses the shell command of an instruction in shell form into a
+ * ShellScript. The parser follows the POSIX shell grammar for lists,
+ * pipelines, simple commands, and redirects. Compound commands are
+ * not modeled. The commands inside a subshell or a { } group will be
+ * added to the enclosing list, and the reserved words that start or
+ * end an if, while, or until command will be skipped so that the
+ * commands that they contain can still be found. Malformed input is
+ * parsed leniently and will not cause any errors.
+ */
+export class ShellParser {
+
+    private static readonly OPERATORS = [ "&&", "||", ";;", "|&", "&>>", "&>", "<<-", "<<", ">>", "<&", ">&", "<>", ">|", "<", ">", "|", "&", ";", "(", ")", "\n" ];
+
+    private static readonly REDIRECTS = [ "&>>", "&>", "<<-", "<<", ">>", "<&", ">&", "<>", ">|", "<", ">" ];
+
+    /**
+     * Reserved words that will be skipped if they are in the position
+     * of a command's name.
+     */
+    private static readonly RESERVED_WORDS = [ "if", "then", "elif", "else", "fi", "while", "until", "do", "done", "{", "}" ];
+
+    private readonly document: TextDocument;
+    private readonly escapeChar: string;
+
+    private text: string;
+    private offsets: number[];
+    private tokens: Token[];
+    private index: number;
+
+    constructor(document: TextDocument, escapeChar: string) {
+        this.document = document;
+        this.escapeChar = escapeChar;
+    }
+
+    /**
+     * Parses the shell command that has been written in the given
+     * range of the document. Escaped newlines and the comments
+     * between them will be removed before the command is parsed.
+     *
+     * @param range the range of the shell command in the document
+     * @return the parsed command
+     */
+    public parse(range: Range): ShellScript {
+        this.preprocess(range);
+        this.tokenize();
+        this.index = 0;
+
+        const pipelines: ShellPipeline[] = [];
+        const operators: string[] = [];
+        let operator: string | null = null;
+        while (this.index < this.tokens.length) {
+            const pipeline = this.parsePipeline();
+            if (pipeline !== null) {
+                if (pipelines.length > 0) {
+                    operators.push(operator === null ? ";" : operator);
+                }
+                pipelines.push(pipeline);
+                operator = null;
+            }
+
+            const token = this.tokens[this.index];
+            if (token !== undefined) {
+                this.index++;
+                if (token.value === "\n") {
+                    operator = operator === null ? ";" : operator;
+                } else if (token.value !== "(" && token.value !== ")") {
+                    operator = token.value;
+                }
+            }
+        }
+        return new ShellScript(range, pipelines, operators);
+    }
+
+    /**
+     * Removes the escaped newlines and the comment lines from the
+     * given range of the document while remembering where each
+     * remaining character came from.
+     */
+    private preprocess(range: Range): void {
+        const start = this.document.offsetAt(range.start);
+        const content = this.document.getText().substring(start, this.document.offsetAt(range.end));
+        this.text = "";
+        this.offsets = [];
+        let lineStart = false;
+        for (let i = 0; i < content.length; i++) {
+            const char = content.charAt(i);
+            if (lineStart) {
+                const comment = /^[ \t]*#[^\n]*(\n|$)/.exec(content.substring(i));
+                if (comment !== null) {
+                    i += comment[0].length - 1;
+                    continue;
+                }
+                lineStart = false;
+            }
+
+            if (char === this.escapeChar) {
+                const continuation = /^[ \t]*\r?\n/.exec(content.substring(i + 1));
+                if (continuation !== null) {
+                    i += continuation[0].length;
+                    lineStart = true;
+                    continue;
+                }
+            }
+            this.text += char;
+            this.offsets.push(start + i);
+        }
+    }
+
+    private tokenize(): void {
+        this.tokens = [];
+        let i = 0;
+        tokenLoop: while (i < this.text.length) {
+            const char = this.text.charAt(i);
+            if (char === ' ' || char === '\t' || char === '\r') {
+                i++;
+                continue;
+            } else if (char === '#') {
+                while (i < this.text.length && this.text.charAt(i) !== '\n') {
+                    i++;
+                }
+                continue;
+            }
+
+            for (const operator of ShellParser.OPERATORS) {
+                if (this.text.substring(i, i + operator.length) === operator) {
+                    this.tokens.push({ type: "operator", value: operator, start: i, end: i + operator.length });
+                    i += operator.length;
+                    continue tokenLoop;
+                }
+            }
+
+            const end = this.findWordEnd(i);
+            const value = this.text.substring(i, end);
+            const next = this.text.charAt(end);
+            const type = /^\d+$/.test(value) && (next === '<' || next === '>') ? "number" : "word";
+            this.tokens.push({ type: type, value: value, start: i, end: end });
+            i = end;
+        }
+    }
+
+    private findWordEnd(start: number): number {
+        let i = start;
+        while (i < this.text.length) {
+            const char = this.text.charAt(i);
+            if (" \t\r\n;&|<>()".indexOf(char) !== -1) {
+                return i;
+            }
+            i = ShellParser.skip(this.text, i);
+        }
+        return i;
+    }
+
+    /**
+     * Skips over the character at the given index. If the character
+     * starts a quoted string, an escape sequence, a command
+     * substitution, or a parameter expansion, all of it is skipped.
+     *
+     * @return the index after the skipped characters
+     */
+    private static skip(text: string, i: number): number {
+        const char = text.charAt(i);
+        const next = text.charAt(i + 1);
+        if (char === '\\') {
+            return Math.min(i + 2, text.length);
+        } else if (char === '\'') {
+            const end = text.indexOf('\'', i + 1);
+            return end === -1 ? text.length : end + 1;
+        } else if (char === '"' || char === '`') {
+            for (let j = i + 1; j < text.length;) {
+                const current = text.charAt(j);
+                if (current === char) {
+                    return j + 1;
+                } else if (current === '\\') {
+                    j += 2;
+                } else if (char === '"' && current === '$') {
+                    j = ShellParser.skip(text, j);
+                } else {
+                    j++;
+                }
+            }
+            return text.length;
+        } else if (char === '$' && (next === '(' || next === '{')) {
+            const close = next === '(' ? ')' : '}';
+            let depth = 0;
+            for (let j = i + 1; j < text.length;) {
+                const current = text.charAt(j);
+                if (current === next) {
+                    depth++;
+                    j++;
+                } else if (current === close) {
+                    depth--;
+                    j++;
+                    if (depth === 0) {
+                        return j;
+                    }
+                } else {
+                    j = ShellParser.skip(text, j);
+                }
+            }
+            return text.length;
+        }
+        return i + 1;
+    }
+
+    private parsePipeline(): ShellPipeline | null {
+        const commands: ShellCommand[] = [];
+        let negated = false;
+        let first: Token | null = null;
+        while (this.index < this.tokens.length) {
+            const token = this.tokens[this.index];
+            if (token.type === "word" && token.value === "!" && commands.length === 0) {
+                negated = true;
+                first = first === null ? token : first;
+                this.index++;
+                continue;
+            } else if (token.type === "word" && ShellParser.RESERVED_WORDS.indexOf(token.value) !== -1) {
+                // skip reserved words that are in the position of a command's name
+                this.index++;
+                continue;
+            }
+
+            const command = this.parseCommand();
+            if (command !== null) {
+                commands.push(command);
+            }
+            const separator = this.tokens[this.index];
+            if (separator === undefined || (separator.value !== "|" && separator.value !== "|&")) {
+                break;
+            }
+            this.index++;
+        }
+
+        if (commands.length === 0) {
+            return null;
+        }
+        const start = first === null ? commands[0].getRange().start : this.createRange(first.start, first.end).start;
+        return new ShellPipeline(Range.create(start, commands[commands.length - 1].getRange().end), commands, negated);
+    }
+
+    private parseCommand(): ShellCommand | null {
+        const words: ShellWord[] = [];
+        const redirects: ShellRedirect[] = [];
+        let start = -1;
+        let end = -1;
+        while (this.index < this.tokens.length) {
+            const token = this.tokens[this.index];
+            if (token.type === "word") {
+                words.push(this.createWord(token));
+                this.index++;
+            } else if (token.type === "number" || ShellParser.REDIRECTS.indexOf(token.value) !== -1) {
+                const fileDescriptor = token.type === "number" ? token.value : null;
+                const operator = token.type === "number" ? this.tokens[this.index + 1] : token;
+                this.index += token.type === "number" ? 2 : 1;
+                const next = this.tokens[this.index];
+                let target: ShellWord | null = null;
+                let redirectEnd = operator.end;
+                if (next !== undefined && next.type === "word") {
+                    target = this.createWord(next);
+                    redirectEnd = next.end;
+                    this.index++;
+                }
+                redirects.push(new ShellRedirect(this.createRange(token.start, redirectEnd), operator.value, fileDescriptor, target));
+                end = Math.max(end, redirectEnd);
+            } else {
+                break;
+            }
+            start = start === -1 ? token.start : start;
+            end = Math.max(end, token.end);
+        }
+
+        if (start === -1) {
+            return null;
+        }
+        return new ShellCommand(this.createRange(start, end), words, redirects);
+    }
+
+    private createWord(token: Token): ShellWord {
+        return new ShellWord(token.value, this.removeQuotes(token.value), this.createRange(token.start, token.end));
+    }
+
+    /**
+     * Removes the quotes and escape characters of the given word.
+     * Command substitutions and parameter expansions are kept as is.
+     */
+    private removeQuotes(word: string): string {
+        let value = "";
+        let inDouble = false;
+        for (let i = 0; i < word.length; i++) {
+            const char = word.charAt(i);
+            const next = word.charAt(i + 1);
+            if (char === '\\') {
+                if (!inDouble || "$`\"\\\n".indexOf(next) !== -1) {
+                    value += next;
+                } else {
+                    value += char + next;
+                }
+                i++;
+            } else if (char === '"') {
+                inDouble = !inDouble;
+            } else if (char === '\'' && !inDouble) {
+                const end = word.indexOf('\'', i + 1);
+                value += word.substring(i + 1, end === -1 ? word.length : end);
+                i = end === -1 ? word.length : end;
+            } else if (char === '`' || (char === '$' && (next === '(' || next === '{'))) {
+                const end = ShellParser.skip(word, i);
+                value += word.substring(i, end);
+                i = end - 1;
+            } else {
+                value += char;
+            }
+        }
+        return value;
+    }
+
+    private createRange(start: number, end: number): Range {
+        return Range.create(
+            this.document.positionAt(this.offsets[start]),
+            this.document.positionAt(this.offsets[end - 1] + 1)
+        );
+    }
+}
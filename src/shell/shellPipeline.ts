@@ -0,0 +1,45 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { ShellCommand } from './shellCommand';
+
+/**
+ * A sequence of shell commands where the output of each command is
+ * piped into the next command, such as curl -sSL $URL | sh.
+ */
+export class ShellPipeline {
+
+    private readonly range: Range;
+    private readonly commands: ShellCommand[];
+    private readonly negated: boolean;
+
+    constructor(range: Range, commands: ShellCommand[], negated: boolean) {
+        this.range = range;
+        this.commands = commands;
+        this.negated = negated;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the commands of this pipeline in the order that their
+     * output is piped. A pipeline without a | has a single command.
+     */
+    public getCommands(): ShellCommand[] {
+        return this.commands;
+    }
+
+    /**
+     * Returns whether the exit status of this pipeline has been
+     * inverted with a leading !.
+     */
+    public isNegated(): boolean {
+        return this.negated;
+    }
+}
@@ -0,0 +1,60 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { ShellWord } from './shellWord';
+
+/**
+ * A redirect of a shell command's input or output such as > out.txt,
+ * 2>&1, or <<EOF.
+ */
+export class ShellRedirect {
+
+    private readonly range: Range;
+    private readonly operator: string;
+    private readonly fileDescriptor: string | null;
+    private readonly target: ShellWord | null;
+
+    constructor(range: Range, operator: string, fileDescriptor: string | null, target: ShellWord | null) {
+        this.range = range;
+        this.operator = operator;
+        this.fileDescriptor = fileDescriptor;
+        this.target = target;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the redirection operator such as >, >>, <, <<, >&, or &>.
+     */
+    public getOperator(): string {
+        return this.operator;
+    }
+
+    /**
+     * Returns the number of the file descriptor that is being
+     * redirected. For 2>&1, this would be 2.
+     *
+     * @return the file descriptor's number, or null if the redirect
+     *         does not explicitly specify a file descriptor
+     */
+    public getFileDescriptor(): string | null {
+        return this.fileDescriptor;
+    }
+
+    /**
+     * Returns the file, file descriptor, or heredoc delimiter that
+     * the redirect refers to.
+     *
+     * @return the redirect's target, or null if the operator is not
+     *         followed by a word
+     */
+    public getTarget(): ShellWord | null {
+        return this.target;
+    }
+}
@@ -0,0 +1,61 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+import { ShellCommand } from './shellCommand';
+import { ShellPipeline } from './shellPipeline';
+
+/**
+ * The shell command of an instruction in shell form. The script is a
+ * list of pipelines that are separated by the &&, ||, ;, and &
+ * operators, such as apt-get update && apt-get install -y curl.
+ */
+export class ShellScript {
+
+    private readonly range: Range;
+    private readonly pipelines: ShellPipeline[];
+    private readonly operators: string[];
+
+    constructor(range: Range, pipelines: ShellPipeline[], operators: string[]) {
+        this.range = range;
+        this.pipelines = pipelines;
+        this.operators = operators;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+
+    /**
+     * Returns the pipelines of this script in the order that they
+     * were written.
+     */
+    public getPipelines(): ShellPipeline[] {
+        return this.pipelines;
+    }
+
+    /**
+     * Returns the operators that separate the pipelines of this
+     * script. The operator at index i is between the pipelines at
+     * index i and i + 1. Operators that trail the last pipeline are
+     * not included. A newline between two pipelines is returned as ;.
+     */
+    public getOperators(): string[] {
+        return this.operators;
+    }
+
+    /**
+     * Returns every simple command of this script in the order that
+     * they were written.
+     */
+    public getCommands(): ShellCommand[] {
+        const commands: ShellCommand[] = [];
+        for (const pipeline of this.pipelines) {
+            commands.push(...pipeline.getCommands());
+        }
+        return commands;
+    }
+}
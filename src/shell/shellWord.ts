@@ -0,0 +1,50 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Range } from 'vscode-languageserver-types';
+
+/**
+ * A word of a shell command, such as a command's name, one of its
+ * arguments, or the target of a redirect.
+ */
+export class ShellWord {
+
+    private readonly rawValue: string;
+    private readonly value: string;
+    private readonly range: Range;
+
+    constructor(rawValue: string, value: string, range: Range) {
+        this.rawValue = rawValue;
+        this.value = value;
+        this.range = range;
+    }
+
+    public toString(): string {
+        return this.rawValue;
+    }
+
+    /**
+     * Returns the word as it was written in the Dockerfile with its
+     * quotes and escape characters. Escaped newlines and the comments
+     * between them will not be included.
+     */
+    public getRawValue(): string {
+        return this.rawValue;
+    }
+
+    /**
+     * Returns the word with its quotes and escape characters removed.
+     * Parameter expansions and command substitutions such as $HOME
+     * and $(pwd) will be left as is.
+     */
+    public getValue(): string {
+        return this.value;
+    }
+
+    public getRange(): Range {
+        return this.range;
+    }
+}
@@ -4,7 +4,8 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { Range, Position } from 'vscode-languageserver-types';
+import { TextDocument, Range, Position } from 'vscode-languageserver-types';
+import { Heredoc } from './heredoc';
 
 export class Util {
     public static isWhitespace(char: string): boolean {
@@ -65,4 +66,195 @@ export class Util {
         }
         return range.start.line < position.line && position.line < range.end.line;
     }
+
+    /**
+     * Parses the heredocs that have been declared by an instruction.
+     * Markers are only searched for on the instruction's first logical
+     * line and only at the start of a word that is neither quoted nor
+     * within an arithmetic expansion such as $((1<<2)). The bodies of
+     * the heredocs are then read sequentially from the lines that
+     * follow it.
+     * 
+     * @param document the document that contains the instruction
+     * @param escapeChar the escape character of the Dockerfile
+     * @param start the offset in the document to start searching for
+     *              heredoc markers from, should be after the
+     *              instruction's keyword
+     * @param limit the offset that the heredoc bodies must not go past
+     * @return the heredocs that have been declared, or an empty array
+     *         if there are none
+     */
+    public static parseHeredocs(document: TextDocument, escapeChar: string, start: number, limit: number): Heredoc[] {
+        const text = document.getText();
+        const markers = [];
+        let escaped = false;
+        let lineStart = start;
+        let bodyStart = -1;
+        // the state of the shell's tokens that may span escaped lines
+        let quote: string | null = null;
+        let arithmeticDepth = 0;
+        let wordStart = true;
+        while (lineStart < limit) {
+            let newline = text.indexOf('\n', lineStart);
+            if (newline === -1 || newline > limit) {
+                newline = limit;
+            }
+            let lineEnd = newline;
+            if (lineEnd > lineStart && text.charAt(lineEnd - 1) === '\r') {
+                lineEnd--;
+            }
+            const line = text.substring(lineStart, lineEnd);
+            const trimmed = line.trim();
+            if (escaped && (trimmed.length === 0 || trimmed.charAt(0) === '#')) {
+                // empty lines and comments do not end an escaped instruction
+                lineStart = newline + 1;
+                continue;
+            }
+
+            for (let i = 0; i < line.length; i++) {
+                const char = line.charAt(i);
+                if (quote !== null) {
+                    if (char === quote) {
+                        quote = null;
+                    } else if (char === '\\' && quote === '"') {
+                        i++;
+                    }
+                    continue;
+                } else if (arithmeticDepth > 0) {
+                    // a << in $((...)) is a bitwise shift
+                    if (char === '(') {
+                        arithmeticDepth++;
+                    } else if (char === ')') {
+                        arithmeticDepth--;
+                    }
+                    continue;
+                }
+
+                switch (char) {
+                    case '\\':
+                        i++;
+                        wordStart = false;
+                        continue;
+                    case '\'':
+                    case '"':
+                        quote = char;
+                        wordStart = false;
+                        continue;
+                    case '$':
+                        if (line.substring(i + 1, i + 3) === "((") {
+                            arithmeticDepth = 2;
+                            i += 2;
+                        }
+                        wordStart = false;
+                        continue;
+                    case ' ':
+                    case '\t':
+                    case ';':
+                    case '&':
+                    case '|':
+                    case '(':
+                    case ')':
+                        wordStart = true;
+                        continue;
+                }
+
+                if (wordStart) {
+                    // only a << at the start of a word declares a heredoc,
+                    // <<< here-strings are not matched as < cannot be in a name
+                    const match = /^\d*<<(-?)(["']?)([^\s"'<>|&;()]+)\2/.exec(line.substring(i));
+                    if (match !== null) {
+                        const markerStart = lineStart + i + match[0].indexOf("<<");
+                        markers.push({
+                            start: markerStart,
+                            end: lineStart + i + match[0].length,
+                            nameStart: markerStart + 2 + match[1].length + match[2].length,
+                            name: match[3],
+                            quoted: match[2].length > 0,
+                            stripTabs: match[1].length > 0
+                        });
+                        i += match[0].length - 1;
+                    }
+                }
+                wordStart = false;
+            }
+
+            escaped = trimmed.length > 0 && trimmed.charAt(trimmed.length - 1) === escapeChar;
+            if (!escaped) {
+                bodyStart = newline + 1;
+                break;
+            }
+            lineStart = newline + 1;
+            wordStart = true;
+        }
+
+        const heredocs = [];
+        if (markers.length === 0) {
+            return heredocs;
+        }
+        if (bodyStart === -1 || bodyStart > limit) {
+            bodyStart = limit;
+        }
+
+        for (const marker of markers) {
+            let current = bodyStart;
+            let terminatorRange = null;
+            let bodyEnd = limit;
+            while (current < limit) {
+                let newline = text.indexOf('\n', current);
+                if (newline === -1 || newline > limit) {
+                    newline = limit;
+                }
+                let lineEnd = newline;
+                if (lineEnd > current && text.charAt(lineEnd - 1) === '\r') {
+                    lineEnd--;
+                }
+                const line = text.substring(current, lineEnd);
+                const candidate = marker.stripTabs ? line.replace(/^\t+/, "") : line;
+                if (candidate === marker.name) {
+                    bodyEnd = current;
+                    terminatorRange = Range.create(document.positionAt(lineEnd - candidate.length), document.positionAt(lineEnd));
+                    current = newline + 1;
+                    break;
+                }
+                current = newline + 1;
+            }
+
+            heredocs.push(new Heredoc(
+                document,
+                Range.create(document.positionAt(marker.start), document.positionAt(marker.end)),
+                Range.create(document.positionAt(marker.nameStart), document.positionAt(marker.nameStart + marker.name.length)),
+                Range.create(document.positionAt(bodyStart), document.positionAt(bodyEnd)),
+                terminatorRange,
+                marker.quoted,
+                marker.stripTabs
+            ));
+            bodyStart = Math.min(current, limit);
+        }
+        return heredocs;
+    }
+
+    /**
+     * Cleans a slash-separated path in the same way as Go's
+     * filepath.Clean function. Repeated slashes and . segments are
+     * removed and .. segments are resolved against the segment that
+     * precedes them. A rooted path will stay rooted and an empty path
+     * will be cleaned into a single dot.
+     */
+    public static cleanPath(path: string): string {
+        const rooted = path.charAt(0) === '/';
+        const segments: string[] = [];
+        for (const segment of path.split('/')) {
+            if (segment === "..") {
+                if (segments.length > 0 && segments[segments.length - 1] !== "..") {
+                    segments.pop();
+                } else if (!rooted) {
+                    segments.push(segment);
+                }
+            } else if (segment !== "" && segment !== ".") {
+                segments.push(segment);
+            }
+        }
+        const cleaned = (rooted ? "/" : "") + segments.join('/');
+        return cleaned === "" ? "." : cleaned;
+    }
 }
@@ -11,18 +11,20 @@ export class Variable {
     private readonly range: Range;
     private readonly modifier: string | null;
     private readonly modifierRange: Range | null;
+    private readonly operator: string | null;
     private readonly substitutionParameter: string | null;
     private readonly substitutionRange: Range | null;
     private readonly defined: boolean | undefined;
     private readonly buildVariable: boolean;
     private readonly stringValue: string;
 
-    constructor(name: string, nameRange: Range, range: Range, modifier: string | null, modifierRange: Range | null, substitutionParameter: string | null, substitutionRange: Range | null, defined: boolean | undefined, buildVariable: boolean, stringValue: string) {
+    constructor(name: string, nameRange: Range, range: Range, modifier: string | null, modifierRange: Range | null, operator: string | null, substitutionParameter: string | null, substitutionRange: Range | null, defined: boolean | undefined, buildVariable: boolean, stringValue: string) {
         this.name = name;
         this.nameRange = nameRange;
         this.range = range;
         this.modifier = modifier;
         this.modifierRange = modifierRange;
+        this.operator = operator;
         this.substitutionParameter = substitutionParameter;
         this.substitutionRange = substitutionRange;
         this.defined = defined;
@@ -62,6 +64,10 @@ export class Variable {
      * variable will not use variable substitution at all (such as
      * ${variable} or $variable).
      * 
+     * If the modifier is not preceded by a colon then the entire
+     * operator is returned. Thus, the modifier of ${variable##*.}
+     * would be '##'.
+     * 
      * @return this variable's modifier character, or the empty
      *         string if it does not have one, or null if this
      *         variable will not use variable substitution
@@ -74,6 +80,20 @@ export class Variable {
         return this.modifierRange;
     }
 
+    /**
+     * Returns the operator that determines how this variable will be
+     * expanded. The supported operators are :-, :+, :?, -, +, ?, #,
+     * ##, %, %%, /, and //. Unlike getModifier(), the operator will
+     * include the colon if one has been declared. If this variable is
+     * ${variable:-value} then the operator is ':-'.
+     * 
+     * @return this variable's operator, or null if it does not have
+     *         one or if its modifier is not supported
+     */
+    public getOperator(): string | null {
+        return this.operator;
+    }
+
     /**
      * Returns the parameter that will be used for substitution if
      * this variable uses modifiers to define how its value should be
@@ -482,6 +482,82 @@ describe("Argument", () => {
             assert.equal(args[0].toString(), "'1234'");
             assertRange(args[0].getRange(), 2, 7, 2, 17);
         });
+
+        function assertExpanded(content: string, expected: string) {
+            const dockerfile = DockerfileParser.parse(content);
+            const instructions = dockerfile.getInstructions();
+            const args = instructions[instructions.length - 1].getExpandedArguments();
+            assert.equal(args[args.length - 1].getValue(), expected);
+        }
+
+        it(":- and -", () => {
+            assertExpanded("RUN echo ${var:-default}", "default");
+            assertExpanded("RUN echo ${var-default}", "default");
+            assertExpanded("ARG var\nRUN echo ${var:-default}", "default");
+            assertExpanded("ENV var=\nRUN echo ${var:-default}", "default");
+            assertExpanded("ENV var=\nRUN echo ${var-default}", "");
+            assertExpanded("ENV var=value\nRUN echo ${var:-default}", "value");
+            assertExpanded("ENV var=value\nRUN echo ${var-default}", "value");
+            assertExpanded("RUN echo ${var:-}", "");
+        });
+
+        it(":+ and +", () => {
+            assertExpanded("RUN echo a${var:+alternate}b", "ab");
+            assertExpanded("RUN echo a${var+alternate}b", "ab");
+            assertExpanded("ENV var=\nRUN echo a${var:+alternate}b", "ab");
+            assertExpanded("ENV var=\nRUN echo a${var+alternate}b", "aalternateb");
+            assertExpanded("ENV var=value\nRUN echo a${var:+alternate}b", "aalternateb");
+        });
+
+        it(":? and ?", () => {
+            assertExpanded("RUN echo ${var:?error}", "${var:?error}");
+            assertExpanded("ENV var=\nRUN echo ${var:?error}", "${var:?error}");
+            assertExpanded("ENV var=\nRUN echo a${var?error}b", "ab");
+            assertExpanded("ENV var=value\nRUN echo ${var:?error}", "value");
+        });
+
+        it("# and ##", () => {
+            assertExpanded("ENV path=/usr/local/bin\nRUN echo ${path#*/}", "usr/local/bin");
+            assertExpanded("ENV path=/usr/local/bin\nRUN echo ${path##*/}", "bin");
+            assertExpanded("ENV path=/usr/local/bin\nRUN echo ${path#/usr}", "/local/bin");
+            assertExpanded("ENV path=/usr/local/bin\nRUN echo ${path#x}", "/usr/local/bin");
+            assertExpanded("RUN echo ${path##*/}", "${path##*/}");
+        });
+
+        it("% and %%", () => {
+            assertExpanded("ENV file=archive.tar.gz\nRUN echo ${file%.*}", "archive.tar");
+            assertExpanded("ENV file=archive.tar.gz\nRUN echo ${file%%.*}", "archive");
+            assertExpanded("ENV file=archive.tar.gz\nRUN echo ${file%.t?r.gz}", "archive");
+            assertExpanded("ENV file=archive.tar.gz\nRUN echo ${file%[gx]z}", "archive.tar.");
+        });
+
+        it("/ and //", () => {
+            assertExpanded("ENV v=a-b-c\nRUN echo ${v/-/_}", "a_b-c");
+            assertExpanded("ENV v=a-b-c\nRUN echo ${v//-/_}", "a_b_c");
+            assertExpanded("ENV v=a-b-c\nRUN echo ${v//-}", "abc");
+            assertExpanded("ENV v=a-b-c\nRUN echo ${v/b*/x}", "a-x");
+            assertExpanded("ENV v=a-b-c\nRUN echo ${v//?/x}", "xxxxx");
+        });
+
+        it("escaped characters in / and //", () => {
+            assertExpanded("ENV P=/usr/local/bin\nRUN echo ${P//\\//:}", ":usr:local:bin");
+            assertExpanded("ENV P=/usr/local/bin\nRUN echo ${P/\\//}", "usr/local/bin");
+            assertExpanded("ENV v=a}b\nRUN echo ${v/\\}/-}", "a-b");
+            assertExpanded("# escape=`\nENV P=/usr/local/bin\nRUN echo ${P//`//:}", ":usr:local:bin");
+        });
+
+        it("nested variables", () => {
+            assertExpanded("ENV b=value\nRUN echo ${a:-${b}}", "value");
+            assertExpanded("ENV b=value\nRUN echo ${a:-x${b:+y$b}z}", "xyvaluez");
+            assertExpanded("RUN echo ${a:-${b:-${c:-deep}}}", "deep");
+            assertExpanded("ENV a=1\nRUN echo ${a:+${b}}", "${b}");
+            assertExpanded("ENV v=1.2.3 sep=.\nRUN echo ${v//$sep/-}", "1-2-3");
+        });
+
+        it("unsupported modifiers use the variable's value", () => {
+            assertExpanded("ENV var=value\nRUN echo ${var:x}", "value");
+            assertExpanded("RUN echo ${var:x}", "${var:x}");
+        });
     });
 
     it("isBefore", () => {
@@ -0,0 +1,98 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { DockerfileParser } from '../src/main';
+
+describe("BuildStage", () => {
+    it("getBuildStages", () => {
+        const dockerfile = DockerfileParser.parse("ARG version=3.10\nFROM alpine:$version AS base\n# comment\nRUN ls\nFROM base AS build\nCMD ls\nFROM scratch");
+        const buildStages = dockerfile.getBuildStages();
+        assert.equal(buildStages.length, 3);
+
+        assert.equal(buildStages[0].getIndex(), 0);
+        assert.equal(buildStages[0].getName(), "base");
+        assert.equal(buildStages[0].getFrom(), dockerfile.getFROMs()[0]);
+        assert.equal(buildStages[0].getParent(), null);
+        assert.equal(buildStages[0].getInstructions().length, 2);
+        assert.equal(buildStages[0].getComments().length, 1);
+        assert.equal(buildStages[0].getComments()[0].getContent(), "comment");
+        assertRange(buildStages[0].getRange(), 1, 0, 3, 6);
+
+        assert.equal(buildStages[1].getIndex(), 1);
+        assert.equal(buildStages[1].getName(), "build");
+        assert.equal(buildStages[1].getParent(), buildStages[0]);
+        assert.equal(buildStages[1].getCMDs().length, 1);
+        assert.equal(buildStages[1].getComments().length, 0);
+
+        assert.equal(buildStages[2].getIndex(), 2);
+        assert.equal(buildStages[2].getName(), null);
+        assert.equal(buildStages[2].getParent(), null);
+        assert.equal(buildStages[2].getInstructions().length, 1);
+    });
+
+    it("getParent", () => {
+        const dockerfile = DockerfileParser.parse("FROM node AS node\nFROM NODE\nFROM later\nFROM alpine AS later\nFROM 0\nFROM");
+        const buildStages = dockerfile.getBuildStages();
+        assert.equal(buildStages[0].getParent(), null);
+        assert.equal(buildStages[1].getParent(), buildStages[0]);
+        assert.equal(buildStages[2].getParent(), null);
+        assert.equal(buildStages[4].getParent(), null);
+        assert.equal(buildStages[5].getParent(), null);
+    });
+
+    it("getBuildStage", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine AS Base\nFROM scratch");
+        const buildStages = dockerfile.getBuildStages();
+        assert.equal(dockerfile.getBuildStage("base"), buildStages[0]);
+        assert.equal(dockerfile.getBuildStage("BASE"), buildStages[0]);
+        assert.equal(dockerfile.getBuildStage(0), buildStages[0]);
+        assert.equal(dockerfile.getBuildStage("1"), buildStages[1]);
+        assert.equal(dockerfile.getBuildStage(2), null);
+        assert.strictEqual(dockerfile.getBuildStage(-1), null);
+        assert.equal(dockerfile.getBuildStage("alpine"), null);
+    });
+
+    it("getInitialInstructions", () => {
+        let dockerfile = DockerfileParser.parse("# comment\nARG a\nARG b\nFROM alpine\nARG c");
+        let initial = dockerfile.getInitialInstructions();
+        assert.equal(initial.getInstructions().length, 2);
+        assert.equal(initial.getARGs()[1].getProperty().getName(), "b");
+        assert.equal(initial.getComments().length, 0);
+        assertRange(initial.getRange(), 1, 0, 2, 5);
+
+        dockerfile = DockerfileParser.parse("FROM alpine");
+        initial = dockerfile.getInitialInstructions();
+        assert.equal(initial.getInstructions().length, 0);
+        assert.equal(dockerfile.getBuildStages().length, 1);
+    });
+
+    it("getContainerArgv", () => {
+        const content = "FROM alpine AS base\nCMD [ \"--help\" ]\nFROM base AS app\nENTRYPOINT [ \"app\" ]\nCMD [ \"run\" ]\nFROM app\nENTRYPOINT app start\nFROM base AS inherit\nFROM alpine";
+        const buildStages = DockerfileParser.parse(content).getBuildStages();
+        assert.deepStrictEqual(buildStages[0].getContainerArgv(), [ "--help" ]);
+        assert.deepStrictEqual(buildStages[1].getContainerArgv(), [ "app", "run" ]);
+        assert.deepStrictEqual(buildStages[2].getContainerArgv(), [ "/bin/sh", "-c", "app start" ]);
+        assert.deepStrictEqual(buildStages[3].getContainerArgv(), [ "--help" ]);
+        assert.deepStrictEqual(buildStages[4].getContainerArgv(), []);
+    });
+
+    it("getEffectiveUser", () => {
+        const content = "FROM alpine AS base\nARG uid=1000\nRUN id\nUSER ${uid}:staff\nRUN id\nFROM base\nRUN id\nUSER root\nFROM alpine\nONBUILD USER node\nFROM alpine\nRUN id";
+        const buildStages = DockerfileParser.parse(content).getBuildStages();
+        assert.equal(buildStages[0].getEffectiveUser(2), null);
+        assert.equal(buildStages[0].getEffectiveUser(3), null);
+        assert.equal(buildStages[0].getEffectiveUser(4), "1000:staff");
+        assert.equal(buildStages[0].getEffectiveUser(), "1000:staff");
+        assert.equal(buildStages[1].getEffectiveUser(6), "1000:staff");
+        assert.equal(buildStages[1].getEffectiveUser(), "root");
+        assert.equal(buildStages[2].getEffectiveUser(), null);
+        assert.equal(buildStages[3].getEffectiveUser(), null);
+
+        const dockerfile = DockerfileParser.parse("FROM alpine\nENV A=1\nENV B=$A\nUSER $B");
+        assert.equal(dockerfile.getBuildStages()[0].getEffectiveUser(), "1");
+    });
+});
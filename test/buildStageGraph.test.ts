@@ -0,0 +1,141 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { BuildStageDependency, BuildStageNode, DockerfileParser } from '../src/main';
+
+function names(nodes: BuildStageNode[]): string[] {
+    return nodes.map(node => node.toString());
+}
+
+describe("BuildStageGraph", () => {
+    it("nodes", () => {
+        const dockerfile = DockerfileParser.parse("ARG version=3.10\nFROM alpine:$version AS Base\nRUN ls\nFROM scratch");
+        const graph = dockerfile.getBuildStageGraph();
+        const nodes = graph.getNodes();
+        assert.equal(nodes.length, 2);
+        assert.equal(nodes[0].getIndex(), 0);
+        assert.equal(nodes[0].getName(), "Base");
+        assertRange(nodes[0].getNameRange(), 1, 24, 1, 28);
+        assert.equal(nodes[0].getBaseImage(), "alpine:$version");
+        assertRange(nodes[0].getBaseImageRange(), 1, 5, 1, 20);
+        assert.equal(nodes[0].getBuildStage().getRUNs().length, 1);
+        assert.equal(nodes[1].getIndex(), 1);
+        assert.equal(nodes[1].getName(), null);
+        assert.equal(nodes[1].getNameRange(), null);
+        assert.equal(nodes[1].getBaseImage(), "scratch");
+
+        assert.equal(graph.getNode("base"), nodes[0]);
+        assert.equal(graph.getNode(1), nodes[1]);
+        assert.equal(graph.getNode("1"), nodes[1]);
+        assert.equal(graph.getNode(2), null);
+        assert.equal(graph.getNode("alpine"), null);
+        assert.equal(graph.getEdges().length, 0);
+    });
+
+    it("edges", () => {
+        const dockerfile = DockerfileParser.parse(
+            "FROM alpine AS base\n" +
+            "FROM base AS build\n" +
+            "RUN --mount=type=cache,target=/a --mount=from=BASE,target=/b ls\n" +
+            "FROM nginx\n" +
+            "COPY --from=build /a /a\n" +
+            "COPY --from=0 /b /b\n" +
+            "COPY --from=busybox /c /c"
+        );
+        const graph = dockerfile.getBuildStageGraph();
+        const nodes = graph.getNodes();
+        const edges = graph.getEdges();
+        assert.equal(edges.length, 4);
+        assert.equal(edges[0].getType(), BuildStageDependency.FROM);
+        assert.equal(edges[0].getDependent(), nodes[1]);
+        assert.equal(edges[0].getDependency(), nodes[0]);
+        assert.equal(edges[0].getReference(), "base");
+        assertRange(edges[0].getRange(), 1, 5, 1, 9);
+        assert.equal(edges[0].getInstruction(), nodes[1].getFrom());
+        assert.equal(edges[1].getType(), BuildStageDependency.MOUNT);
+        assert.equal(edges[1].getDependency(), nodes[0]);
+        assert.equal(edges[1].getReference(), "BASE");
+        assertRange(edges[1].getRange(), 2, 46, 2, 50);
+        assert.equal(edges[2].getType(), BuildStageDependency.COPY);
+        assert.equal(edges[2].getDependent(), nodes[2]);
+        assert.equal(edges[2].getDependency(), nodes[1]);
+        assertRange(edges[2].getRange(), 4, 12, 4, 17);
+        assert.equal(edges[3].getDependency(), nodes[0]);
+        assert.equal(edges[3].getReference(), "0");
+
+        assert.equal(graph.getDependencies(nodes[2]).length, 2);
+        assert.equal(graph.getDependents(nodes[0]).length, 3);
+        assert.equal(graph.getUnknownReferences().length, 0);
+        assert.deepStrictEqual(graph.getCycles(), []);
+    });
+
+    it("FROM only refers to earlier build stages", () => {
+        const dockerfile = DockerfileParser.parse("FROM node AS node\nFROM later\nFROM alpine AS later");
+        const graph = dockerfile.getBuildStageGraph();
+        assert.equal(graph.getEdges().length, 0);
+        assert.deepStrictEqual(graph.getCycles(), []);
+    });
+
+    it("unknown build stages", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nCOPY --from=1 /a /a\nRUN --mount=from=3 ls");
+        const graph = dockerfile.getBuildStageGraph();
+        const unknown = graph.getUnknownReferences();
+        assert.equal(unknown.length, 2);
+        assert.equal(unknown[0].getReference(), "1");
+        assert.equal(unknown[0].getDependency(), null);
+        assertRange(unknown[0].getRange(), 1, 12, 1, 13);
+        assert.equal(unknown[1].getReference(), "3");
+        assert.deepStrictEqual(names(graph.getTopologicalOrder()), [ "0" ]);
+    });
+
+    it("getTopologicalOrder", () => {
+        const dockerfile = DockerfileParser.parse(
+            "FROM alpine AS final\n" +
+            "COPY --from=build /a /a\n" +
+            "FROM alpine AS build\n" +
+            "COPY --from=deps /b /b\n" +
+            "FROM alpine AS deps\n" +
+            "FROM alpine AS other"
+        );
+        const graph = dockerfile.getBuildStageGraph();
+        assert.deepStrictEqual(names(graph.getTopologicalOrder()), [ "deps", "build", "final", "other" ]);
+    });
+
+    it("getCycles", () => {
+        const dockerfile = DockerfileParser.parse(
+            "FROM alpine AS a\n" +
+            "COPY --from=c /a /a\n" +
+            "FROM a AS b\n" +
+            "FROM b AS c\n" +
+            "FROM alpine AS d\n" +
+            "COPY --from=d /d /d"
+        );
+        const graph = dockerfile.getBuildStageGraph();
+        const cycles = graph.getCycles();
+        assert.equal(cycles.length, 2);
+        assert.deepStrictEqual(names(cycles[0]), [ "a", "b", "c" ]);
+        assert.deepStrictEqual(names(cycles[1]), [ "d" ]);
+        assert.equal(graph.getTopologicalOrder(), null);
+        assert.deepStrictEqual(names(graph.getRequiredStages("b")), [ "a", "b", "c" ]);
+    });
+
+    it("getRequiredStages", () => {
+        const dockerfile = DockerfileParser.parse(
+            "FROM alpine AS base\n" +
+            "FROM base AS test\n" +
+            "FROM golang AS build\n" +
+            "RUN --mount=from=base ls\n" +
+            "FROM scratch\n" +
+            "COPY --from=build /a /a"
+        );
+        const graph = dockerfile.getBuildStageGraph();
+        assert.deepStrictEqual(names(graph.getRequiredStages(3)), [ "base", "build", "3" ]);
+        assert.deepStrictEqual(names(graph.getRequiredStages("TEST")), [ "base", "test" ]);
+        assert.deepStrictEqual(names(graph.getRequiredStages("base")), [ "base" ]);
+        assert.equal(graph.getRequiredStages("missing"), null);
+    });
+});
@@ -0,0 +1,246 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { Add, BuildContext, CopyResolution, CopySource, DockerfileParser, DockerignoreParser, SourceOrigin } from '../src/main';
+
+const files = [
+    "Dockerfile",
+    "README.md",
+    "package.json",
+    "src/main.ts",
+    "src/util.ts",
+    "src/lib/parser.ts",
+    "docs/index.md",
+    "docs/private/notes.md",
+    "empty/"
+];
+
+function resolve(content: string, context?: BuildContext): CopyResolution {
+    const dockerfile = DockerfileParser.parse(content);
+    const copies = dockerfile.getCOPYs();
+    if (context === undefined) {
+        context = { files: files };
+    }
+    for (const instruction of dockerfile.getInstructions()) {
+        if (instruction instanceof Add) {
+            return instruction.resolve(context);
+        }
+    }
+    return copies[0].resolve(context);
+}
+
+function assertTargets(source: CopySource, expected: { [path: string]: string }) {
+    assert.deepStrictEqual(source.getPaths(), Object.keys(expected).sort());
+    for (const path of Object.keys(expected)) {
+        assert.equal(source.getTarget(path), expected[path], path);
+    }
+}
+
+describe("CopyResolution", () => {
+    it("file", () => {
+        const resolution = resolve("FROM alpine\nCOPY package.json /app/package.json");
+        assert.equal(resolution.getDestination(), "/app/package.json");
+        assertRange(resolution.getDestinationRange(), 1, 18, 1, 35);
+        const sources = resolution.getSources();
+        assert.equal(sources.length, 1);
+        assert.equal(sources[0].getValue(), "package.json");
+        assert.equal(sources[0].getOrigin(), SourceOrigin.CONTEXT);
+        assert.equal(sources[0].getBuildStage(), null);
+        assertRange(sources[0].getRange(), 1, 5, 1, 17);
+        assertTargets(sources[0], { "package.json": "/app/package.json" });
+        assert.equal(sources[0].getTarget("README.md"), null);
+        assert.equal(sources[0].isUnmatched(), false);
+        assert.equal(resolution.getUnmatchedSources().length, 0);
+    });
+
+    it("file into a directory", () => {
+        const resolution = resolve("FROM alpine\nCOPY README.md package.json /app");
+        assertTargets(resolution.getSources()[0], { "README.md": "/app/README.md" });
+        assertTargets(resolution.getSources()[1], { "package.json": "/app/package.json" });
+        assertTargets(resolve("FROM alpine\nCOPY ./src/main.ts /app/").getSources()[0], { "src/main.ts": "/app/main.ts" });
+    });
+
+    it("directory", () => {
+        const sources = resolve("FROM alpine\nCOPY src /app/src").getSources();
+        assertTargets(sources[0], {
+            "src/lib/parser.ts": "/app/src/lib/parser.ts",
+            "src/main.ts": "/app/src/main.ts",
+            "src/util.ts": "/app/src/util.ts"
+        });
+        assert.deepStrictEqual(sources[0].getDirectories(), [ "src" ]);
+        const empty = resolve("FROM alpine\nCOPY empty /app").getSources()[0];
+        assertTargets(empty, {});
+        assert.deepStrictEqual(empty.getDirectories(), [ "empty" ]);
+        assert.equal(empty.isUnmatched(), false);
+    });
+
+    it("build context", () => {
+        const source = resolve("FROM alpine\nCOPY . .", { files: [ "a.txt", "b/c.txt" ] }).getSources()[0];
+        assertTargets(source, { "a.txt": "/a.txt", "b/c.txt": "/b/c.txt" });
+    });
+
+    it("names of object properties", () => {
+        const context = { files: [ "constructor", "toString", "__proto__/hasOwnProperty" ] };
+        assertTargets(resolve("FROM alpine\nCOPY constructor /x/", context).getSources()[0], { "constructor": "/x/constructor" });
+        assertTargets(resolve("FROM alpine\nCOPY __proto__ /x/", context).getSources()[0], { "__proto__/hasOwnProperty": "/x/hasOwnProperty" });
+        assertTargets(resolve("FROM alpine\nCOPY . /x/", context).getSources()[0], {
+            "__proto__/hasOwnProperty": "/x/__proto__/hasOwnProperty",
+            "constructor": "/x/constructor",
+            "toString": "/x/toString"
+        });
+        assert.equal(resolve("FROM alpine\nCOPY valueOf /x/", context).getSources()[0].isUnmatched(), true);
+    });
+
+    it("wildcards", () => {
+        const source = resolve("FROM alpine\nCOPY src/*.ts /app/").getSources()[0];
+        assertTargets(source, { "src/main.ts": "/app/main.ts", "src/util.ts": "/app/util.ts" });
+        assertTargets(resolve("FROM alpine\nCOPY src/*.ts /app").getSources()[0], { "src/main.ts": "/app/main.ts", "src/util.ts": "/app/util.ts" });
+        // a single match is copied to the destination itself
+        assertTargets(resolve("FROM alpine\nCOPY *.md /dst").getSources()[0], { "README.md": "/dst" });
+        assertTargets(resolve("FROM alpine\nCOPY *.md /docs/").getSources()[0], { "README.md": "/docs/README.md" });
+        assertTargets(resolve("FROM alpine\nCOPY d?cs /app").getSources()[0], {
+            "docs/index.md": "/app/index.md",
+            "docs/private/notes.md": "/app/private/notes.md"
+        });
+        assert.equal(resolve("FROM alpine\nCOPY *.go /app/").getSources()[0].isUnmatched(), true);
+    });
+
+    it("unmatched", () => {
+        const resolution = resolve("FROM alpine\nCOPY missing.txt README.md /app/");
+        const unmatched = resolution.getUnmatchedSources();
+        assert.equal(unmatched.length, 1);
+        assert.equal(unmatched[0].getValue(), "missing.txt");
+        assertRange(unmatched[0].getRange(), 1, 5, 1, 16);
+    });
+
+    it("outside of the build context", () => {
+        assertTargets(resolve("FROM alpine\nCOPY ../../README.md /").getSources()[0], { "README.md": "/README.md" });
+    });
+
+    it("dockerignore", () => {
+        const context = { files: files, dockerignore: DockerignoreParser.parse("*.md\n**/*.md\n!docs/index.md\nsrc/lib") };
+        assertTargets(resolve("FROM alpine\nCOPY . /app", context).getSources()[0], {
+            "Dockerfile": "/app/Dockerfile",
+            "docs/index.md": "/app/docs/index.md",
+            "package.json": "/app/package.json",
+            "src/main.ts": "/app/src/main.ts",
+            "src/util.ts": "/app/src/util.ts"
+        });
+        assert.equal(resolve("FROM alpine\nCOPY README.md /app", context).getSources()[0].isUnmatched(), true);
+        assert.equal(resolve("FROM alpine\nCOPY src/lib /app", context).getSources()[0].isUnmatched(), true);
+        assert.equal(resolve("FROM alpine\nCOPY docs/private /app", context).getSources()[0].isUnmatched(), true);
+    });
+
+    it("--parents", () => {
+        assertTargets(resolve("FROM alpine\nCOPY --parents src/*.ts docs /app/").getSources()[0], {
+            "src/main.ts": "/app/src/main.ts",
+            "src/util.ts": "/app/src/util.ts"
+        });
+        assertTargets(resolve("FROM alpine\nCOPY --parents src/*.ts docs /app/").getSources()[1], {
+            "docs/index.md": "/app/docs/index.md",
+            "docs/private/notes.md": "/app/docs/private/notes.md"
+        });
+        assertTargets(resolve("FROM alpine\nCOPY --parents=true src/./lib/parser.ts /app/").getSources()[0], {
+            "src/lib/parser.ts": "/app/lib/parser.ts"
+        });
+        assertTargets(resolve("FROM alpine\nCOPY --parents=false src/lib/parser.ts /app/").getSources()[0], {
+            "src/lib/parser.ts": "/app/parser.ts"
+        });
+    });
+
+    it("--exclude", () => {
+        assertTargets(resolve("FROM alpine\nCOPY --exclude=**/*.md --exclude=src/lib . /app/").getSources()[0], {
+            "Dockerfile": "/app/Dockerfile",
+            "package.json": "/app/package.json",
+            "src/main.ts": "/app/src/main.ts",
+            "src/util.ts": "/app/src/util.ts"
+        });
+        assertTargets(resolve("FROM alpine\nCOPY --exclude=docs/* . /app/").getSources()[0], {
+            "Dockerfile": "/app/Dockerfile",
+            "README.md": "/app/README.md",
+            "package.json": "/app/package.json",
+            "src/lib/parser.ts": "/app/src/lib/parser.ts",
+            "src/main.ts": "/app/src/main.ts",
+            "src/util.ts": "/app/src/util.ts"
+        });
+        // patterns are relative to the directory of the source
+        assertTargets(resolve("FROM alpine\nCOPY --exclude=lib --exclude=util.ts src /app/").getSources()[0], {
+            "src/main.ts": "/app/main.ts"
+        });
+        const sources = resolve("FROM alpine\nCOPY --exclude=*.md docs/index.md package.json /app/").getSources();
+        assertTargets(sources[0], {});
+        assertTargets(sources[1], { "package.json": "/app/package.json" });
+        assertTargets(resolve("FROM alpine\nARG PATTERN=private\nADD --exclude=$PATTERN docs /app/").getSources()[0], {
+            "docs/index.md": "/app/index.md"
+        });
+    });
+
+    it("--from", () => {
+        const content = "FROM alpine AS build\nFROM alpine\nCOPY --from=build /out/app missing.txt /app/";
+        const dockerfile = DockerfileParser.parse(content);
+        const sources = dockerfile.getCOPYs()[0].resolve({ files: files }).getSources();
+        assert.equal(sources.length, 2);
+        assert.equal(sources[0].getOrigin(), SourceOrigin.STAGE);
+        assert.equal(sources[0].getBuildStage(), dockerfile.getBuildStages()[0]);
+        assert.deepStrictEqual(sources[0].getPaths(), []);
+        assert.equal(sources[0].isUnmatched(), false);
+        assert.equal(sources[1].isUnmatched(), false);
+
+        const source = resolve("FROM alpine\nARG STAGE=0\nCOPY --from=$STAGE /out/app /app/").getSources()[0];
+        assert.equal(source.getOrigin(), SourceOrigin.STAGE);
+        assert.equal(source.getBuildStage().getIndex(), 0);
+        assert.equal(resolve("FROM alpine\nCOPY --from=nginx:latest /etc/nginx /etc/nginx").getSources()[0].getOrigin(), SourceOrigin.IMAGE);
+    });
+
+    it("working directory", () => {
+        assert.equal(resolve("FROM alpine\nCOPY . .").getDestination(), "/");
+        assert.equal(resolve("FROM alpine\nWORKDIR /app\nWORKDIR src\nCOPY . .\nWORKDIR /other").getDestination(), "/app/src");
+        assert.equal(resolve("FROM alpine\nWORKDIR /app\nCOPY . ../lib/").getDestination(), "/lib");
+        assert.equal(resolve("FROM alpine AS base\nWORKDIR /base\nFROM base\nCOPY README.md docs/").getDestination(), "/base/docs");
+        assert.equal(resolve("FROM alpine\nWORKDIR /app\nCOPY . /opt").getDestination(), "/opt");
+    });
+
+    it("variables", () => {
+        const resolution = resolve("FROM alpine\nARG SRC=src\nENV DEST=/app\nCOPY ${SRC}/main.ts $DEST/");
+        assert.equal(resolution.getDestination(), "/app");
+        assert.equal(resolution.getSources()[0].getValue(), "src/main.ts");
+        assertTargets(resolution.getSources()[0], { "src/main.ts": "/app/main.ts" });
+    });
+
+    it("JSON", () => {
+        const resolution = resolve("FROM alpine\nARG DEST=/app\nCOPY [ \"README.md\", \"$DEST/\" ]");
+        assert.equal(resolution.getDestination(), "/app");
+        assertRange(resolution.getDestinationRange(), 2, 21, 2, 27);
+        assertRange(resolution.getSources()[0].getRange(), 2, 8, 2, 17);
+        assertTargets(resolution.getSources()[0], { "README.md": "/app/README.md" });
+    });
+
+    it("heredocs", () => {
+        const source = resolve("FROM alpine\nCOPY <<EOF /app/config\nkey=value\nEOF").getSources()[0];
+        assert.equal(source.getOrigin(), SourceOrigin.HEREDOC);
+        assert.equal(source.isUnmatched(), false);
+    });
+
+    it("ADD", () => {
+        const resolution = resolve("FROM alpine\nADD https://example.com/app.tar.gz git@github.com:moby/moby.git README.md /app/");
+        const sources = resolution.getSources();
+        assert.equal(sources[0].getOrigin(), SourceOrigin.REMOTE);
+        assert.equal(sources[1].getOrigin(), SourceOrigin.REMOTE);
+        assert.equal(sources[2].getOrigin(), SourceOrigin.CONTEXT);
+        assertTargets(sources[2], { "README.md": "/app/README.md" });
+        assert.equal(resolution.getUnmatchedSources().length, 0);
+    });
+
+    it("no destination", () => {
+        for (const content of [ "FROM alpine\nCOPY", "FROM alpine\nCOPY README.md" ]) {
+            const resolution = resolve(content);
+            assert.equal(resolution.getSources().length, 0);
+            assert.equal(resolution.getDestination(), null);
+            assert.equal(resolution.getDestinationRange(), null);
+        }
+    });
+});
@@ -4,8 +4,16 @@
  * ------------------------------------------------------------------------------------------ */
 import * as assert from "assert";
 
-import { Position, Range } from 'vscode-languageserver-types';
-import { DockerfileParser } from '../src/main';
+import { Position, Range, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { assertRange } from './util';
+import { DockerfileParser, DiagnosticCode } from '../src/main';
+
+function assertDiagnostic(diagnostic: Diagnostic, code: DiagnosticCode, severity: DiagnosticSeverity, startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+    assert.equal(diagnostic.code, code);
+    assert.equal(diagnostic.severity, severity);
+    assert.equal(diagnostic.source, "dockerfile-ast");
+    assertRange(diagnostic.range, startLine, startCharacter, endLine, endCharacter);
+}
 
 describe("Dockerfile", () => {
     it("getEscapeCharacter", () => {
@@ -217,4 +225,168 @@ describe("Dockerfile", () => {
         );
         assert.strictEqual(undefined, dockerfile.resolveVariable("image", 1));
     });
+
+    it("resolveVariable with chained variables", () => {
+        const dockerfile = DockerfileParser.parse("ARG G=0\nFROM alpine\nARG G\nARG V=$G-1\nENV A=$V\nENV B=\"$A\" C='$A' D=\\$A\nENV A=2\nRUN echo");
+        assert.equal(dockerfile.resolveVariable("V", 7), "0-1");
+        assert.equal(dockerfile.resolveVariable("A", 7), "2");
+        assert.equal(dockerfile.resolveVariable("B", 7), "0-1");
+        assert.equal(dockerfile.resolveVariable("C", 7), "$A");
+        assert.equal(dockerfile.resolveVariable("D", 7), "$A");
+    });
+
+    describe("build arguments", () => {
+        it("global ARG", () => {
+            const content = "ARG version=3.10\nFROM alpine:$version\nRUN echo $version";
+            let dockerfile = DockerfileParser.parse(content, { buildArgs: { version: "3.11" } });
+            assert.deepStrictEqual(dockerfile.getBuildArgs(), { version: "3.11" });
+            assert.equal(dockerfile.resolveVariable("version", 1), "3.11");
+            assert.equal(dockerfile.getFROMs()[0].getExpandedImage(), "alpine:3.11");
+            assert.equal(dockerfile.getFROMs()[0].getImage(), "alpine:$version");
+            // global ARGs are not visible in a build stage unless redeclared
+            assert.strictEqual(dockerfile.resolveVariable("version", 2), undefined);
+
+            dockerfile = DockerfileParser.parse(content);
+            assert.deepStrictEqual(dockerfile.getBuildArgs(), {});
+            assert.equal(dockerfile.getFROMs()[0].getExpandedImage(), "alpine:3.10");
+        });
+
+        it("global ARG redeclared in a build stage", () => {
+            const dockerfile = DockerfileParser.parse(
+                "ARG version=3.10\nFROM alpine\nARG version\nRUN echo $version\nFROM alpine\nARG version=1.0\nRUN echo $version",
+                { buildArgs: { version: "3.11" } }
+            );
+            assert.equal(dockerfile.resolveVariable("version", 3), "3.11");
+            assert.equal(dockerfile.resolveVariable("version", 6), "3.11");
+            assert.equal(dockerfile.getInstructions()[3].getExpandedArguments()[1].getValue(), "3.11");
+        });
+
+        it("undeclared ARG", () => {
+            const dockerfile = DockerfileParser.parse(
+                "FROM alpine:$version\nRUN echo $version $HTTP_PROXY\nARG version\nRUN echo $version $HTTP_PROXY",
+                { buildArgs: { version: "3.11", HTTP_PROXY: "http://proxy" } }
+            );
+            assert.equal(dockerfile.getFROMs()[0].getExpandedImage(), "alpine:$version");
+            assert.strictEqual(dockerfile.resolveVariable("version", 1), undefined);
+            assert.equal(dockerfile.resolveVariable("version", 3), "3.11");
+            assert.equal(dockerfile.resolveVariable("HTTP_PROXY", 1), "http://proxy");
+            const args = dockerfile.getInstructions()[1].getExpandedArguments();
+            assert.equal(args[1].getValue(), "$version");
+            assert.equal(args[2].getValue(), "http://proxy");
+        });
+
+        it("platform variables", () => {
+            const content = "FROM --platform=$BUILDPLATFORM golang:$TARGETOS\nRUN echo $TARGETARCH\nARG TARGETARCH\nARG TARGETVARIANT\nARG BUILDARCH\nRUN echo $TARGETARCH";
+            let dockerfile = DockerfileParser.parse(content, { platform: "linux/arm/v7", buildPlatform: "linux/amd64" });
+            assert.equal(dockerfile.getPlatform(), "linux/arm/v7");
+            assert.equal(dockerfile.resolveVariable("BUILDPLATFORM", 0), "linux/amd64");
+            assert.equal(dockerfile.resolveVariable("TARGETPLATFORM", 0), "linux/arm/v7");
+            assert.equal(dockerfile.resolveVariable("TARGETOS", 0), "linux");
+            assert.strictEqual(dockerfile.resolveVariable("TARGETARCH", 1), undefined);
+            assert.equal(dockerfile.resolveVariable("TARGETARCH", 5), "arm");
+            assert.equal(dockerfile.resolveVariable("TARGETVARIANT", 5), "v7");
+            assert.equal(dockerfile.resolveVariable("BUILDARCH", 5), "amd64");
+            assert.equal(dockerfile.resolveVariable("BUILDVARIANT", 0), "");
+            assert.equal(dockerfile.getInstructions()[5].getExpandedArguments()[1].getValue(), "arm");
+
+            dockerfile = DockerfileParser.parse(content, { platform: "linux/amd64" });
+            assert.equal(dockerfile.resolveVariable("BUILDPLATFORM", 0), "linux/amd64");
+            assert.equal(dockerfile.resolveVariable("TARGETVARIANT", 5), "");
+
+            dockerfile = DockerfileParser.parse(content);
+            assert.equal(dockerfile.getPlatform(), null);
+            assert.strictEqual(dockerfile.resolveVariable("TARGETOS", 0), null);
+            assert.strictEqual(dockerfile.resolveVariable("TARGETARCH", 5), null);
+            assert.equal(dockerfile.getInstructions()[5].getExpandedArguments()[1].getValue(), "$TARGETARCH");
+        });
+
+        it("BuildKit variables", () => {
+            const content = "FROM alpine\nARG TARGETSTAGE\nARG BUILDKIT_INLINE_CACHE\nRUN echo $TARGETSTAGE";
+            let dockerfile = DockerfileParser.parse(content, { target: "build", buildArgs: { BUILDKIT_INLINE_CACHE: "1" } });
+            assert.equal(dockerfile.resolveVariable("TARGETSTAGE", 0), "build");
+            assert.equal(dockerfile.resolveVariable("TARGETSTAGE", 3), "build");
+            assert.equal(dockerfile.resolveVariable("BUILDKIT_INLINE_CACHE", 3), "1");
+            assert.strictEqual(dockerfile.resolveVariable("BUILDKIT_SYNTAX", 0), null);
+            assert.strictEqual(dockerfile.resolveVariable("BUILDKIT_SYNTAX", 3), undefined);
+
+            dockerfile = DockerfileParser.parse(content);
+            assert.strictEqual(dockerfile.resolveVariable("TARGETSTAGE", 3), null);
+        });
+
+        it("ENV is not overridden", () => {
+            const dockerfile = DockerfileParser.parse(
+                "FROM alpine\nARG version=1\nENV version=2\nRUN echo $version",
+                { buildArgs: { version: "3" } }
+            );
+            assert.equal(dockerfile.resolveVariable("version", 2), "3");
+            assert.equal(dockerfile.resolveVariable("version", 3), "2");
+        });
+    });
+
+    describe("getDiagnostics", () => {
+        it("valid", () => {
+            let dockerfile = DockerfileParser.parse("# escape=`\nFROM alpine\nRUN [ -f x ] && echo ${a:-b}\nCMD [ \"ls\" ]");
+            assert.deepStrictEqual(dockerfile.getDiagnostics(), []);
+        });
+
+        it("escape directive", () => {
+            let dockerfile = DockerfileParser.parse("# escape=a\nFROM alpine");
+            let diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 1);
+            assertDiagnostic(diagnostics[0], DiagnosticCode.InvalidEscapeDirective, DiagnosticSeverity.Error, 0, 9, 0, 10);
+        });
+
+        it("unterminated variable", () => {
+            let dockerfile = DockerfileParser.parse("FROM alpine\nRUN echo ${var abc\nENV a=${b");
+            let diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 2);
+            assertDiagnostic(diagnostics[0], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 1, 9, 1, 14);
+            assertDiagnostic(diagnostics[1], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 2, 6, 2, 9);
+        });
+
+        it("unterminated variable in a flag", () => {
+            let dockerfile = DockerfileParser.parse("FROM --platform=${x alpine\nCOPY --from=${y a ${z\nRUN --mount=type=${w echo");
+            let diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 4);
+            assertDiagnostic(diagnostics[0], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 0, 16, 0, 19);
+            assertDiagnostic(diagnostics[1], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 1, 12, 1, 15);
+            assertDiagnostic(diagnostics[2], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 1, 18, 1, 21);
+            assertDiagnostic(diagnostics[3], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 2, 17, 2, 20);
+        });
+
+        it("sorted by position", () => {
+            let dockerfile = DockerfileParser.parse("FROM alpine\nCOPY --foo=bar ${x /y\nCOPY a");
+            let diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 2);
+            assertDiagnostic(diagnostics[0], DiagnosticCode.UnknownFlag, DiagnosticSeverity.Error, 1, 7, 1, 10);
+            assertDiagnostic(diagnostics[1], DiagnosticCode.UnterminatedVariable, DiagnosticSeverity.Error, 1, 15, 1, 18);
+        });
+
+        it("malformed JSON", () => {
+            let dockerfile = DockerfileParser.parse("FROM alpine\nCMD [ \"ls\", \"-l\"\nENTRYPOINT ['ls']\nSHELL [ \"a\" ]");
+            let diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 2);
+            assertDiagnostic(diagnostics[0], DiagnosticCode.MalformedJSON, DiagnosticSeverity.Warning, 1, 4, 1, 16);
+            assertDiagnostic(diagnostics[1], DiagnosticCode.MalformedJSON, DiagnosticSeverity.Warning, 2, 11, 2, 17);
+        });
+
+        it("unterminated heredoc", () => {
+            let dockerfile = DockerfileParser.parse("FROM alpine\nRUN <<EOF\necho");
+            let diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 1);
+            assertDiagnostic(diagnostics[0], DiagnosticCode.UnterminatedHeredoc, DiagnosticSeverity.Error, 1, 4, 1, 9);
+        });
+
+        it("indented instruction without a FROM", () => {
+            let dockerfile = DockerfileParser.parse(" RUN echo $V");
+            assert.deepStrictEqual(dockerfile.getDiagnostics(), []);
+
+            dockerfile = DockerfileParser.parse("ARG V=1\n RUN echo $V");
+            assert.deepStrictEqual(dockerfile.getDiagnostics(), []);
+            assert.equal(dockerfile.resolveVariable("V", 1), "1");
+
+            dockerfile = DockerfileParser.parse(" FROM alpine\n ENV V=1\n RUN echo $V");
+            assert.equal(dockerfile.resolveVariable("V", 2), "1");
+        });
+    });
 });
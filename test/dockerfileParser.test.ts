@@ -0,0 +1,140 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { Range, TextDocumentContentChangeEvent } from 'vscode-languageserver-types';
+import { Dockerfile, DockerfileParser } from '../src/main';
+
+function serialize(dockerfile: Dockerfile) {
+    const directive = dockerfile.getDirective();
+    return {
+        directive: directive === null ? null : directive.getRange(),
+        escapeCharacter: dockerfile.getEscapeCharacter(),
+        comments: dockerfile.getComments().map(comment => {
+            return { range: comment.getRange(), content: comment.getContent() };
+        }),
+        instructions: dockerfile.getInstructions().map(instruction => {
+            return {
+                type: instruction.constructor.name,
+                range: instruction.getRange(),
+                instructionRange: instruction.getInstructionRange(),
+                arguments: instruction.getArguments().map(arg => arg.getValue()),
+                expanded: instruction.getExpandedArguments().map(arg => arg.getValue())
+            };
+        }),
+        stages: dockerfile.getFROMs().map(from => {
+            const image = dockerfile.getContainingImage(from.getRange().start);
+            return { range: image.getRange(), comments: image.getComments().length };
+        }),
+        diagnostics: dockerfile.getDiagnostics()
+    };
+}
+
+function assertUpdate(content: string, ...changes: TextDocumentContentChangeEvent[]) {
+    const previous = DockerfileParser.parse(content);
+    const before = serialize(previous);
+    const updated = DockerfileParser.update(previous, changes);
+    // the previous Dockerfile should not have been modified
+    assert.deepStrictEqual(serialize(previous), before);
+
+    let text = content;
+    for (const change of changes) {
+        if (change.range) {
+            const lines = text.split('\n');
+            const offsetAt = (line: number, character: number) => {
+                let offset = 0;
+                for (let i = 0; i < line; i++) {
+                    offset += lines[i].length + 1;
+                }
+                return offset + character;
+            };
+            const start = offsetAt(change.range.start.line, change.range.start.character);
+            const end = offsetAt(change.range.end.line, change.range.end.character);
+            text = text.substring(0, start) + change.text + text.substring(end);
+        } else {
+            text = change.text;
+        }
+    }
+    assert.deepStrictEqual(serialize(updated), serialize(DockerfileParser.parse(text)));
+    return updated;
+}
+
+describe("DockerfileParser", () => {
+    describe("update", () => {
+        const content =
+            "# escape=\\\n" +
+            "ARG image=alpine\n" +
+            "FROM $image AS build\n" +
+            "# comment\n" +
+            "RUN echo a \\\n" +
+            "# embedded\n" +
+            "  && echo b\n" +
+            "\n" +
+            "FROM busybox\n" +
+            "COPY --from=build /a /b\n" +
+            "CMD [ \"ls\" ]";
+
+        it("no changes", () => {
+            assertUpdate(content);
+        });
+
+        it("full replacement", () => {
+            assertUpdate(content, { text: "FROM node\nRUN ls" });
+        });
+
+        it("edit an instruction", () => {
+            assertUpdate(content, { range: Range.create(4, 9, 4, 10), rangeLength: 1, text: "xyz" });
+            assertUpdate(content, { range: Range.create(2, 5, 2, 11), rangeLength: 6, text: "node" });
+        });
+
+        it("edit an embedded comment", () => {
+            assertUpdate(content, { range: Range.create(5, 2, 5, 10), rangeLength: 8, text: "changed" });
+        });
+
+        it("insert lines", () => {
+            assertUpdate(content, { range: Range.create(7, 0, 7, 0), rangeLength: 0, text: "ENV a=b\n# new\nWORKDIR /\n" });
+            assertUpdate(content, { range: Range.create(10, 12, 10, 12), rangeLength: 0, text: "\nEXPOSE 80" });
+        });
+
+        it("join lines", () => {
+            // remove the escape character so the instruction is split in two
+            assertUpdate(content, { range: Range.create(4, 11, 4, 12), rangeLength: 1, text: "" });
+            // add an escape character so the instructions are joined
+            assertUpdate(content, { range: Range.create(9, 23, 9, 23), rangeLength: 0, text: " \\" });
+        });
+
+        it("delete lines", () => {
+            assertUpdate(content, { range: Range.create(3, 0, 8, 0), rangeLength: 47, text: "" });
+        });
+
+        it("heredoc", () => {
+            assertUpdate(content, { range: Range.create(9, 0, 9, 0), rangeLength: 0, text: "RUN <<EOF\nFROM x\n" });
+            assertUpdate("FROM alpine\nRUN <<EOF\nFROM x\nEOF\nCMD ls", { range: Range.create(3, 0, 3, 3), rangeLength: 3, text: "EOT" });
+        });
+
+        it("parser directive", () => {
+            const updated = assertUpdate(content, { range: Range.create(0, 9, 0, 10), rangeLength: 1, text: "`" });
+            assert.equal(updated.getEscapeCharacter(), "`");
+        });
+
+        it("multiple changes", () => {
+            assertUpdate(content,
+                { range: Range.create(9, 0, 9, 4), rangeLength: 4, text: "ADD" },
+                { range: Range.create(1, 10, 1, 16), rangeLength: 6, text: "node" },
+                { range: Range.create(6, 0, 6, 0), rangeLength: 0, text: "# another\n" }
+            );
+        });
+
+        it("keeps the build arguments", () => {
+            const previous = DockerfileParser.parse("ARG a=1\nFROM alpine:$a", { buildArgs: { a: "2" } });
+            let dockerfile = DockerfileParser.update(previous, [ { range: Range.create(1, 5, 1, 11), rangeLength: 6, text: "node" } ]);
+            assert.deepStrictEqual(dockerfile.getBuildArgs(), { a: "2" });
+            assert.equal(dockerfile.getFROMs()[0].getExpandedImage(), "node:2");
+
+            dockerfile = DockerfileParser.update(previous, [ { text: "ARG a\nFROM $a" } ]);
+            assert.equal(dockerfile.getFROMs()[0].getExpandedImage(), "2");
+        });
+    });
+});
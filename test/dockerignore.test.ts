@@ -0,0 +1,155 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { DockerignoreParser } from '../src/main';
+
+function assertMatches(content: string, path: string, expected: boolean) {
+    assert.equal(DockerignoreParser.parse(content).matches(path), expected, path);
+}
+
+describe("DockerignoreParser", () => {
+    describe("parse", () => {
+        it("empty", () => {
+            assert.equal(DockerignoreParser.parse("").getPatterns().length, 0);
+            assert.equal(DockerignoreParser.parse("\n  \n\t\r\n").getPatterns().length, 0);
+        });
+
+        it("comments", () => {
+            const patterns = DockerignoreParser.parse("# comment\n*.md\n  # not a comment").getPatterns();
+            assert.equal(patterns.length, 2);
+            assert.equal(patterns[0].getValue(), "*.md");
+            assertRange(patterns[0].getRange(), 1, 0, 1, 4);
+            assert.equal(patterns[1].getValue(), "# not a comment");
+            assertRange(patterns[1].getRange(), 2, 2, 2, 17);
+        });
+
+        it("whitespace", () => {
+            const patterns = DockerignoreParser.parse("  node_modules \t\r\n\tdist").getPatterns();
+            assert.equal(patterns.length, 2);
+            assert.equal(patterns[0].getValue(), "node_modules");
+            assertRange(patterns[0].getRange(), 0, 2, 0, 14);
+            assert.equal(patterns[1].getValue(), "dist");
+            assertRange(patterns[1].getRange(), 1, 1, 1, 5);
+        });
+
+        it("byte order mark", () => {
+            const patterns = DockerignoreParser.parse("﻿*.log").getPatterns();
+            assert.equal(patterns.length, 1);
+            assert.equal(patterns[0].getValue(), "*.log");
+            assertRange(patterns[0].getRange(), 0, 1, 0, 6);
+        });
+
+        it("cleaned", () => {
+            const patterns = DockerignoreParser.parse("./docs/\n/build\ndocs//../src/./*.ts\n/\n../outside").getPatterns();
+            assert.deepStrictEqual(patterns.map(pattern => pattern.getValue()), [ "docs", "build", "src/*.ts", "/", "../outside" ]);
+        });
+
+        it("exclusions", () => {
+            const patterns = DockerignoreParser.parse("*.md\n! README.md\n!").getPatterns();
+            assert.equal(patterns.length, 3);
+            assert.equal(patterns[0].isExclusion(), false);
+            assert.equal(patterns[1].isExclusion(), true);
+            assert.equal(patterns[1].getValue(), "README.md");
+            assert.equal(patterns[1].toString(), "!README.md");
+            assertRange(patterns[1].getRange(), 1, 0, 1, 11);
+            assert.equal(patterns[1].isValid(), true);
+            assert.equal(patterns[2].isExclusion(), true);
+            assert.equal(patterns[2].getValue(), "");
+            assert.equal(patterns[2].isValid(), false);
+        });
+
+        it("invalid", () => {
+            const patterns = DockerignoreParser.parse("[a-z\nsrc/[a-z]*").getPatterns();
+            assert.equal(patterns[0].isValid(), false);
+            assert.equal(patterns[0].matches("[a-z"), false);
+            assert.equal(patterns[1].isValid(), true);
+        });
+    });
+
+    describe("matches", () => {
+        it("exact", () => {
+            assertMatches("Dockerfile", "Dockerfile", true);
+            assertMatches("Dockerfile", "Dockerfile.dev", false);
+            assertMatches("Dockerfile", "src/Dockerfile", false);
+            assertMatches("src/app.ts", "src/app.ts", true);
+            assertMatches("a.b", "axb", false);
+            assertMatches("a+(b)", "a+(b)", true);
+        });
+
+        it("parent directories", () => {
+            assertMatches("node_modules", "node_modules/express/index.js", true);
+            assertMatches("docs/", "docs/api/index.md", true);
+            assertMatches("docs", "src/docs/index.md", false);
+        });
+
+        it("*", () => {
+            assertMatches("*.md", "README.md", true);
+            assertMatches("*.md", "docs/guide.md", false);
+            assertMatches("*/*.md", "docs/guide.md", true);
+            assertMatches("*/*.md", "docs/api/guide.md", false);
+            assertMatches("temp*", "temporary/file", true);
+        });
+
+        it("?", () => {
+            assertMatches("file?.txt", "file1.txt", true);
+            assertMatches("file?.txt", "file10.txt", false);
+            assertMatches("a?b", "a/b", false);
+        });
+
+        it("**", () => {
+            assertMatches("**/*.go", "main.go", true);
+            assertMatches("**/*.go", "cmd/server/main.go", true);
+            assertMatches("**/node_modules", "node_modules", true);
+            assertMatches("**/node_modules", "packages/app/node_modules/react/index.js", true);
+            assertMatches("src/**/test", "src/test", true);
+            assertMatches("src/**/test", "src/a/b/test/unit.ts", true);
+            assertMatches("src/**/test", "lib/test", false);
+            assertMatches("build/**", "build/out/app.js", true);
+            assertMatches("build/**", "build", false);
+            assertMatches("**", "anything/at/all", true);
+        });
+
+        it("character classes", () => {
+            assertMatches("[a-c].txt", "b.txt", true);
+            assertMatches("[a-c].txt", "d.txt", false);
+            assertMatches("[^a-c].txt", "d.txt", true);
+        });
+
+        it("escapes", () => {
+            assertMatches("\\*.txt", "*.txt", true);
+            assertMatches("\\*.txt", "a.txt", false);
+            assertMatches("\\d", "d", true);
+            assertMatches("\\d", "1", false);
+        });
+
+        it("exclusions", () => {
+            const content = "*.md\n!README.md\n!docs\ndocs/private";
+            assertMatches(content, "CHANGELOG.md", true);
+            assertMatches(content, "README.md", false);
+            assertMatches(content, "docs/index.md", false);
+            assertMatches(content, "docs/private/notes.md", true);
+            assertMatches("!README.md\n*.md", "README.md", true);
+            assertMatches("**\n!src\n!package.json", "src/main.ts", false);
+            assertMatches("**\n!src\n!package.json", "test/main.test.ts", true);
+        });
+
+        it("normalized paths", () => {
+            assertMatches("src/*.ts", "./src/main.ts", true);
+            assertMatches("src/*.ts", "/src/main.ts", true);
+            assertMatches("src/*.ts", "src//lib/../main.ts", true);
+        });
+    });
+
+    describe("getIgnoreFilePaths", () => {
+        it("paths", () => {
+            assert.deepStrictEqual(DockerignoreParser.getIgnoreFilePaths("Dockerfile", ""), [ "Dockerfile.dockerignore", ".dockerignore" ]);
+            assert.deepStrictEqual(DockerignoreParser.getIgnoreFilePaths("docker/Dockerfile.dev", "."), [ "docker/Dockerfile.dev.dockerignore", "./.dockerignore" ]);
+            assert.deepStrictEqual(DockerignoreParser.getIgnoreFilePaths("/src/app/Dockerfile", "/src/app/"), [ "/src/app/Dockerfile.dockerignore", "/src/app/.dockerignore" ]);
+            assert.deepStrictEqual(DockerignoreParser.getIgnoreFilePaths("/Dockerfile", "/"), [ "/Dockerfile.dockerignore", "/.dockerignore" ]);
+        });
+    });
+});
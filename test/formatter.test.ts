@@ -0,0 +1,107 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { TextDocument } from 'vscode-languageserver-types';
+import { DockerfileFormatter, DockerfileParser, FormatterOptions } from '../src/main';
+
+function format(content: string, options?: FormatterOptions): string {
+    const edits = DockerfileFormatter.format(DockerfileParser.parse(content), options);
+    const document = TextDocument.create("", "", 0, content);
+    let formatted = content;
+    for (let i = edits.length - 1; i >= 0; i--) {
+        const start = document.offsetAt(edits[i].range.start);
+        const end = document.offsetAt(edits[i].range.end);
+        formatted = formatted.substring(0, start) + edits[i].newText + formatted.substring(end);
+    }
+    return formatted;
+}
+
+describe("DockerfileFormatter", () => {
+    it("formatted", () => {
+        const content = "FROM alpine\nRUN echo a \\\n    && echo b\nENV a=b c=d";
+        assert.deepStrictEqual(DockerfileFormatter.format(DockerfileParser.parse(content)), []);
+    });
+
+    describe("keywordCase", () => {
+        it("upper", () => {
+            assert.equal(format("from alpine\nRun ls\nonbuild run ls"), "FROM alpine\nRUN ls\nONBUILD RUN ls");
+        });
+
+        it("lower", () => {
+            assert.equal(format("FROM alpine\nRun ls", { keywordCase: "lower" }), "from alpine\nrun ls");
+        });
+
+        it("preserve", () => {
+            assert.equal(format("from alpine\nRun ls", { keywordCase: "preserve" }), "from alpine\nRun ls");
+        });
+    });
+
+    describe("indentation", () => {
+        it("default", () => {
+            assert.equal(format("RUN a \\\nb \\\n\t\tc"), "RUN a \\\n    b \\\n    c");
+        });
+
+        it("tab", () => {
+            assert.equal(format("RUN a \\\n  b", { indentation: "\t" }), "RUN a \\\n\tb");
+        });
+
+        it("null", () => {
+            assert.equal(format("RUN a \\\n  b", { indentation: null }), "RUN a \\\n  b");
+        });
+
+        it("comments, empty lines, and heredocs", () => {
+            assert.equal(format("RUN a \\\n# comment\n\n b"), "RUN a \\\n# comment\n\n    b");
+            assert.equal(format("RUN <<EOF\n  a\nEOF"), "RUN <<EOF\n  a\nEOF");
+        });
+
+        it("escape directive", () => {
+            assert.equal(format("#escape=`\nRUN a `\r\n b"), "#escape=`\nRUN a `\r\n    b");
+        });
+    });
+
+    describe("alignEscapeCharacters", () => {
+        it("align", () => {
+            const content = "RUN apt-get update \\\n  && apt-get install -y curl \\\n  && rm -rf /var/lib/apt/lists/*";
+            assert.equal(format(content, { alignEscapeCharacters: true }),
+                "RUN apt-get update             \\\n" +
+                "    && apt-get install -y curl \\\n" +
+                "    && rm -rf /var/lib/apt/lists/*"
+            );
+        });
+
+        it("disabled", () => {
+            assert.equal(format("RUN a   \\\n    bc \\\n    d"), "RUN a   \\\n    bc \\\n    d");
+        });
+    });
+
+    describe("maxRunLineLength", () => {
+        it("split", () => {
+            const content = "RUN --mount=type=cache,target=/a --network=none apt-get update";
+            assert.equal(format(content, { maxRunLineLength: 40 }),
+                "RUN --mount=type=cache,target=/a \\\n" +
+                "    --network=none \\\n" +
+                "    apt-get update"
+            );
+            assert.equal(format(content, { maxRunLineLength: 80 }), content);
+            assert.equal(format(content), content);
+        });
+
+        it("CRLF", () => {
+            assert.equal(format("RUN --network=none ls\r\n", { maxRunLineLength: 10 }), "RUN --network=none \\\r\n    ls\r\n");
+        });
+    });
+
+    describe("normalizeEnvSpacing", () => {
+        it("enabled", () => {
+            assert.equal(format("ENV a=b    c=d\tE=f"), "ENV a=b c=d E=f");
+            assert.equal(format("ENV a b   c"), "ENV a b   c");
+        });
+
+        it("disabled", () => {
+            assert.equal(format("ENV a=b    c=d", { normalizeEnvSpacing: false }), "ENV a=b    c=d");
+        });
+    });
+});
@@ -0,0 +1,159 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { DockerfileParser, Heredoc } from '../src/main';
+
+function assertHeredoc(heredoc: Heredoc, name: string, body: string, quoted: boolean, stripTabs: boolean) {
+    assert.equal(heredoc.getName(), name);
+    assert.equal(heredoc.getBody(), body);
+    assert.equal(heredoc.isQuoted(), quoted);
+    assert.equal(heredoc.isStripTabs(), stripTabs);
+}
+
+describe("Heredoc", () => {
+    it("RUN <<EOF", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nRUN <<EOF\necho a\necho b\nEOF\nCMD ls");
+        const instructions = dockerfile.getInstructions();
+        assert.equal(instructions.length, 3);
+        assert.equal(instructions[1].getKeyword(), "RUN");
+        assertRange(instructions[1].getRange(), 1, 0, 4, 3);
+        assert.equal(instructions[2].getKeyword(), "CMD");
+
+        const heredocs = instructions[1].getHeredocs();
+        assert.equal(heredocs.length, 1);
+        assertHeredoc(heredocs[0], "EOF", "echo a\necho b\n", false, false);
+        assertRange(heredocs[0].getRange(), 1, 4, 1, 9);
+        assertRange(heredocs[0].getNameRange(), 1, 6, 1, 9);
+        assertRange(heredocs[0].getBodyRange(), 2, 0, 4, 0);
+        assertRange(heredocs[0].getTerminatorRange(), 4, 0, 4, 3);
+
+        const args = instructions[1].getArguments();
+        assert.equal(args.length, 1);
+        assert.equal(args[0].getValue(), "<<EOF");
+    });
+
+    it("RUN <<EOF\\r\\n", () => {
+        const dockerfile = DockerfileParser.parse("RUN <<EOF\r\necho a\r\nEOF\r\nCMD ls");
+        const instructions = dockerfile.getInstructions();
+        assert.equal(instructions.length, 2);
+        assertRange(instructions[0].getRange(), 0, 0, 2, 3);
+        const heredocs = instructions[0].getHeredocs();
+        assert.equal(heredocs.length, 1);
+        assertHeredoc(heredocs[0], "EOF", "echo a\r\n", false, false);
+        assertRange(heredocs[0].getTerminatorRange(), 2, 0, 2, 3);
+    });
+
+    it("comments in body", () => {
+        const dockerfile = DockerfileParser.parse("RUN <<EOF\n# not a comment\nls\nEOF\n# comment");
+        assert.equal(dockerfile.getInstructions().length, 1);
+        const comments = dockerfile.getComments();
+        assert.equal(comments.length, 1);
+        assertRange(comments[0].getRange(), 4, 0, 4, 9);
+        assert.equal(dockerfile.getInstructions()[0].getHeredocs()[0].getBody(), "# not a comment\nls\n");
+    });
+
+    it("COPY <<-\"EOT\" /file", () => {
+        const dockerfile = DockerfileParser.parse("COPY <<-\"EOT\" /file\n\t\thello\n\tEOT");
+        const copy = dockerfile.getCOPYs()[0];
+        assertRange(copy.getRange(), 0, 0, 2, 4);
+        const heredocs = copy.getHeredocs();
+        assert.equal(heredocs.length, 1);
+        assertHeredoc(heredocs[0], "EOT", "hello\n", true, true);
+        assertRange(heredocs[0].getRange(), 0, 5, 0, 13);
+        assertRange(heredocs[0].getNameRange(), 0, 9, 0, 12);
+        assertRange(heredocs[0].getTerminatorRange(), 2, 1, 2, 4);
+
+        const args = copy.getArguments();
+        assert.equal(args.length, 2);
+        assert.equal(args[1].getValue(), "/file");
+    });
+
+    it("ADD <<'EOF'", () => {
+        const dockerfile = DockerfileParser.parse("ADD <<'EOF' /file\n$HOME\nEOF");
+        const heredocs = dockerfile.getInstructions()[0].getHeredocs();
+        assert.equal(heredocs.length, 1);
+        assertHeredoc(heredocs[0], "EOF", "$HOME\n", true, false);
+    });
+
+    it("multiple heredocs", () => {
+        const dockerfile = DockerfileParser.parse("COPY <<a <<b /dest/\n1\na\n2\nb\nRUN ls");
+        const instructions = dockerfile.getInstructions();
+        assert.equal(instructions.length, 2);
+        assertRange(instructions[0].getRange(), 0, 0, 4, 1);
+        const heredocs = instructions[0].getHeredocs();
+        assert.equal(heredocs.length, 2);
+        assertHeredoc(heredocs[0], "a", "1\n", false, false);
+        assertRange(heredocs[0].getBodyRange(), 1, 0, 2, 0);
+        assertHeredoc(heredocs[1], "b", "2\n", false, false);
+        assertRange(heredocs[1].getBodyRange(), 3, 0, 4, 0);
+    });
+
+    it("escaped newline before body", () => {
+        const dockerfile = DockerfileParser.parse("RUN <<EOF \\\n# comment\n  bash\necho\nEOF");
+        const instructions = dockerfile.getInstructions();
+        assert.equal(instructions.length, 1);
+        const heredocs = instructions[0].getHeredocs();
+        assert.equal(heredocs.length, 1);
+        assertHeredoc(heredocs[0], "EOF", "echo\n", false, false);
+        const args = instructions[0].getArguments();
+        assert.equal(args.length, 2);
+        assert.equal(args[1].getValue(), "bash");
+    });
+
+    it("start of a word", () => {
+        const dockerfile = DockerfileParser.parse("RUN echo '<<A' && cat 0<<EOF >out;cat <<B|sh\na\nEOF\nb\nB\nCMD ls");
+        const instructions = dockerfile.getInstructions();
+        assert.equal(instructions.length, 2);
+        const heredocs = instructions[0].getHeredocs();
+        assert.equal(heredocs.length, 2);
+        assertHeredoc(heredocs[0], "EOF", "a\n", false, false);
+        assertRange(heredocs[0].getRange(), 0, 23, 0, 28);
+        assertHeredoc(heredocs[1], "B", "b\n", false, false);
+        assertRange(heredocs[1].getRange(), 0, 38, 0, 41);
+    });
+
+    it("unterminated", () => {
+        const dockerfile = DockerfileParser.parse("RUN <<EOF\necho\nFROM alpine");
+        const instructions = dockerfile.getInstructions();
+        assert.equal(instructions.length, 1);
+        assertRange(instructions[0].getRange(), 0, 0, 2, 11);
+        const heredocs = instructions[0].getHeredocs();
+        assert.equal(heredocs.length, 1);
+        assertHeredoc(heredocs[0], "EOF", "echo\nFROM alpine", false, false);
+        assert.equal(heredocs[0].getTerminatorRange(), null);
+    });
+
+    it("not a heredoc", () => {
+        let dockerfile = DockerfileParser.parse("RUN cat <<<EOF\nEOF");
+        assert.equal(dockerfile.getInstructions().length, 2);
+        assert.equal(dockerfile.getInstructions()[0].getHeredocs().length, 0);
+
+        dockerfile = DockerfileParser.parse("FROM alpine\nRUN echo $((1<<2))\nCMD ls");
+        assert.equal(dockerfile.getInstructions().length, 3);
+        assert.equal(dockerfile.getInstructions()[1].getHeredocs().length, 0);
+
+        dockerfile = DockerfileParser.parse("FROM alpine\nRUN echo $(( (1 + 1) <<EOF ))\nEOF");
+        assert.equal(dockerfile.getInstructions().length, 3);
+        assert.equal(dockerfile.getInstructions()[1].getHeredocs().length, 0);
+
+        dockerfile = DockerfileParser.parse("FROM alpine\nRUN echo '<<EOF' \"<<EOF\" \\<<EOF\nEOF");
+        assert.equal(dockerfile.getInstructions().length, 3);
+        assert.equal(dockerfile.getInstructions()[1].getHeredocs().length, 0);
+
+        dockerfile = DockerfileParser.parse("FROM alpine\nRUN echo a<<EOF\nEOF");
+        assert.equal(dockerfile.getInstructions().length, 3);
+        assert.equal(dockerfile.getInstructions()[1].getHeredocs().length, 0);
+
+        dockerfile = DockerfileParser.parse("FROM alpine\nRUN cat <<< EOF\nEOF");
+        assert.equal(dockerfile.getInstructions().length, 3);
+        assert.equal(dockerfile.getInstructions()[1].getHeredocs().length, 0);
+
+        dockerfile = DockerfileParser.parse("CMD <<EOF\nEOF");
+        assert.equal(dockerfile.getInstructions().length, 2);
+        assert.equal(dockerfile.getInstructions()[0].getHeredocs().length, 0);
+    });
+});
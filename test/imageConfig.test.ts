@@ -0,0 +1,164 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { DockerfileParser, ImageConfig, ParserOptions } from '../src/main';
+
+function getImageConfig(content: string, index?: number, options?: ParserOptions): ImageConfig {
+    const buildStages = DockerfileParser.parse(content, options).getBuildStages();
+    return buildStages[index === undefined ? buildStages.length - 1 : index].getImageConfig();
+}
+
+describe("ImageConfig", () => {
+    it("empty", () => {
+        assert.deepStrictEqual(getImageConfig("FROM alpine"), {});
+        assert.deepStrictEqual(getImageConfig("FROM alpine\nRUN ls\nCOPY . ."), {});
+    });
+
+    it("Env", () => {
+        const config = getImageConfig("FROM alpine\nENV a=1 b=\"x y\"\nENV c $a-${b}\nENV a=2\nENV d='$a'\nENV e=");
+        assert.deepStrictEqual(config.Env, [ "a=2", "b=x y", "c=1-x y", "d=$a", "e=" ]);
+    });
+
+    it("Env with build arguments", () => {
+        const config = getImageConfig("FROM alpine\nARG version=1\nENV VERSION=$version", 0, { buildArgs: { version: "2" } });
+        assert.deepStrictEqual(config.Env, [ "VERSION=2" ]);
+    });
+
+    it("chained variables", () => {
+        const content = "FROM alpine\nARG V=1\nENV A=$V\nENV B=$A C=${A}x\nENV A=2 D=$A E=\\$A\nWORKDIR $B\nWORKDIR sub\nUSER $C\nLABEL d=$D\nVOLUME $E \"/$B\"\nVOLUME [ \"/$C\" ]";
+        const config = getImageConfig(content);
+        assert.deepStrictEqual(config.Env, [ "A=2", "B=1", "C=1x", "D=1", "E=$A" ]);
+        assert.equal(config.WorkingDir, "/1/sub");
+        assert.equal(config.User, "1x");
+        assert.deepStrictEqual(config.Labels, { d: "1" });
+        assert.deepStrictEqual(config.Volumes, { "$A": {}, "/1": {}, "/1x": {} });
+    });
+
+    it("inherited variables", () => {
+        const config = getImageConfig("FROM alpine AS base\nENV A=1\nFROM base\nARG A=2\nENV B=$A\nWORKDIR /$B");
+        assert.deepStrictEqual(config.Env, [ "A=1", "B=1" ]);
+        assert.equal(config.WorkingDir, "/1");
+    });
+
+    it("Labels", () => {
+        const config = getImageConfig("FROM alpine\nENV v=1.0\nLABEL version=$v \"description\"=\"an image\"\nLABEL literal='$v'\nLABEL version=2.0");
+        assert.deepStrictEqual(config.Labels, { version: "2.0", description: "an image", literal: "$v" });
+    });
+
+    it("Cmd", () => {
+        assert.deepStrictEqual(getImageConfig("FROM alpine\nCMD [ \"echo\", \"hello world\" ]").Cmd, [ "echo", "hello world" ]);
+        assert.deepStrictEqual(getImageConfig("FROM alpine\nCMD echo $HOME").Cmd, [ "/bin/sh", "-c", "echo $HOME" ]);
+        assert.deepStrictEqual(getImageConfig("FROM alpine\nCMD ls\nCMD [ \"pwd\" ]").Cmd, [ "pwd" ]);
+        assert.deepStrictEqual(getImageConfig("FROM alpine\nCMD []").Cmd, []);
+    });
+
+    it("Entrypoint", () => {
+        const config = getImageConfig("FROM alpine\nCMD [ \"--help\" ]\nENTRYPOINT [ \"app\" ]");
+        assert.deepStrictEqual(config.Entrypoint, [ "app" ]);
+        assert.deepStrictEqual(config.Cmd, [ "--help" ]);
+    });
+
+    it("Shell", () => {
+        const config = getImageConfig("FROM alpine\nSHELL [ \"/bin/bash\", \"-o\", \"pipefail\", \"-c\" ]\nENTRYPOINT app start");
+        assert.deepStrictEqual(config.Shell, [ "/bin/bash", "-o", "pipefail", "-c" ]);
+        assert.deepStrictEqual(config.Entrypoint, [ "/bin/bash", "-o", "pipefail", "-c", "app start" ]);
+    });
+
+    it("User", () => {
+        assert.equal(getImageConfig("FROM alpine\nUSER root\nARG user=app\nUSER $user:staff").User, "app:staff");
+    });
+
+    it("WorkingDir", () => {
+        assert.equal(getImageConfig("FROM alpine\nWORKDIR /app").WorkingDir, "/app");
+        assert.equal(getImageConfig("FROM alpine\nWORKDIR app").WorkingDir, "/app");
+        assert.equal(getImageConfig("FROM alpine\nWORKDIR /app\nWORKDIR src/../lib/./").WorkingDir, "/app/lib");
+        assert.equal(getImageConfig("FROM alpine\nWORKDIR /app\nENV dir=/opt\nWORKDIR $dir/tools").WorkingDir, "/opt/tools");
+    });
+
+    it("ExposedPorts", () => {
+        const config = getImageConfig("FROM alpine\nEXPOSE 80 53/udp\nARG port=443\nEXPOSE $port 8000-8001/tcp 80");
+        assert.deepStrictEqual(config.ExposedPorts, { "80/tcp": {}, "53/udp": {}, "443/tcp": {}, "8000/tcp": {}, "8001/tcp": {} });
+    });
+
+    it("Volumes", () => {
+        const config = getImageConfig("FROM alpine\nVOLUME /data /logs\nVOLUME [ \"/cache\" ]");
+        assert.deepStrictEqual(config.Volumes, { "/data": {}, "/logs": {}, "/cache": {} });
+    });
+
+    it("StopSignal", () => {
+        assert.equal(getImageConfig("FROM alpine\nSTOPSIGNAL SIGKILL\nSTOPSIGNAL SIGTERM").StopSignal, "SIGTERM");
+    });
+
+    it("Healthcheck", () => {
+        let config = getImageConfig("FROM alpine\nHEALTHCHECK --interval=1m30s --timeout=5s --start-period=0.5s --start-interval=100ms --retries=3 CMD curl -f http://localhost");
+        assert.deepStrictEqual(config.Healthcheck, {
+            Test: [ "CMD-SHELL", "curl -f http://localhost" ],
+            Interval: 90000000000,
+            Timeout: 5000000000,
+            StartPeriod: 500000000,
+            StartInterval: 100000000,
+            Retries: 3
+        });
+
+        config = getImageConfig("FROM alpine\nHEALTHCHECK CMD [ \"curl\", \"-f\", \"http://localhost\" ]");
+        assert.deepStrictEqual(config.Healthcheck, { Test: [ "CMD", "curl", "-f", "http://localhost" ] });
+
+        config = getImageConfig("FROM alpine\nHEALTHCHECK CMD ls\nHEALTHCHECK NONE");
+        assert.deepStrictEqual(config.Healthcheck, { Test: [ "NONE" ] });
+
+        config = getImageConfig("FROM alpine\nHEALTHCHECK --interval=abc --retries=x CMD ls");
+        assert.deepStrictEqual(config.Healthcheck, { Test: [ "CMD-SHELL", "ls" ] });
+
+        assert.equal(getImageConfig("FROM alpine\nHEALTHCHECK CMD").Healthcheck, undefined);
+    });
+
+    it("OnBuild", () => {
+        const config = getImageConfig("FROM alpine\nONBUILD RUN echo hello\nONBUILD COPY . /app");
+        assert.deepStrictEqual(config.OnBuild, [ "RUN echo hello", "COPY . /app" ]);
+    });
+
+    describe("inheritance", () => {
+        it("build stage", () => {
+            const content = "FROM alpine AS base\nENV a=1\nLABEL version=1\nEXPOSE 80\nWORKDIR /app\nCMD [ \"run\" ]\nFROM base\nENV b=$a\nLABEL version=2\nWORKDIR src";
+            assert.deepStrictEqual(getImageConfig(content), {
+                Env: [ "a=1", "b=1" ],
+                Labels: { version: "2" },
+                ExposedPorts: { "80/tcp": {} },
+                WorkingDir: "/app/src",
+                Cmd: [ "run" ]
+            });
+            assert.deepStrictEqual(getImageConfig(content, 0).Labels, { version: "1" });
+        });
+
+        it("external image", () => {
+            const config = getImageConfig("FROM alpine AS base\nENV a=1\nFROM node\nFROM BASE");
+            assert.deepStrictEqual(getImageConfig("FROM alpine AS base\nENV a=1\nFROM node"), {});
+            assert.deepStrictEqual(config, { Env: [ "a=1" ] });
+        });
+
+        it("later build stage", () => {
+            assert.deepStrictEqual(getImageConfig("FROM later\nFROM alpine AS later\nENV a=1", 0), {});
+        });
+
+        it("Entrypoint resets inherited Cmd", () => {
+            const config = getImageConfig("FROM alpine AS base\nCMD [ \"run\" ]\nFROM base\nENTRYPOINT [ \"app\" ]");
+            assert.deepStrictEqual(config.Entrypoint, [ "app" ]);
+            assert.equal(config.Cmd, undefined);
+        });
+
+        it("Shell", () => {
+            const config = getImageConfig("FROM alpine AS base\nSHELL [ \"bash\", \"-c\" ]\nFROM base\nCMD ls");
+            assert.deepStrictEqual(config.Cmd, [ "bash", "-c", "ls" ]);
+        });
+
+        it("OnBuild triggers", () => {
+            const content = "FROM alpine AS base\nONBUILD ENV a=1\nONBUILD EXPOSE 80\nFROM base AS child\nENV b=2\nFROM child";
+            assert.deepStrictEqual(getImageConfig(content, 0), { OnBuild: [ "ENV a=1", "EXPOSE 80" ] });
+            assert.deepStrictEqual(getImageConfig(content, 1), { Env: [ "a=1", "b=2" ], ExposedPorts: { "80/tcp": {} } });
+            assert.deepStrictEqual(getImageConfig(content, 2), { Env: [ "a=1", "b=2" ], ExposedPorts: { "80/tcp": {} } });
+        });
+    });
+});
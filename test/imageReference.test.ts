@@ -0,0 +1,102 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { ImageReference } from '../src/main';
+
+const digest = "sha256:613685c22f65d01f2264bdd49b8a336488e14faf29f3ff9b6bf76a4da23c4700";
+
+function assertReference(reference: ImageReference, domain: string, path: string, tag: string | null, digest: string | null, canonical: string) {
+    assert.equal(reference.getDomain(), domain);
+    assert.equal(reference.getPath(), path);
+    assert.equal(reference.getName(), domain + "/" + path);
+    assert.equal(reference.getTag(), tag);
+    assert.equal(reference.getDigest(), digest);
+    assert.equal(reference.toString(), canonical);
+}
+
+describe("ImageReference", () => {
+    describe("parse", () => {
+        it("official image", () => {
+            const reference = ImageReference.parse("alpine");
+            assertReference(reference, "docker.io", "library/alpine", null, null, "docker.io/library/alpine:latest");
+            assert.equal(reference.getEffectiveTag(), "latest");
+            assert.equal(reference.getFamiliarName(), "alpine");
+        });
+
+        it("tag", () => {
+            const reference = ImageReference.parse("alpine:3.18");
+            assertReference(reference, "docker.io", "library/alpine", "3.18", null, "docker.io/library/alpine:3.18");
+            assert.equal(reference.getEffectiveTag(), "3.18");
+        });
+
+        it("digest", () => {
+            const reference = ImageReference.parse("alpine@" + digest);
+            assertReference(reference, "docker.io", "library/alpine", null, digest, "docker.io/library/alpine@" + digest);
+            assert.equal(reference.getEffectiveTag(), null);
+        });
+
+        it("tag and digest", () => {
+            const reference = ImageReference.parse("alpine:3.18@" + digest);
+            assertReference(reference, "docker.io", "library/alpine", "3.18", digest, "docker.io/library/alpine:3.18@" + digest);
+        });
+
+        it("user image", () => {
+            const reference = ImageReference.parse("owner/app:1.0");
+            assertReference(reference, "docker.io", "owner/app", "1.0", null, "docker.io/owner/app:1.0");
+            assert.equal(reference.getFamiliarName(), "owner/app");
+        });
+
+        it("docker.io", () => {
+            assertReference(ImageReference.parse("docker.io/alpine"), "docker.io", "library/alpine", null, null, "docker.io/library/alpine:latest");
+            assertReference(ImageReference.parse("docker.io/library/alpine"), "docker.io", "library/alpine", null, null, "docker.io/library/alpine:latest");
+            assertReference(ImageReference.parse("index.docker.io/owner/app"), "docker.io", "owner/app", null, null, "docker.io/owner/app:latest");
+        });
+
+        it("registry", () => {
+            const reference = ImageReference.parse("ghcr.io/owner/app/cli:v2");
+            assertReference(reference, "ghcr.io", "owner/app/cli", "v2", null, "ghcr.io/owner/app/cli:v2");
+            assert.equal(reference.getFamiliarName(), "ghcr.io/owner/app/cli");
+        });
+
+        it("registry with port", () => {
+            assertReference(ImageReference.parse("localhost:5000/app"), "localhost:5000", "app", null, null, "localhost:5000/app:latest");
+            assertReference(ImageReference.parse("registry.example.com:5000/base/image:tag"), "registry.example.com:5000", "base/image", "tag", null, "registry.example.com:5000/base/image:tag");
+            assertReference(ImageReference.parse("[::1]:5000/app"), "[::1]:5000", "app", null, null, "[::1]:5000/app:latest");
+        });
+
+        it("localhost", () => {
+            assertReference(ImageReference.parse("localhost/app"), "localhost", "app", null, null, "localhost/app:latest");
+        });
+
+        it("path separators", () => {
+            assert.notEqual(ImageReference.parse("my_app"), null);
+            assert.notEqual(ImageReference.parse("my__app"), null);
+            assert.notEqual(ImageReference.parse("my.app"), null);
+            assert.notEqual(ImageReference.parse("my---app"), null);
+            assert.equal(ImageReference.parse("my___app"), null);
+            assert.equal(ImageReference.parse("my..app"), null);
+            assert.equal(ImageReference.parse("-app"), null);
+            assert.equal(ImageReference.parse("app-"), null);
+        });
+
+        it("invalid", () => {
+            assert.equal(ImageReference.parse(""), null);
+            assert.equal(ImageReference.parse("Alpine"), null);
+            assert.equal(ImageReference.parse("owner/App"), null);
+            assert.equal(ImageReference.parse("alpine:"), null);
+            assert.equal(ImageReference.parse("alpine:.tag"), null);
+            assert.equal(ImageReference.parse("alpine:" + "a".repeat(129)), null);
+            assert.equal(ImageReference.parse("alpine@"), null);
+            assert.equal(ImageReference.parse("alpine@sha256:abc"), null);
+            assert.equal(ImageReference.parse("alpine//app"), null);
+            assert.equal(ImageReference.parse("-registry.com/app"), null);
+            assert.equal(ImageReference.parse("$image"), null);
+            assert.equal(ImageReference.parse("--platform=linux/amd64"), null);
+            assert.equal(ImageReference.parse("613685c22f65d01f2264bdd49b8a336488e14faf29f3ff9b6bf76a4da23c4700"), null);
+            assert.equal(ImageReference.parse("registry.com/" + "a".repeat(255)), null);
+        });
+    });
+});
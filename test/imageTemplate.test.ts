@@ -5,9 +5,11 @@
 import * as assert from "assert";
 
 import { Position, Range } from 'vscode-languageserver-types';
-import { DockerfileParser } from '../src/main';
+import { BuildKitVariables, DockerfileParser, PlatformVariables } from '../src/main';
 import { assertRange } from './util';
 
+const predefined = PlatformVariables.length + BuildKitVariables.length;
+
 describe("ImageTemplate", () => {
     describe("dockerfile", () => {
         it("contains", () => {
@@ -95,7 +97,7 @@ describe("ImageTemplate", () => {
         it("getAvailableVariables", () => {
             let dockerfile = DockerfileParser.parse("FROM node\nARG var=value\nENV var=value\nRUN echo $var");
             let variables = dockerfile.getAvailableVariables(0);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(1);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(2);
@@ -107,7 +109,7 @@ describe("ImageTemplate", () => {
 
             dockerfile = DockerfileParser.parse("FROM node\nARG var=value\nENV var2=value\nRUN echo $var");
             variables = dockerfile.getAvailableVariables(0);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(1);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(2);
@@ -120,7 +122,7 @@ describe("ImageTemplate", () => {
 
             dockerfile = DockerfileParser.parse("FROM node\nARG\nENV var=value\nRUN echo $var");
             variables = dockerfile.getAvailableVariables(0);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(1);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(2);
@@ -131,7 +133,7 @@ describe("ImageTemplate", () => {
 
             dockerfile = DockerfileParser.parse("FROM node\nARG var=value\nARG var=value2\nRUN echo $var");
             variables = dockerfile.getAvailableVariables(0);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(1);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(2);
@@ -145,10 +147,10 @@ describe("ImageTemplate", () => {
             variables = dockerfile.getAvailableVariables(0);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(1);
-            assert.equal(variables.length, 1);
+            assert.equal(variables.length, 1 + predefined);
             assert.equal(variables[0], "tag");
             variables = dockerfile.getAvailableVariables(2);
-            assert.equal(variables.length, 1);
+            assert.equal(variables.length, 1 + predefined);
             assert.equal(variables[0], "tag");
 
             // invalid line numbers that are outside the parsed Dockerfile
@@ -162,7 +164,7 @@ describe("ImageTemplate", () => {
             variables = dockerfile.getAvailableVariables(0);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(1);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
         });
 
         it("getComments", () => {
@@ -286,11 +288,11 @@ describe("ImageTemplate", () => {
         it("getAvailableVariables", () => {
             let dockerfile = DockerfileParser.parse("FROM node\nARG var=value\nFROM node\nRUN echo $var");
             let variables = dockerfile.getAvailableVariables(0);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(1);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(2);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(3);
             assert.equal(variables.length, 0);
 
@@ -307,11 +309,11 @@ describe("ImageTemplate", () => {
 
             dockerfile = DockerfileParser.parse("FROM node\nENV var=value\nFROM node\nRUN echo $var");
             variables = dockerfile.getAvailableVariables(0);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(1);
             assert.equal(variables.length, 0);
             variables = dockerfile.getAvailableVariables(2);
-            assert.equal(variables.length, 0);
+            assert.equal(variables.length, predefined);
             variables = dockerfile.getAvailableVariables(3);
             assert.equal(variables.length, 0);
 
@@ -0,0 +1,103 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { DockerfileParser, InstalledPackage, PackageManager } from '../src/main';
+
+function getPackages(command: string): InstalledPackage[] {
+    return DockerfileParser.parse("FROM alpine\nRUN " + command).getInstalledPackages();
+}
+
+function assertPackages(packages: InstalledPackage[], manager: PackageManager, expected: string[]) {
+    assert.deepStrictEqual(packages.map(installed => installed.toString()), expected);
+    for (const installed of packages) {
+        assert.equal(installed.getManager(), manager);
+    }
+}
+
+describe("InstalledPackage", () => {
+    it("apt-get", () => {
+        const packages = getPackages("apt-get update && apt-get install -y --no-install-recommends curl=7.88.1-10 ca-certificates libc6:amd64=2.36 nginx/bookworm-backports");
+        assertPackages(packages, PackageManager.APT, [ "curl@7.88.1-10", "ca-certificates", "libc6@2.36", "nginx" ]);
+        assert.equal(packages[0].getName(), "curl");
+        assert.equal(packages[0].getVersion(), "7.88.1-10");
+        assert.equal(packages[1].getVersion(), null);
+        assertRange(packages[0].getRange(), 1, 65, 1, 79);
+    });
+
+    it("apt", () => {
+        assertPackages(getPackages("apt -o Acquire::Retries=3 -qq install git ./local.deb"), PackageManager.APT, [ "git" ]);
+        assertPackages(getPackages("sudo -E apt-get -t bullseye install vim"), PackageManager.APT, [ "vim" ]);
+        assertPackages(getPackages("apt-get remove curl"), PackageManager.APT, []);
+    });
+
+    it("apk", () => {
+        assertPackages(getPackages("apk add --no-cache --virtual .build-deps gcc=12.2.1-r4 musl-dev~1.2 'python3>3.10'"), PackageManager.APK, [ "gcc@12.2.1-r4", "musl-dev@1.2", "python3" ]);
+        assertPackages(getPackages("apk del curl"), PackageManager.APK, []);
+    });
+
+    it("yum and dnf", () => {
+        assertPackages(getPackages("yum -y install httpd-2.4.6-97.el7 python3-pip && yum clean all"), PackageManager.YUM, [ "httpd@2.4.6-97.el7", "python3-pip" ]);
+        assertPackages(getPackages("dnf install -y --setopt=tsflags=nodocs git"), PackageManager.DNF, [ "git" ]);
+        assertPackages(getPackages("/usr/bin/microdnf install jq"), PackageManager.DNF, [ "jq" ]);
+        assertPackages(getPackages("yum install -y java-11-openjdk java-11-openjdk-devel-11.0.20.0.8-1.el9 nginx-1.20.1 gcc-c++"), PackageManager.YUM, [ "java-11-openjdk", "java-11-openjdk-devel@11.0.20.0.8-1.el9", "nginx@1.20.1", "gcc-c++" ]);
+    });
+
+    it("pip", () => {
+        assertPackages(getPackages("pip install --no-cache-dir -r requirements.txt flask==2.3.2 'requests[socks]==2.31.0' 'django>=4' ."), PackageManager.PIP, [ "flask@2.3.2", "requests@2.31.0", "django" ]);
+        assertPackages(getPackages("python3 -m pip install -U pip setuptools==68.0.0"), PackageManager.PIP, [ "pip", "setuptools@68.0.0" ]);
+        assertPackages(getPackages("pip3 install -e ./src"), PackageManager.PIP, []);
+    });
+
+    it("npm", () => {
+        assertPackages(getPackages("npm install -g typescript@5.1.6 @angular/cli@16 yarn"), PackageManager.NPM, [ "typescript@5.1.6", "@angular/cli@16", "yarn" ]);
+        assertPackages(getPackages("npm i --global pm2"), PackageManager.NPM, [ "pm2" ]);
+        assertPackages(getPackages("npm install express"), PackageManager.NPM, []);
+    });
+
+    it("gem", () => {
+        assertPackages(getPackages("gem install bundler:2.4.10 rake --no-document"), PackageManager.GEM, [ "bundler@2.4.10", "rake" ]);
+        assertPackages(getPackages("gem install rails -v 7.0.4"), PackageManager.GEM, [ "rails@7.0.4" ]);
+    });
+
+    it("variables", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nARG CURL_VERSION=8.1.2-r0\nENV PKG=git\nRUN apk add curl=${CURL_VERSION} $PKG '$LITERAL' $UNKNOWN");
+        assertPackages(dockerfile.getInstalledPackages(), PackageManager.APK, [ "curl@8.1.2-r0", "git", "$LITERAL", "$UNKNOWN" ]);
+    });
+
+    it("escape directive", () => {
+        const dockerfile = DockerfileParser.parse("# escape=`\nFROM alpine\nARG PKG=git\nRUN apk add $PKG `\n  curl=${CURL_VERSION:-8.1.2-r0}");
+        assertPackages(dockerfile.getInstalledPackages(), PackageManager.APK, [ "git", "curl@8.1.2-r0" ]);
+    });
+
+    it("command substitutions", () => {
+        assertPackages(getPackages("apt-get install -y $(cat packages.txt) `cat more.txt` curl"), PackageManager.APT, [ "curl" ]);
+        assertPackages(getPackages("yum install -y \"$(cat packages.txt)\" git"), PackageManager.YUM, [ "git" ]);
+    });
+
+    it("line continuations", () => {
+        const dockerfile = DockerfileParser.parse("FROM debian\nRUN apt-get update \\\n  && apt-get install -y \\\n# tools\n    curl \\\n    git=1:2.39.2-1.1");
+        const packages = dockerfile.getRUNs()[0].getInstalledPackages();
+        assertPackages(packages, PackageManager.APT, [ "curl", "git@1:2.39.2-1.1" ]);
+        assertRange(packages[1].getRange(), 5, 4, 5, 20);
+        assert.equal(packages[1].getInstruction(), dockerfile.getRUNs()[0]);
+    });
+
+    it("heredoc", () => {
+        const dockerfile = DockerfileParser.parse("FROM debian\nRUN <<EOF\napt-get install -y curl\nEOF");
+        const packages = dockerfile.getInstalledPackages();
+        assertPackages(packages, PackageManager.APT, [ "curl" ]);
+        assertRange(packages[0].getRange(), 2, 19, 2, 23);
+    });
+
+    it("build stages", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine AS build\nRUN apk add gcc\nFROM alpine\nRUN apk add curl\nRUN [ \"apk\", \"add\", \"git\" ]");
+        const buildStages = dockerfile.getBuildStages();
+        assertPackages(buildStages[0].getInstalledPackages(), PackageManager.APK, [ "gcc" ]);
+        assertPackages(buildStages[1].getInstalledPackages(), PackageManager.APK, [ "curl" ]);
+        assertPackages(dockerfile.getInstalledPackages(), PackageManager.APK, [ "gcc", "curl" ]);
+    });
+});
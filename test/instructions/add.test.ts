@@ -5,7 +5,7 @@
 import * as assert from "assert";
 
 import { assertRange } from '../util';
-import { DockerfileParser, Add } from '../../src/main';
+import { DockerfileParser, Add, AddSourceType, DiagnosticCode } from '../../src/main';
 
 describe("ADD", () => {
     it("getFlags", () => {
@@ -13,4 +13,103 @@ describe("ADD", () => {
         let instruction = dockerfile.getInstructions()[0] as Add;
         assert.equal(instruction.getFlags().length, 1);
     });
+
+    it("getFlags with multiple flags", () => {
+        const dockerfile = DockerfileParser.parse("ADD --chown=app:app --chmod=700 --link --exclude=*.txt https://example.com/a.tar.gz /a");
+        const instruction = dockerfile.getInstructions()[0] as Add;
+        assert.equal(instruction.getFlags().length, 4);
+        assert.equal(instruction.getChownUser(), "app");
+        assert.equal(instruction.getChownGroup(), "app");
+        assert.equal(instruction.getChmodOctal(), 448);
+        assert.equal(instruction.isLink(), true);
+        assert.deepStrictEqual(instruction.getExcludes(), [ "*.txt" ]);
+    });
+
+    it("--checksum", () => {
+        let instruction = DockerfileParser.parse("ADD --checksum=sha256:24454f830cdb571e2c4ad15481119c43b3cafd48dd869a9b2945d1036d1dc68d https://example.com/a /a").getInstructions()[0] as Add;
+        assert.equal(instruction.getChecksum(), "sha256:24454f830cdb571e2c4ad15481119c43b3cafd48dd869a9b2945d1036d1dc68d");
+        assertRange(instruction.getChecksumFlag().getValueRange(), 0, 15, 0, 86);
+
+        instruction = DockerfileParser.parse("ADD https://example.com/a /a").getInstructions()[0] as Add;
+        assert.equal(instruction.getChecksumFlag(), null);
+        assert.equal(instruction.getChecksum(), null);
+    });
+
+    it("--keep-git-dir", () => {
+        let instruction = DockerfileParser.parse("ADD --keep-git-dir https://github.com/moby/buildkit.git /src").getInstructions()[0] as Add;
+        assert.ok(instruction.getKeepGitDirFlag() !== null);
+        assert.equal(instruction.isKeepGitDir(), true);
+
+        instruction = DockerfileParser.parse("ADD --keep-git-dir=false https://github.com/moby/buildkit.git /src").getInstructions()[0] as Add;
+        assert.equal(instruction.isKeepGitDir(), false);
+
+        instruction = DockerfileParser.parse("ADD https://github.com/moby/buildkit.git /src").getInstructions()[0] as Add;
+        assert.equal(instruction.getKeepGitDirFlag(), null);
+        assert.equal(instruction.isKeepGitDir(), false);
+    });
+
+    it("getDiagnostics", () => {
+        let dockerfile = DockerfileParser.parse("ADD --chown=app --chmod=644 --link --exclude=a --exclude=b --checksum=sha256:abc --keep-git-dir /a /b");
+        assert.equal(dockerfile.getDiagnostics().length, 0);
+
+        dockerfile = DockerfileParser.parse("ADD --from=build --parents --link --link /a /b");
+        const diagnostics = dockerfile.getDiagnostics();
+        assert.equal(diagnostics.length, 3);
+        assert.equal(diagnostics[0].code, DiagnosticCode.UnknownFlag);
+        assert.equal(diagnostics[0].message, "Unknown flag: from");
+        assertRange(diagnostics[0].range, 0, 6, 0, 10);
+        assert.equal(diagnostics[1].code, DiagnosticCode.UnknownFlag);
+        assert.equal(diagnostics[1].message, "Unknown flag: parents");
+        assert.equal(diagnostics[2].code, DiagnosticCode.DuplicateFlag);
+        assert.equal(diagnostics[2].message, "Duplicate flag specified: link");
+        assertRange(diagnostics[2].range, 0, 36, 0, 40);
+    });
+
+    it("getSources and getDestination", () => {
+        let instruction = DockerfileParser.parse("ADD --link a.tar.gz https://example.com/b /opt/").getInstructions()[0] as Add;
+        assert.deepStrictEqual(instruction.getSources().map(source => source.getValue()), [ "a.tar.gz", "https://example.com/b" ]);
+        assertRange(instruction.getSources()[1].getRange(), 0, 20, 0, 41);
+        assert.equal(instruction.getDestination().getValue(), "/opt/");
+
+        instruction = DockerfileParser.parse("ADD [ \"a.tar.gz\", \"/opt/\" ]").getInstructions()[0] as Add;
+        assert.deepStrictEqual(instruction.getSources().map(source => source.getValue()), [ "a.tar.gz" ]);
+        assertRange(instruction.getSources()[0].getRange(), 0, 7, 0, 15);
+        assert.equal(instruction.getDestination().getValue(), "/opt/");
+    });
+
+    it("flag after a source with a double dash", () => {
+        const instruction = DockerfileParser.parse("ADD a--b --link /d").getInstructions()[0] as Add;
+        assert.equal(instruction.getFlags().length, 0);
+        assert.equal(instruction.isLink(), false);
+        assert.deepStrictEqual(instruction.getSources().map(source => source.getValue()), [ "a--b", "--link" ]);
+        assert.equal(instruction.getDestination().getValue(), "/d");
+    });
+
+    it("getSourceType", () => {
+        const sources = [
+            [ "app.jar", AddSourceType.PATH ],
+            [ "./src", AddSourceType.PATH ],
+            [ "rootfs.tar", AddSourceType.ARCHIVE ],
+            [ "rootfs.tar.gz", AddSourceType.ARCHIVE ],
+            [ "rootfs.TGZ", AddSourceType.ARCHIVE ],
+            [ "rootfs.tar.xz", AddSourceType.ARCHIVE ],
+            [ "rootfs.tar.bz2", AddSourceType.ARCHIVE ],
+            [ "http://example.com/app.jar", AddSourceType.URL ],
+            [ "https://example.com/rootfs.tar.gz", AddSourceType.URL ],
+            [ "https://github.com/moby/buildkit.git", AddSourceType.GIT ],
+            [ "https://github.com/moby/buildkit.git#v0.12.0", AddSourceType.GIT ],
+            [ "https://github.com/moby/buildkit.git#main:docs", AddSourceType.GIT ],
+            [ "git@github.com:moby/buildkit.git", AddSourceType.GIT ],
+            [ "git://github.com/moby/buildkit", AddSourceType.GIT ],
+            [ "ssh://git@github.com/moby/buildkit", AddSourceType.GIT ]
+        ];
+        for (const source of sources) {
+            const instruction = DockerfileParser.parse("ADD " + source[0] + " /opt/").getInstructions()[0] as Add;
+            assert.equal(instruction.getSourceType(instruction.getSources()[0]), source[1], source[0]);
+        }
+
+        const dockerfile = DockerfileParser.parse("FROM alpine\nARG REPO=https://github.com/moby/buildkit.git\nADD $REPO /src");
+        const instruction = dockerfile.getInstructions()[2] as Add;
+        assert.equal(instruction.getSourceType(instruction.getSources()[0]), AddSourceType.GIT);
+    });
 });
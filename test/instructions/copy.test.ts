@@ -5,7 +5,7 @@
 import * as assert from "assert";
 
 import { assertRange } from '../util';
-import { DockerfileParser } from '../../src/main';
+import { DockerfileParser, DiagnosticCode } from '../../src/main';
 
 describe("COPY", () => {
     describe("--from", () => {
@@ -32,4 +32,148 @@ describe("COPY", () => {
             assert.equal(copies[0].getArgumentsContent(), "app.zip app.zip");
         });
     });
+
+    describe("flags", () => {
+        it("getFromFlag with other flags", () => {
+            const copy = DockerfileParser.parse("COPY --from=build --chown=app:app /a /b").getCOPYs()[0];
+            const flag = copy.getFromFlag();
+            assert.equal(flag.getValue(), "build");
+            assertRange(flag.getValueRange(), 0, 12, 0, 17);
+            assert.equal(copy.getFrom(), "build");
+            assert.equal(DockerfileParser.parse("COPY --from=a --from=b /a /b").getCOPYs()[0].getFrom(), "b");
+            assert.equal(DockerfileParser.parse("COPY --from /a /b").getCOPYs()[0].getFrom(), null);
+        });
+
+        it("--chown", () => {
+            let copy = DockerfileParser.parse("COPY --chown=app:staff /a /b").getCOPYs()[0];
+            assert.equal(copy.getChownFlag().getValue(), "app:staff");
+            assert.equal(copy.getChownUser(), "app");
+            assert.equal(copy.getChownGroup(), "staff");
+
+            copy = DockerfileParser.parse("COPY --chown=1000 /a /b").getCOPYs()[0];
+            assert.equal(copy.getChownUser(), "1000");
+            assert.equal(copy.getChownGroup(), null);
+
+            copy = DockerfileParser.parse("COPY --chown=:1000 /a /b").getCOPYs()[0];
+            assert.equal(copy.getChownUser(), null);
+            assert.equal(copy.getChownGroup(), "1000");
+
+            copy = DockerfileParser.parse("COPY /a /b").getCOPYs()[0];
+            assert.equal(copy.getChownFlag(), null);
+            assert.equal(copy.getChownUser(), null);
+            assert.equal(copy.getChownGroup(), null);
+        });
+
+        it("--chmod", () => {
+            let copy = DockerfileParser.parse("COPY --chmod=755 /a /b").getCOPYs()[0];
+            assert.equal(copy.getChmod(), "755");
+            assert.equal(copy.getChmodOctal(), 493);
+
+            copy = DockerfileParser.parse("COPY --chmod=u=rwx,go=rx /a /b").getCOPYs()[0];
+            assert.equal(copy.getChmod(), "u=rwx,go=rx");
+            assert.equal(copy.getChmodOctal(), null);
+
+            copy = DockerfileParser.parse("COPY /a /b").getCOPYs()[0];
+            assert.equal(copy.getChmodFlag(), null);
+            assert.equal(copy.getChmod(), null);
+            assert.equal(copy.getChmodOctal(), null);
+        });
+
+        it("--link and --parents", () => {
+            let copy = DockerfileParser.parse("COPY --link --parents /a /b").getCOPYs()[0];
+            assert.equal(copy.isLink(), true);
+            assert.equal(copy.isParents(), true);
+            assert.ok(copy.getLinkFlag() !== null);
+            assert.ok(copy.getParentsFlag() !== null);
+
+            copy = DockerfileParser.parse("COPY --link=true --parents=false /a /b").getCOPYs()[0];
+            assert.equal(copy.isLink(), true);
+            assert.equal(copy.isParents(), false);
+
+            copy = DockerfileParser.parse("COPY /a /b").getCOPYs()[0];
+            assert.equal(copy.isLink(), false);
+            assert.equal(copy.isParents(), false);
+        });
+
+        it("--exclude", () => {
+            const copy = DockerfileParser.parse("COPY --exclude=*.md --exclude=docs --exclude /a /b").getCOPYs()[0];
+            assert.equal(copy.getExcludeFlags().length, 3);
+            assert.deepStrictEqual(copy.getExcludes(), [ "*.md", "docs" ]);
+            assert.deepStrictEqual(copy.getArguments().map(arg => arg.getValue()), [ "/a", "/b" ]);
+        });
+
+        it("flag after a source with a double dash", () => {
+            const copy = DockerfileParser.parse("COPY my--file --chown=1:2 /dst").getCOPYs()[0];
+            assert.equal(copy.getFlags().length, 0);
+            assert.equal(copy.getChownFlag(), null);
+            assert.deepStrictEqual(copy.getSources().map(source => source.getValue()), [ "my--file", "--chown=1:2" ]);
+            assert.equal(copy.getDestination().getValue(), "/dst");
+        });
+    });
+
+    describe("getDiagnostics", () => {
+        it("supported flags", () => {
+            const dockerfile = DockerfileParser.parse("COPY --from=build --chown=app --chmod=644 --link --parents --exclude=a --exclude=b /a /b");
+            assert.equal(dockerfile.getCOPYs()[0].getDiagnostics().length, 0);
+            assert.equal(dockerfile.getDiagnostics().length, 0);
+        });
+
+        it("unknown flags", () => {
+            const dockerfile = DockerfileParser.parse("COPY --checksum=sha256:abc --FROM=build /a /b");
+            const diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 2);
+            assert.equal(diagnostics[0].code, DiagnosticCode.UnknownFlag);
+            assert.equal(diagnostics[0].message, "Unknown flag: checksum");
+            assertRange(diagnostics[0].range, 0, 7, 0, 15);
+            assert.equal(diagnostics[1].message, "Unknown flag: FROM");
+            assertRange(diagnostics[1].range, 0, 29, 0, 33);
+        });
+
+        it("duplicate flags", () => {
+            const dockerfile = DockerfileParser.parse("COPY --from=a --chown=app --from=b /a /b");
+            const diagnostics = dockerfile.getDiagnostics();
+            assert.equal(diagnostics.length, 1);
+            assert.equal(diagnostics[0].code, DiagnosticCode.DuplicateFlag);
+            assert.equal(diagnostics[0].message, "Duplicate flag specified: from");
+            assertRange(diagnostics[0].range, 0, 28, 0, 32);
+        });
+    });
+
+    describe("getSources and getDestination", () => {
+        it("shell form", () => {
+            const copy = DockerfileParser.parse("COPY --chown=app a.txt \\\n  b.txt /app/").getCOPYs()[0];
+            const sources = copy.getSources();
+            assert.equal(sources.length, 2);
+            assert.equal(sources[0].getValue(), "a.txt");
+            assertRange(sources[0].getRange(), 0, 17, 0, 22);
+            assert.equal(sources[1].getValue(), "b.txt");
+            assertRange(sources[1].getRange(), 1, 2, 1, 7);
+            assert.equal(copy.getDestination().getValue(), "/app/");
+            assertRange(copy.getDestination().getRange(), 1, 8, 1, 13);
+        });
+
+        it("JSON form", () => {
+            const copy = DockerfileParser.parse("COPY --chown=app [ \"a b.txt\", \"/app/\" ]").getCOPYs()[0];
+            const sources = copy.getSources();
+            assert.equal(sources.length, 1);
+            assert.equal(sources[0].getValue(), "a b.txt");
+            assertRange(sources[0].getRange(), 0, 20, 0, 27);
+            assert.equal(copy.getDestination().getValue(), "/app/");
+            assertRange(copy.getDestination().getRange(), 0, 31, 0, 36);
+        });
+
+        it("incomplete", () => {
+            let copy = DockerfileParser.parse("COPY a.txt").getCOPYs()[0];
+            assert.deepStrictEqual(copy.getSources().map(source => source.getValue()), [ "a.txt" ]);
+            assert.equal(copy.getDestination(), null);
+
+            copy = DockerfileParser.parse("COPY --from=build").getCOPYs()[0];
+            assert.equal(copy.getSources().length, 0);
+            assert.equal(copy.getDestination(), null);
+
+            copy = DockerfileParser.parse("COPY []").getCOPYs()[0];
+            assert.equal(copy.getSources().length, 0);
+            assert.equal(copy.getDestination(), null);
+        });
+    });
 });
@@ -0,0 +1,79 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from '../util';
+import { DockerfileParser, Expose, Port } from '../../src/main';
+
+function assertPort(port: Port, value: string, start: number | null, end: number | null, protocol: string | null) {
+    assert.equal(port.getValue(), value);
+    assert.equal(port.getStart(), start);
+    assert.equal(port.getEnd(), end);
+    assert.equal(port.getProtocol(), protocol);
+}
+
+describe("EXPOSE", () => {
+    it("getPorts", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nEXPOSE 80 8000-8010/udp 9000/SCTP");
+        const exposes = dockerfile.getEXPOSEs();
+        assert.equal(exposes.length, 1);
+        const ports = exposes[0].getPorts();
+        assert.equal(ports.length, 3);
+
+        assertPort(ports[0], "80", 80, 80, null);
+        assert.equal(ports[0].isRange(), false);
+        assert.equal(ports[0].getEffectiveProtocol(), "tcp");
+        assertRange(ports[0].getRange(), 1, 7, 1, 9);
+        assertRange(ports[0].getPortRange(), 1, 7, 1, 9);
+        assert.equal(ports[0].getProtocolRange(), null);
+
+        assertPort(ports[1], "8000-8010/udp", 8000, 8010, "udp");
+        assert.equal(ports[1].getPort(), "8000-8010");
+        assert.equal(ports[1].isRange(), true);
+        assertRange(ports[1].getPortRange(), 1, 10, 1, 19);
+        assertRange(ports[1].getProtocolRange(), 1, 20, 1, 23);
+
+        assertPort(ports[2], "9000/SCTP", 9000, 9000, "SCTP");
+        assert.equal(ports[2].getEffectiveProtocol(), "sctp");
+    });
+
+    it("variables", () => {
+        let dockerfile = DockerfileParser.parse("FROM alpine\nARG port=8080\nEXPOSE ${port}/udp $undefined");
+        let ports = dockerfile.getEXPOSEs()[0].getPorts();
+        assert.equal(ports.length, 2);
+        assertPort(ports[0], "8080/udp", 8080, 8080, "udp");
+        assertRange(ports[0].getPortRange(), 2, 7, 2, 14);
+        assertRange(ports[0].getProtocolRange(), 2, 15, 2, 18);
+        assertPort(ports[1], "$undefined", null, null, null);
+
+        dockerfile = DockerfileParser.parse("FROM alpine\nENV spec=53/udp\nEXPOSE $spec");
+        ports = dockerfile.getEXPOSEs()[0].getPorts();
+        assertPort(ports[0], "53/udp", 53, 53, "udp");
+        assertRange(ports[0].getPortRange(), 2, 7, 2, 12);
+        assert.equal(ports[0].getProtocolRange(), null);
+    });
+
+    it("isValid", () => {
+        const ports = (DockerfileParser.parse("EXPOSE 80 0-65535/UDP 8080/sctp 80/ 65536 70000/tcp 82-81 80/foo 8o").getInstructions()[0] as Expose).getPorts();
+        assert.deepStrictEqual(ports.map(port => port.isValid()), [ true, true, true, true, false, false, false, false, false ]);
+        assert.equal(ports[4].getStart(), null);
+        assert.equal(ports[5].getEnd(), null);
+    });
+
+    it("getExposedPorts", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nEXPOSE 80 80/tcp 81-82/udp\nEXPOSE $x\nFROM busybox\nEXPOSE 443");
+        assert.deepStrictEqual(dockerfile.getExposedPorts(), [ "80/tcp", "81/udp", "82/udp", "443/tcp" ]);
+        const stage = dockerfile.getContainingImage({ line: 4, character: 0 });
+        assert.deepStrictEqual(stage.getExposedPorts(), [ "443/tcp" ]);
+
+        const invalid = DockerfileParser.parse("FROM alpine\nEXPOSE 70000/tcp 80/foo 82-81 65535/SCTP");
+        assert.deepStrictEqual(invalid.getExposedPorts(), [ "65535/sctp" ]);
+        assert.deepStrictEqual(invalid.getBuildStages()[0].getImageConfig().ExposedPorts, { "65535/sctp": {} });
+
+        const all = DockerfileParser.parse("FROM alpine\nEXPOSE 0-65535 1-20000").getExposedPorts();
+        assert.equal(all.length, 65536);
+        assert.equal(all[65535], "65535/tcp");
+    });
+});
@@ -1349,4 +1349,77 @@ describe("FROM", () => {
         assert.equal(from.getRegistryRange(), null);
         assert.equal(from.getBuildStage(), "stage");
     });
+
+    describe("flags", () => {
+        it("--platform", () => {
+            const dockerfile = DockerfileParser.parse("FROM --platform=$BUILDPLATFORM golang:1.21 AS build");
+            const from = dockerfile.getFROMs()[0];
+            assert.equal(from.getFlags().length, 1);
+            assert.equal(from.getPlatform(), "$BUILDPLATFORM");
+            assertRange(from.getPlatformFlag().getRange(), 0, 5, 0, 30);
+            assertRange(from.getPlatformFlag().getValueRange(), 0, 16, 0, 30);
+            assert.equal(from.getArguments().length, 3);
+            assert.equal(from.getImage(), "golang:1.21");
+            assertRange(from.getImageRange(), 0, 31, 0, 42);
+            assert.equal(from.getImageName(), "golang");
+            assert.equal(from.getImageTag(), "1.21");
+            assert.equal(from.getRegistry(), null);
+            assert.equal(from.getBuildStage(), "build");
+            assert.equal(from.getImageReference().toString(), "docker.io/library/golang:1.21");
+            assert.equal(dockerfile.getBuildStages()[0].getName(), "build");
+        });
+
+        it("multiple flags", () => {
+            const from = DockerfileParser.parse("FROM --platform=linux/arm64 --platform=linux/amd64 alpine").getFROMs()[0];
+            assert.equal(from.getFlags().length, 2);
+            assert.equal(from.getPlatform(), "linux/amd64");
+            assert.equal(from.getImage(), "alpine");
+        });
+
+        it("--platform without a value", () => {
+            const from = DockerfileParser.parse("FROM --platform alpine").getFROMs()[0];
+            assert.equal(from.getPlatform(), null);
+            assert.notEqual(from.getPlatformFlag(), null);
+            assert.equal(from.getImage(), "alpine");
+        });
+
+        it("flag only", () => {
+            const from = DockerfileParser.parse("FROM --platform=linux/amd64").getFROMs()[0];
+            assert.equal(from.getPlatform(), "linux/amd64");
+            assert.equal(from.getImage(), null);
+            assert.equal(from.getImageRange(), null);
+            assert.equal(from.getImageReference(), null);
+        });
+
+        it("flag after an image with a double dash", () => {
+            const from = DockerfileParser.parse("FROM my--image --platform=linux/amd64").getFROMs()[0];
+            assert.equal(from.getFlags().length, 0);
+            assert.equal(from.getPlatformFlag(), null);
+            assert.equal(from.getImage(), "my--image");
+        });
+
+        it("no flags", () => {
+            const from = DockerfileParser.parse("FROM alpine AS --platform=linux/amd64").getFROMs()[0];
+            assert.equal(from.getFlags().length, 0);
+            assert.equal(from.getPlatformFlag(), null);
+            assert.equal(from.getPlatform(), null);
+        });
+    });
+
+    describe("getImageReference", () => {
+        it("expanded", () => {
+            const dockerfile = DockerfileParser.parse("ARG registry=localhost:5000\nARG version\nFROM $registry/app:${version:-1.0}", { buildArgs: { version: "2.0" } });
+            assert.equal(dockerfile.getFROMs()[0].getImageReference().toString(), "localhost:5000/app:2.0");
+        });
+
+        it("unresolved variable", () => {
+            const from = DockerfileParser.parse("FROM $image").getFROMs()[0];
+            assert.equal(from.getImageReference(), null);
+        });
+
+        it("invalid", () => {
+            const from = DockerfileParser.parse("FROM Alpine").getFROMs()[0];
+            assert.equal(from.getImageReference(), null);
+        });
+    });
 });
@@ -5,7 +5,7 @@
 import * as assert from "assert";
 
 import { assertRange } from '../util';
-import { DockerfileParser, Healthcheck } from '../../src/main';
+import { CommandForm, DiagnosticCode, DockerfileParser, Healthcheck } from '../../src/main';
 
 describe("HEALTHCHECK", () => {
     it("getSubcommand", () => {
@@ -21,4 +21,118 @@ describe("HEALTHCHECK", () => {
         assert.equal(subcommand.getValue(), "NONE");
         assertRange(subcommand.getRange(), 0, 12, 0, 16);
     });
+
+    it("getForm", () => {
+        const healthchecks = DockerfileParser.parse("FROM alpine\nHEALTHCHECK\nHEALTHCHECK NONE\nHEALTHCHECK CMD\nHEALTHCHECK CMD ls\nHEALTHCHECK --interval=5s CMD [ \"ls\" ]\nHEALTHCHECK CMD [ 'ls' ]").getHEALTHCHECKs();
+        assert.equal(healthchecks[0].getForm(), null);
+        assert.equal(healthchecks[1].getForm(), null);
+        assert.equal(healthchecks[2].getForm(), null);
+        assert.equal(healthchecks[3].getForm(), CommandForm.SHELL);
+        assert.equal(healthchecks[4].getForm(), CommandForm.EXEC);
+        assert.equal(healthchecks[5].getForm(), CommandForm.SHELL);
+    });
+
+    it("getArgv", () => {
+        const content = "FROM alpine\nHEALTHCHECK NONE\nHEALTHCHECK --interval=5s CMD curl -f \\\n  http://localhost\nSHELL [ \"bash\", \"-c\" ]\nHEALTHCHECK cmd [ \"curl\", \"-f\", \"http://localhost\" ]\nHEALTHCHECK CMD ls";
+        const healthchecks = DockerfileParser.parse(content).getHEALTHCHECKs();
+        assert.deepStrictEqual(healthchecks[0].getArgv(), []);
+        assert.deepStrictEqual(healthchecks[1].getArgv(), [ "/bin/sh", "-c", "curl -f   http://localhost" ]);
+        assert.deepStrictEqual(healthchecks[2].getArgv(), [ "curl", "-f", "http://localhost" ]);
+        assert.deepStrictEqual(healthchecks[3].getArgv(), [ "bash", "-c", "ls" ]);
+        assert.deepStrictEqual(healthchecks[3].getArgv([ "sh", "-e", "-c" ]), [ "sh", "-e", "-c", "ls" ]);
+    });
+
+    it("durations", () => {
+        let healthcheck = DockerfileParser.parse("HEALTHCHECK --interval=1m30s --timeout=1.5s --start-period=250ms --start-interval=1500us CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getInterval(), 90000);
+        assertRange(healthcheck.getIntervalFlag().getValueRange(), 0, 23, 0, 28);
+        assert.equal(healthcheck.getTimeout(), 1500);
+        assertRange(healthcheck.getTimeoutFlag().getValueRange(), 0, 39, 0, 43);
+        assert.equal(healthcheck.getStartPeriod(), 250);
+        assert.equal(healthcheck.getStartPeriodFlag().getValue(), "250ms");
+        assert.equal(healthcheck.getStartInterval(), 1.5);
+        assert.equal(healthcheck.getStartIntervalFlag().getValue(), "1500us");
+
+        healthcheck = DockerfileParser.parse("HEALTHCHECK --interval=0 --timeout=.5h --start-period=1h2m3s4ms5ns --start-interval=2\u00b5s CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getInterval(), 0);
+        assert.equal(healthcheck.getTimeout(), 1800000);
+        assert.equal(healthcheck.getStartPeriod(), 3723004.000005);
+        assert.equal(healthcheck.getStartInterval(), 0.002);
+
+        healthcheck = DockerfileParser.parse("HEALTHCHECK --interval=5 --timeout=5x --start-period= --start-interval CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getInterval(), null);
+        assert.equal(healthcheck.getTimeout(), null);
+        assert.equal(healthcheck.getStartPeriod(), null);
+        assert.equal(healthcheck.getStartInterval(), null);
+
+        healthcheck = DockerfileParser.parse("HEALTHCHECK CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getIntervalFlag(), null);
+        assert.equal(healthcheck.getInterval(), null);
+        assert.equal(healthcheck.getTimeoutFlag(), null);
+        assert.equal(healthcheck.getStartPeriodFlag(), null);
+        assert.equal(healthcheck.getStartIntervalFlag(), null);
+    });
+
+    it("getRetries", () => {
+        let healthcheck = DockerfileParser.parse("HEALTHCHECK --retries=3 CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getRetries(), 3);
+        assertRange(healthcheck.getRetriesFlag().getValueRange(), 0, 22, 0, 23);
+
+        healthcheck = DockerfileParser.parse("HEALTHCHECK --retries=x CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getRetries(), null);
+
+        healthcheck = DockerfileParser.parse("HEALTHCHECK CMD ls").getHEALTHCHECKs()[0];
+        assert.equal(healthcheck.getRetriesFlag(), null);
+        assert.equal(healthcheck.getRetries(), null);
+    });
+
+    it("getShellScript", () => {
+        const healthchecks = DockerfileParser.parse("HEALTHCHECK --interval=5s CMD curl -f http://localhost || exit 1\nHEALTHCHECK CMD [ \"ls\" ]\nHEALTHCHECK NONE").getHEALTHCHECKs();
+        const script = healthchecks[0].getShellScript();
+        assert.equal(script.getPipelines().length, 2);
+        assert.deepStrictEqual(script.getOperators(), [ "||" ]);
+        assert.equal(script.getCommands()[0].getName().getValue(), "curl");
+        assertRange(script.getCommands()[0].getRange(), 0, 30, 0, 54);
+        assert.equal(healthchecks[1].getShellScript(), null);
+        assert.equal(healthchecks[2].getShellScript(), null);
+    });
+
+    describe("getDiagnostics", () => {
+        it("valid", () => {
+            const dockerfile = DockerfileParser.parse("HEALTHCHECK --interval=30s --timeout=0 --start-period= --start-interval=1ms --retries=3 CMD ls\nHEALTHCHECK NONE");
+            assert.equal(dockerfile.getDiagnostics().length, 0);
+        });
+
+        it("NONE with arguments", () => {
+            const diagnostics = DockerfileParser.parse("HEALTHCHECK NONE CMD ls").getDiagnostics();
+            assert.equal(diagnostics.length, 1);
+            assert.equal(diagnostics[0].code, DiagnosticCode.NoneArguments);
+            assert.equal(diagnostics[0].message, "HEALTHCHECK NONE takes no arguments");
+            assertRange(diagnostics[0].range, 0, 17, 0, 23);
+        });
+
+        it("unknown flags", () => {
+            const diagnostics = DockerfileParser.parse("HEALTHCHECK --interval=5s --Retries=3 CMD ls").getDiagnostics();
+            assert.equal(diagnostics.length, 1);
+            assert.equal(diagnostics[0].code, DiagnosticCode.UnknownFlag);
+            assert.equal(diagnostics[0].message, "Unknown flag: Retries");
+            assertRange(diagnostics[0].range, 0, 28, 0, 35);
+        });
+
+        it("invalid durations", () => {
+            const diagnostics = DockerfileParser.parse("HEALTHCHECK --interval=5 --timeout=-1s --start-period=10us --start-interval CMD ls").getDiagnostics();
+            assert.equal(diagnostics.length, 4);
+            for (const diagnostic of diagnostics) {
+                assert.equal(diagnostic.code, DiagnosticCode.InvalidDuration);
+            }
+            assert.equal(diagnostics[0].message, "Invalid duration: 5");
+            assertRange(diagnostics[0].range, 0, 23, 0, 24);
+            assert.equal(diagnostics[1].message, "Duration of --timeout cannot be negative: -1s");
+            assertRange(diagnostics[1].range, 0, 35, 0, 38);
+            assert.equal(diagnostics[2].message, "Duration of --start-period cannot be less than 1ms: 10us");
+            assertRange(diagnostics[2].range, 0, 54, 0, 58);
+            assert.equal(diagnostics[3].message, "Missing a value on flag: start-interval");
+            assertRange(diagnostics[3].range, 0, 61, 0, 75);
+        });
+    });
 });
@@ -0,0 +1,129 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from '../util';
+import { DockerfileParser, FlagOption, Run } from '../../src/main';
+
+function assertOption(option: FlagOption, name: string, value: string | null) {
+    assert.equal(option.getName(), name);
+    assert.equal(option.getValue(), value);
+}
+
+describe("RUN", () => {
+    it("getRUNs", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nRUN ls\nRUN [ \"ls\" ]");
+        const runs = dockerfile.getRUNs();
+        assert.equal(runs.length, 2);
+        assert.ok(runs[0] instanceof Run);
+        assert.equal(runs[1].getJSONStrings().length, 1);
+    });
+
+    it("flags", () => {
+        const dockerfile = DockerfileParser.parse("RUN --network=none --security=insecure [ \"ls\" ]");
+        const run = dockerfile.getRUNs()[0];
+        assert.equal(run.getFlags().length, 2);
+        assert.equal(run.getNetwork(), "none");
+        assertRange(run.getNetworkFlag().getValueRange(), 0, 14, 0, 18);
+        assert.equal(run.getSecurity(), "insecure");
+        assert.equal(run.getJSONStrings().length, 1);
+        assert.equal(run.getArgumentsContent(), "[ \"ls\" ]");
+    });
+
+    it("no flags", () => {
+        const run = DockerfileParser.parse("RUN ls --network=none").getRUNs()[0];
+        assert.equal(run.getFlags().length, 0);
+        assert.equal(run.getNetworkFlag(), null);
+        assert.equal(run.getNetwork(), null);
+        assert.equal(run.getSecurityFlag(), null);
+        assert.equal(run.getSecurity(), null);
+        assert.equal(run.getMounts().length, 0);
+    });
+
+    it("flag after an argument with a double dash", () => {
+        const run = DockerfileParser.parse("RUN foo--bar --network=none").getRUNs()[0];
+        assert.equal(run.getFlags().length, 0);
+        assert.equal(run.getNetwork(), null);
+        assert.equal(run.getArgumentsContent(), "foo--bar --network=none");
+    });
+
+    describe("--mount", () => {
+        it("type=cache", () => {
+            const run = DockerfileParser.parse("RUN --mount=type=cache,target=/root/.cache,id=pip,sharing=locked pip install").getRUNs()[0];
+            const mounts = run.getMounts();
+            assert.equal(mounts.length, 1);
+            assert.equal(mounts[0].getType(), "cache");
+            assert.equal(mounts[0].getTarget(), "/root/.cache");
+            assert.equal(mounts[0].getId(), "pip");
+            assert.equal(mounts[0].getSharing(), "locked");
+            assert.equal(mounts[0].isReadOnly(), false);
+
+            const options = mounts[0].getOptions();
+            assert.equal(options.length, 4);
+            assertOption(options[0], "type", "cache");
+            assertRange(options[0].getRange(), 0, 12, 0, 22);
+            assertRange(options[0].getNameRange(), 0, 12, 0, 16);
+            assertRange(options[0].getValueRange(), 0, 17, 0, 22);
+            assertOption(options[1], "target", "/root/.cache");
+            assertRange(options[1].getValueRange(), 0, 30, 0, 42);
+            assertOption(options[3], "sharing", "locked");
+            assert.equal(run.getArgumentsContent(), "pip install");
+        });
+
+        it("type=secret", () => {
+            const run = DockerfileParser.parse("RUN --mount=type=secret,id=token,env=TOKEN,required cat").getRUNs()[0];
+            const mount = run.getMounts()[0];
+            assert.equal(mount.getType(), "secret");
+            assert.equal(mount.getId(), "token");
+            assert.equal(mount.getEnv(), "TOKEN");
+            assert.equal(mount.isRequired(), true);
+            const option = mount.getOption("required");
+            assertOption(option, "required", null);
+            assertRange(option.getRange(), 0, 43, 0, 51);
+            assert.equal(option.getValueRange(), null);
+        });
+
+        it("type=ssh", () => {
+            const mount = DockerfileParser.parse("RUN --mount=type=ssh,required=false git clone").getRUNs()[0].getMounts()[0];
+            assert.equal(mount.getType(), "ssh");
+            assert.equal(mount.isRequired(), false);
+        });
+
+        it("type=bind", () => {
+            let mount = DockerfileParser.parse("RUN --mount=from=build,src=/out,dst=/in ls").getRUNs()[0].getMounts()[0];
+            assert.equal(mount.getType(), "bind");
+            assert.equal(mount.getFrom(), "build");
+            assert.equal(mount.getSource(), "/out");
+            assert.equal(mount.getTarget(), "/in");
+            assert.equal(mount.isReadOnly(), true);
+
+            mount = DockerfileParser.parse("RUN --mount=type=bind,rw,target=/in ls").getRUNs()[0].getMounts()[0];
+            assert.equal(mount.isReadOnly(), false);
+        });
+
+        it("type=tmpfs", () => {
+            const mount = DockerfileParser.parse("RUN --mount=type=tmpfs,target=/tmp,size=1g ls").getRUNs()[0].getMounts()[0];
+            assert.equal(mount.getType(), "tmpfs");
+            assert.equal(mount.getSize(), "1g");
+        });
+
+        it("multiple", () => {
+            const run = DockerfileParser.parse("RUN --mount=type=cache,target=/a \\\n --mount=type=secret,id=b ls").getRUNs()[0];
+            const mounts = run.getMounts();
+            assert.equal(mounts.length, 2);
+            assert.equal(mounts[1].getType(), "secret");
+            assertRange(mounts[1].getOption("id").getRange(), 1, 21, 1, 25);
+        });
+
+        it("quoted", () => {
+            const mount = DockerfileParser.parse("RUN --mount=type=bind,\"target=/a,b\" ls").getRUNs()[0].getMounts()[0];
+            assert.equal(mount.getOptions().length, 2);
+            assertOption(mount.getOptions()[1], "target", "/a,b");
+            assertRange(mount.getOptions()[1].getRange(), 0, 23, 0, 34);
+            const option = DockerfileParser.parse("RUN --mount=type=bind,target=\"/a,b\" ls").getRUNs()[0].getMounts()[0].getOption("target");
+            assertOption(option, "target", "/a,b");
+        });
+    });
+});
@@ -5,7 +5,7 @@
 import * as assert from "assert";
 
 import { assertRange } from '../util';
-import { DockerfileParser } from '../../src/main';
+import { DockerfileParser, User } from '../../src/main';
 
 describe("USER", () => {
     it("getKeyword", () => {
@@ -13,4 +13,101 @@ describe("USER", () => {
         let instruction = dockerfile.getInstructions()[0];
         assert.equal(instruction.getKeyword(), "USER");
     });
+
+    function parse(content: string): User {
+        return DockerfileParser.parse(content).getInstructions()[0] as User;
+    }
+
+    it("user", () => {
+        const user = parse("USER node");
+        assert.equal(user.getUser(), "node");
+        assertRange(user.getUserRange(), 0, 5, 0, 9);
+        assert.equal(user.getGroup(), null);
+        assert.equal(user.getGroupRange(), null);
+        assert.equal(user.getUid(), null);
+        assert.equal(user.getGid(), null);
+        assert.equal(user.isRoot(), false);
+    });
+
+    it("user:group", () => {
+        const user = parse("USER node:staff");
+        assert.equal(user.getUser(), "node");
+        assertRange(user.getUserRange(), 0, 5, 0, 9);
+        assert.equal(user.getGroup(), "staff");
+        assertRange(user.getGroupRange(), 0, 10, 0, 15);
+        assert.equal(user.getUid(), null);
+        assert.equal(user.getGid(), null);
+    });
+
+    it("uid:gid", () => {
+        let user = parse("USER 1000:1001");
+        assert.equal(user.getUser(), "1000");
+        assert.equal(user.getUid(), 1000);
+        assert.equal(user.getGroup(), "1001");
+        assert.equal(user.getGid(), 1001);
+        assertRange(user.getGroupRange(), 0, 10, 0, 14);
+
+        user = parse("USER 0");
+        assert.equal(user.getUid(), 0);
+        assert.equal(user.isRoot(), true);
+
+        user = parse("USER root:root");
+        assert.equal(user.isRoot(), true);
+
+        user = parse("USER 1000:");
+        assert.equal(user.getUser(), "1000");
+        assert.equal(user.getGroup(), "");
+        assertRange(user.getGroupRange(), 0, 10, 0, 10);
+        assert.equal(user.getGid(), null);
+    });
+
+    it("variables", () => {
+        let user = DockerfileParser.parse("FROM alpine\nARG uid=1000\nARG gid=1001\nUSER ${uid}:$gid").getInstructions()[3] as User;
+        assert.equal(user.getUser(), "1000");
+        assertRange(user.getUserRange(), 3, 5, 3, 11);
+        assert.equal(user.getUid(), 1000);
+        assert.equal(user.getGroup(), "1001");
+        assertRange(user.getGroupRange(), 3, 12, 3, 16);
+        assert.equal(user.getGid(), 1001);
+
+        user = DockerfileParser.parse("FROM alpine\nARG account=app:staff\nUSER $account").getInstructions()[2] as User;
+        assert.equal(user.getUser(), "app");
+        assertRange(user.getUserRange(), 2, 5, 2, 13);
+        assert.equal(user.getGroup(), "staff");
+        assert.equal(user.getGroupRange(), null);
+
+        user = DockerfileParser.parse("FROM alpine\nENV A=1\nENV B=$A\nUSER $B:${B}0").getInstructions()[3] as User;
+        assert.equal(user.getUser(), "1");
+        assert.equal(user.getUid(), 1);
+        assert.equal(user.getGroup(), "10");
+
+        user = parse("USER ${name:-node}:${group:-staff}");
+        assert.equal(user.getUser(), "node");
+        assertRange(user.getUserRange(), 0, 5, 0, 18);
+        assert.equal(user.getGroup(), "staff");
+        assertRange(user.getGroupRange(), 0, 19, 0, 34);
+
+        user = parse("USER $unknown");
+        assert.equal(user.getUser(), "$unknown");
+        assert.equal(user.getUid(), null);
+    });
+
+    it("no arguments", () => {
+        const user = parse("USER");
+        assert.equal(user.getUser(), null);
+        assert.equal(user.getUserRange(), null);
+        assert.equal(user.getGroup(), null);
+        assert.equal(user.getGroupRange(), null);
+        assert.equal(user.getUid(), null);
+        assert.equal(user.isRoot(), false);
+    });
+
+    it("isRootUser", () => {
+        assert.equal(User.isRootUser("root"), true);
+        assert.equal(User.isRootUser("0"), true);
+        assert.equal(User.isRootUser("0:1000"), true);
+        assert.equal(User.isRootUser("1000:0"), false);
+        assert.equal(User.isRootUser("Root"), false);
+        assert.equal(User.isRootUser("node"), false);
+    });
 });
@@ -6,7 +6,7 @@ import * as assert from "assert";
 import { Position, Range } from 'vscode-languageserver-types';
 
 import { assertRange } from './util';
-import { DockerfileParser, JSONInstruction, Argument } from '../src/main';
+import { CommandForm, DockerfileParser, JSONInstruction, Argument } from '../src/main';
 
 function assertArgument(argument: Argument, value: string, startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
     assert.equal(argument.getValue(), value);
@@ -117,6 +117,16 @@ describe("JSON Instruction", () => {
         assertArgument(bracket, "]", 0, 14, 0, 15);
     });
 
+    it("SHELL [ \"a b\\tc\" ]", () => {
+        let dockerfile = DockerfileParser.parse("SHELL [ \"a b\tc\" ]");
+        let instruction = dockerfile.getInstructions()[0] as JSONInstruction;
+        let strings = instruction.getJSONStrings();
+        assert.equal(strings.length, 1);
+        assertArgument(strings[0], "\"a b\tc\"", 0, 8, 0, 15);
+        assert.equal(strings[0].getJSONValue(), "a b\tc");
+        assertArgument(instruction.getClosingBracket(), "]", 0, 16, 0, 17);
+    });
+
     it("SHELL [ \"\"\" ]", () => {
         let dockerfile = DockerfileParser.parse("SHELL [ \"\"\" ]");
         let instruction = dockerfile.getInstructions()[0] as JSONInstruction;
@@ -229,4 +239,42 @@ describe("JSON Instruction", () => {
         assert.equal(instruction.getJSONStrings(), 0);
         assert.equal(instruction.getClosingBracket(), null);
     });
+
+    it("getForm", () => {
+        const instructions = DockerfileParser.parse("CMD ls\nCMD [ \"ls\" ]\nCMD []\nCMD [ 'ls' ]\nCMD [ \"ls\"\nCMD").getInstructions() as JSONInstruction[];
+        assert.equal(instructions[0].getForm(), CommandForm.SHELL);
+        assert.equal(instructions[1].getForm(), CommandForm.EXEC);
+        assert.equal(instructions[2].getForm(), CommandForm.EXEC);
+        assert.equal(instructions[3].getForm(), CommandForm.SHELL);
+        assert.equal(instructions[4].getForm(), CommandForm.SHELL);
+        assert.equal(instructions[5].getForm(), CommandForm.SHELL);
+    });
+
+    describe("getArgv", () => {
+        it("exec form", () => {
+            const dockerfile = DockerfileParser.parse("FROM alpine\nRUN [ \"echo\", \"$HOME\" ]\nCMD [ \"a b\" ]\nENTRYPOINT []");
+            assert.deepStrictEqual(dockerfile.getRUNs()[0].getArgv(), [ "echo", "$HOME" ]);
+            assert.deepStrictEqual(dockerfile.getCMDs()[0].getArgv(), [ "a b" ]);
+            assert.deepStrictEqual(dockerfile.getENTRYPOINTs()[0].getArgv(), []);
+        });
+
+        it("shell form", () => {
+            const dockerfile = DockerfileParser.parse("FROM alpine\nRUN --network=none echo \\\n  $HOME\nCMD echo hello  world\nENTRYPOINT\nCMD [ \"ls\"");
+            assert.deepStrictEqual(dockerfile.getRUNs()[0].getArgv(), [ "/bin/sh", "-c", "echo   $HOME" ]);
+            assert.deepStrictEqual(dockerfile.getCMDs()[0].getArgv(), [ "/bin/sh", "-c", "echo hello  world" ]);
+            assert.deepStrictEqual(dockerfile.getCMDs()[0].getArgv([ "pwsh", "-Command" ]), [ "pwsh", "-Command", "echo hello  world" ]);
+            assert.deepStrictEqual(dockerfile.getENTRYPOINTs()[0].getArgv(), []);
+            assert.deepStrictEqual(dockerfile.getCMDs()[1].getArgv(), [ "/bin/sh", "-c", "[ \"ls\"" ]);
+        });
+
+        it("SHELL", () => {
+            const content = "FROM alpine AS base\nRUN ls\nSHELL [ \"bash\", \"-o\", \"pipefail\", \"-c\" ]\nRUN ls\nFROM base\nRUN ls\nSHELL [ \"zsh\", \"-c\" ]\nRUN ls\nFROM alpine\nRUN ls";
+            const runs = DockerfileParser.parse(content).getRUNs();
+            assert.deepStrictEqual(runs[0].getArgv(), [ "/bin/sh", "-c", "ls" ]);
+            assert.deepStrictEqual(runs[1].getArgv(), [ "bash", "-o", "pipefail", "-c", "ls" ]);
+            assert.deepStrictEqual(runs[2].getArgv(), [ "bash", "-o", "pipefail", "-c", "ls" ]);
+            assert.deepStrictEqual(runs[3].getArgv(), [ "zsh", "-c", "ls" ]);
+            assert.deepStrictEqual(runs[4].getArgv(), [ "/bin/sh", "-c", "ls" ]);
+        });
+    });
 });
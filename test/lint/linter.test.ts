@@ -0,0 +1,79 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { assertRange } from '../util';
+import { Dockerfile, DockerfileLinter, DockerfileParser, Rule, RuleRegistry } from '../../src/main';
+
+class NoRun implements Rule {
+
+    public getId(): string {
+        return "no-run";
+    }
+
+    public getDescription(): string {
+        return "RUN is not allowed";
+    }
+
+    public getDefaultSeverity(): DiagnosticSeverity {
+        return DiagnosticSeverity.Error;
+    }
+
+    public check(dockerfile: Dockerfile): Diagnostic[] {
+        return dockerfile.getRUNs().map(run => Diagnostic.create(run.getInstructionRange(), "RUN is not allowed"));
+    }
+}
+
+describe("DockerfileLinter", () => {
+    it("createRegistry", () => {
+        const registry = DockerfileLinter.createRegistry();
+        const ids = registry.getRules().map(rule => rule.getId()).sort();
+        assert.deepStrictEqual(ids, [ "deprecated-maintainer", "exec-form", "latest-tag", "multiple-cmd", "relative-workdir" ]);
+        assert.equal(registry.getRule("latest-tag").getDefaultSeverity(), DiagnosticSeverity.Warning);
+        assert.equal(registry.getRule("unknown"), null);
+    });
+
+    it("registry", () => {
+        const registry = new RuleRegistry();
+        assert.equal(registry.getRules().length, 0);
+        registry.register(new NoRun());
+        registry.register(new NoRun());
+        assert.equal(registry.getRules().length, 1);
+        assert.equal(registry.unregister("no-run"), true);
+        assert.equal(registry.unregister("no-run"), false);
+        assert.equal(registry.getRules().length, 0);
+    });
+
+    it("lint", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine:3.10\nMAINTAINER me\nRUN ls\nWORKDIR app");
+        let diagnostics = DockerfileLinter.lint(dockerfile);
+        assert.equal(diagnostics.length, 2);
+        assert.equal(diagnostics[0].code, "deprecated-maintainer");
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Warning);
+        assert.equal(diagnostics[0].source, "dockerfile-ast");
+        assertRange(diagnostics[0].range, 1, 0, 1, 10);
+        assert.equal(diagnostics[1].code, "relative-workdir");
+
+        diagnostics = DockerfileLinter.lint(dockerfile, { rules: { "deprecated-maintainer": "off", "relative-workdir": DiagnosticSeverity.Error } });
+        assert.equal(diagnostics.length, 1);
+        assert.equal(diagnostics[0].code, "relative-workdir");
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Error);
+    });
+
+    it("custom rules", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine:3.10\nRUN ls\nMAINTAINER me");
+        const registry = DockerfileLinter.createRegistry();
+        registry.register(new NoRun());
+        let diagnostics = DockerfileLinter.lint(dockerfile, { registry: registry });
+        assert.equal(diagnostics.length, 2);
+        assert.equal(diagnostics[0].code, "no-run");
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Error);
+        assert.equal(diagnostics[1].code, "deprecated-maintainer");
+
+        diagnostics = DockerfileLinter.lint(dockerfile, { registry: registry, rules: { "no-run": DiagnosticSeverity.Hint } });
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Hint);
+    });
+});
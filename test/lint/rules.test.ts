@@ -0,0 +1,70 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { Diagnostic } from 'vscode-languageserver-types';
+import { assertRange } from '../util';
+import { DockerfileLinter, DockerfileParser } from '../../src/main';
+
+function lint(content: string, rule: string): Diagnostic[] {
+    const registry = DockerfileLinter.createRegistry();
+    const diagnostics = registry.getRule(rule).check(DockerfileParser.parse(content));
+    // the linter should report the same problems
+    const linted = DockerfileLinter.lint(DockerfileParser.parse(content)).filter(diagnostic => diagnostic.code === rule);
+    assert.equal(linted.length, diagnostics.length);
+    return diagnostics;
+}
+
+describe("Rules", () => {
+    it("deprecated-maintainer", () => {
+        let diagnostics = lint("FROM alpine:3.10\nmaintainer me", "deprecated-maintainer");
+        assert.equal(diagnostics.length, 1);
+        assertRange(diagnostics[0].range, 1, 0, 1, 10);
+
+        diagnostics = lint("FROM alpine:3.10\nLABEL maintainer=me", "deprecated-maintainer");
+        assert.equal(diagnostics.length, 0);
+    });
+
+    it("exec-form", () => {
+        let diagnostics = lint("FROM alpine:3.10\nCMD ls -l\nENTRYPOINT [ \"ls\"\nRUN ls", "exec-form");
+        assert.equal(diagnostics.length, 2);
+        assertRange(diagnostics[0].range, 1, 4, 1, 9);
+        assertRange(diagnostics[1].range, 2, 11, 2, 17);
+
+        diagnostics = lint("FROM alpine:3.10\nCMD [ \"ls\" ]\nENTRYPOINT []\nCMD", "exec-form");
+        assert.equal(diagnostics.length, 0);
+    });
+
+    it("latest-tag", () => {
+        let diagnostics = lint("FROM alpine:latest\nFROM node\nFROM localhost:5000/node", "latest-tag");
+        assert.equal(diagnostics.length, 3);
+        assertRange(diagnostics[0].range, 0, 12, 0, 18);
+        assertRange(diagnostics[1].range, 1, 5, 1, 9);
+        assertRange(diagnostics[2].range, 2, 5, 2, 24);
+
+        diagnostics = lint("ARG tag=latest\nFROM alpine:$tag AS build\nFROM build\nFROM scratch\nFROM node@sha256:abc\nFROM node:12", "latest-tag");
+        assert.equal(diagnostics.length, 0);
+    });
+
+    it("multiple-cmd", () => {
+        let diagnostics = lint("FROM alpine:3.10\nCMD a\nCMD b\nCMD c\nFROM alpine:3.10\nCMD d", "multiple-cmd");
+        assert.equal(diagnostics.length, 2);
+        assertRange(diagnostics[0].range, 1, 0, 1, 3);
+        assertRange(diagnostics[1].range, 2, 0, 2, 3);
+
+        diagnostics = lint("FROM alpine:3.10\nCMD a\nFROM alpine:3.10\nCMD b", "multiple-cmd");
+        assert.equal(diagnostics.length, 0);
+    });
+
+    it("relative-workdir", () => {
+        let diagnostics = lint("FROM alpine:3.10\nWORKDIR app\nARG dir=tmp\nWORKDIR $dir", "relative-workdir");
+        assert.equal(diagnostics.length, 2);
+        assertRange(diagnostics[0].range, 1, 8, 1, 11);
+        assertRange(diagnostics[1].range, 3, 8, 3, 12);
+
+        diagnostics = lint("FROM alpine:3.10\nWORKDIR /app\nWORKDIR $HOME\nWORKDIR C:/app\nWORKDIR", "relative-workdir");
+        assert.equal(diagnostics.length, 0);
+    });
+});
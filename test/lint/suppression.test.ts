@@ -0,0 +1,68 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { DiagnosticSeverity } from 'vscode-languageserver-types';
+import { assertRange } from '../util';
+import { DiagnosticCode, DockerfileLinter, DockerfileParser } from '../../src/main';
+
+describe("Suppressions", () => {
+    it("next-line", () => {
+        let dockerfile = DockerfileParser.parse("FROM alpine:3.10\n# dockerfile-ast-ignore next-line deprecated-maintainer\nMAINTAINER me\nMAINTAINER you");
+        let diagnostics = DockerfileLinter.lint(dockerfile);
+        assert.equal(diagnostics.length, 1);
+        assert.equal(diagnostics[0].code, "deprecated-maintainer");
+        assertRange(diagnostics[0].range, 3, 0, 3, 10);
+
+        dockerfile = DockerfileParser.parse("FROM alpine:3.10\n# dockerfile-ast-ignore next-line relative-workdir\nWORKDIR \\\n app");
+        diagnostics = DockerfileLinter.lint(dockerfile);
+        assert.equal(diagnostics.length, 0);
+    });
+
+    it("multiple rules", () => {
+        const dockerfile = DockerfileParser.parse("# dockerfile-ast-ignore next-line latest-tag, exec-form\nFROM node\n# dockerfile-ast-ignore next-line exec-form,deprecated-maintainer\nCMD ls");
+        const diagnostics = DockerfileLinter.lint(dockerfile);
+        assert.equal(diagnostics.length, 2);
+        assert.equal(diagnostics[0].code, DiagnosticCode.UnusedSuppression);
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Warning);
+        assert.equal(diagnostics[0].source, "dockerfile-ast");
+        assert.equal(diagnostics[0].message, "Suppression for \"exec-form\" did not match any problem");
+        assertRange(diagnostics[0].range, 0, 46, 0, 55);
+        assert.equal(diagnostics[1].code, DiagnosticCode.UnusedSuppression);
+        assert.equal(diagnostics[1].message, "Suppression for \"deprecated-maintainer\" did not match any problem");
+        assertRange(diagnostics[1].range, 2, 44, 2, 65);
+    });
+
+    it("file", () => {
+        const dockerfile = DockerfileParser.parse("# dockerfile-ast-ignore-file relative-workdir\nFROM alpine:3.10\nWORKDIR a\nFROM alpine:3.10\nWORKDIR b");
+        assert.equal(DockerfileLinter.lint(dockerfile).length, 0);
+    });
+
+    it("unused", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine:3.10\n# dockerfile-ast-ignore next-line relative-workdir\nWORKDIR /a\n# dockerfile-ast-ignore-file unknown-rule");
+        let diagnostics = DockerfileLinter.lint(dockerfile);
+        assert.equal(diagnostics.length, 2);
+        assertRange(diagnostics[0].range, 1, 34, 1, 50);
+        assertRange(diagnostics[1].range, 3, 29, 3, 41);
+
+        diagnostics = DockerfileLinter.lint(dockerfile, { rules: { "relative-workdir": "off" } });
+        assert.equal(diagnostics.length, 1);
+        assertRange(diagnostics[0].range, 3, 29, 3, 41);
+
+        diagnostics = DockerfileLinter.lint(dockerfile, { rules: { "unused-suppression": DiagnosticSeverity.Error } });
+        assert.equal(diagnostics.length, 2);
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Error);
+
+        diagnostics = DockerfileLinter.lint(dockerfile, { rules: { "unused-suppression": "off" } });
+        assert.equal(diagnostics.length, 0);
+    });
+
+    it("ignored comments", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine:3.10\n# dockerfile-ast-ignore deprecated-maintainer\n# dockerfile-ast-ignore next-line\nMAINTAINER me");
+        const diagnostics = DockerfileLinter.lint(dockerfile);
+        assert.equal(diagnostics.length, 1);
+        assert.equal(diagnostics[0].code, "deprecated-maintainer");
+    });
+});
@@ -0,0 +1,91 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+
+import { DockerfileParser, DockerfilePrinter } from '../src/main';
+
+/**
+ * Collects the string literals that the test suite passes to
+ * DockerfileParser.parse(string) so they can be used as fixtures.
+ */
+function getFixtures(): string[] {
+    const fixtures = [];
+    const testFolder = path.join(__dirname, "..", "..", "test");
+    const folders = [ testFolder, path.join(testFolder, "instructions") ];
+    for (const folder of folders) {
+        for (const file of fs.readdirSync(folder)) {
+            if (!file.endsWith(".test.ts")) {
+                continue;
+            }
+            const source = fs.readFileSync(path.join(folder, file), "utf8");
+            const regex = /DockerfileParser\.parse\(("(?:[^"\\]|\\.)*")\)/g;
+            let match = regex.exec(source);
+            while (match !== null) {
+                try {
+                    fixtures.push(JSON.parse(match[1]));
+                } catch (e) {
+                    // not a JSON compatible string literal, ignore it
+                }
+                match = regex.exec(source);
+            }
+        }
+    }
+    return fixtures;
+}
+
+describe("DockerfilePrinter", () => {
+    it("round-trip fixtures", () => {
+        const fixtures = getFixtures();
+        assert.ok(fixtures.length > 100);
+        for (const fixture of fixtures) {
+            assert.equal(DockerfilePrinter.print(DockerfileParser.parse(fixture)), fixture);
+            const crlf = fixture.replace(/\r?\n/g, "\r\n");
+            assert.equal(DockerfilePrinter.print(DockerfileParser.parse(crlf)), crlf);
+        }
+    });
+
+    it("round-trip", () => {
+        const content =
+            "#escape=`\r\n" +
+            "\r\n" +
+            "  # comment\r\n" +
+            "FROM alpine   \r\n" +
+            "RUN echo a `\r\n" +
+            "# embedded\r\n" +
+            "\r\n" +
+            "   && echo b\r\n" +
+            "\r\n" +
+            "\r\n" +
+            "COPY <<EOF /a\r\n" +
+            "# not a comment\r\n" +
+            "EOF\r\n" +
+            "  \t";
+        assert.equal(DockerfilePrinter.print(DockerfileParser.parse(content)), content);
+    });
+
+    it("printInstruction", () => {
+        const content = "FROM alpine\n# comment\nRUN echo a \\\n# embedded\n && echo b\n\nCMD ls";
+        const dockerfile = DockerfileParser.parse(content);
+        const printed = DockerfilePrinter.print(dockerfile, {
+            printInstruction: (instruction) => {
+                return instruction.getKeyword() === "RUN" ? "RUN echo c" : null;
+            }
+        });
+        assert.equal(printed, "FROM alpine\n# comment\nRUN echo c\n\nCMD ls");
+    });
+
+    it("printComment", () => {
+        const content = "# a\nFROM alpine\n# b\nRUN echo a \\\n# embedded\n && echo b";
+        const dockerfile = DockerfileParser.parse(content);
+        const printed = DockerfilePrinter.print(dockerfile, {
+            printComment: (comment) => {
+                return comment.toString().toUpperCase();
+            }
+        });
+        assert.equal(printed, "# A\nFROM alpine\n# B\nRUN echo a \\\n# embedded\n && echo b");
+    });
+});
@@ -0,0 +1,185 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Remy Suen. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import * as assert from "assert";
+
+import { assertRange } from './util';
+import { DockerfileParser, ShellCommand, ShellScript } from '../src/main';
+
+function parseRun(content: string): ShellScript {
+    return DockerfileParser.parse(content).getRUNs()[0].getShellScript();
+}
+
+function assertCommand(command: ShellCommand, name: string, args: string[]) {
+    assert.equal(command.getName().getValue(), name);
+    assert.deepStrictEqual(command.getArguments().map(arg => arg.getValue()), args);
+}
+
+describe("ShellParser", () => {
+    it("simple command", () => {
+        const script = parseRun("RUN apt-get install -y curl");
+        assertRange(script.getRange(), 0, 4, 0, 27);
+        assert.equal(script.getPipelines().length, 1);
+        assert.deepStrictEqual(script.getOperators(), []);
+        const commands = script.getCommands();
+        assert.equal(commands.length, 1);
+        assertCommand(commands[0], "apt-get", [ "install", "-y", "curl" ]);
+        assertRange(commands[0].getRange(), 0, 4, 0, 27);
+        assertRange(commands[0].getName().getRange(), 0, 4, 0, 11);
+        assertRange(commands[0].getArguments()[2].getRange(), 0, 23, 0, 27);
+        assert.equal(commands[0].getAssignments().length, 0);
+        assert.equal(commands[0].getRedirects().length, 0);
+    });
+
+    it("lists", () => {
+        const script = parseRun("RUN apt-get update && apt-get install -y curl || exit 1; rm -rf /var/lib/apt/lists/* & wait;");
+        assert.deepStrictEqual(script.getOperators(), [ "&&", "||", ";", "&" ]);
+        const commands = script.getCommands();
+        assert.equal(commands.length, 5);
+        assertCommand(commands[0], "apt-get", [ "update" ]);
+        assertCommand(commands[1], "apt-get", [ "install", "-y", "curl" ]);
+        assertCommand(commands[2], "exit", [ "1" ]);
+        assertCommand(commands[3], "rm", [ "-rf", "/var/lib/apt/lists/*" ]);
+        assertCommand(commands[4], "wait", []);
+        assertRange(script.getPipelines()[1].getRange(), 0, 22, 0, 45);
+    });
+
+    it("pipelines", () => {
+        const script = parseRun("RUN curl -sSL https://example.com/install.sh | sh -s -- -y |& tee log && ! grep error log");
+        const pipelines = script.getPipelines();
+        assert.equal(pipelines.length, 2);
+        assert.equal(pipelines[0].isNegated(), false);
+        assert.equal(pipelines[0].getCommands().length, 3);
+        assertCommand(pipelines[0].getCommands()[0], "curl", [ "-sSL", "https://example.com/install.sh" ]);
+        assertCommand(pipelines[0].getCommands()[1], "sh", [ "-s", "--", "-y" ]);
+        assertCommand(pipelines[0].getCommands()[2], "tee", [ "log" ]);
+        assert.equal(pipelines[1].isNegated(), true);
+        assertCommand(pipelines[1].getCommands()[0], "grep", [ "error", "log" ]);
+        assertRange(pipelines[1].getRange(), 0, 73, 0, 89);
+    });
+
+    it("quotes", () => {
+        const command = parseRun("RUN echo 'a b' \"c $d \\\"e\\\"\" f\\ g \"\\x\" $(echo \"h i\") ${j:-'k'} `l m`").getCommands()[0];
+        const args = command.getArguments();
+        assert.deepStrictEqual(args.map(arg => arg.getValue()), [ "a b", "c $d \"e\"", "f g", "\\x", "$(echo \"h i\")", "${j:-'k'}", "`l m`" ]);
+        assert.equal(args[0].getRawValue(), "'a b'");
+        assertRange(args[0].getRange(), 0, 9, 0, 14);
+    });
+
+    it("assignments", () => {
+        const command = parseRun("RUN DEBIAN_FRONTEND=noninteractive A=\"b c\" apt-get install x=1").getCommands()[0];
+        assert.deepStrictEqual(command.getAssignments().map(word => word.getValue()), [ "DEBIAN_FRONTEND=noninteractive", "A=b c" ]);
+        assertCommand(command, "apt-get", [ "install", "x=1" ]);
+        assert.equal(command.getWords().length, 5);
+
+        const assignment = parseRun("RUN A=b").getCommands()[0];
+        assert.equal(assignment.getName(), null);
+        assert.equal(assignment.getArguments().length, 0);
+        assert.equal(assignment.getAssignments().length, 1);
+    });
+
+    it("redirects", () => {
+        const command = parseRun("RUN make > build.log 2>&1 <input &>>all").getCommands()[0];
+        assertCommand(command, "make", []);
+        const redirects = command.getRedirects();
+        assert.equal(redirects.length, 4);
+        assert.equal(redirects[0].getOperator(), ">");
+        assert.equal(redirects[0].getFileDescriptor(), null);
+        assert.equal(redirects[0].getTarget().getValue(), "build.log");
+        assertRange(redirects[0].getRange(), 0, 9, 0, 20);
+        assert.equal(redirects[1].getOperator(), ">&");
+        assert.equal(redirects[1].getFileDescriptor(), "2");
+        assert.equal(redirects[1].getTarget().getValue(), "1");
+        assertRange(redirects[1].getRange(), 0, 21, 0, 25);
+        assert.equal(redirects[2].getOperator(), "<");
+        assert.equal(redirects[2].getTarget().getValue(), "input");
+        assert.equal(redirects[3].getOperator(), "&>>");
+        assert.equal(redirects[3].getTarget().getValue(), "all");
+        assertRange(command.getRange(), 0, 4, 0, 39);
+
+        const missing = parseRun("RUN echo >").getCommands()[0];
+        assert.equal(missing.getRedirects()[0].getTarget(), null);
+    });
+
+    it("heredoc", () => {
+        const command = parseRun("RUN <<EOF bash\necho hello\nEOF").getCommands()[0];
+        assertCommand(command, "bash", []);
+        assert.equal(command.getRedirects()[0].getOperator(), "<<");
+        assert.equal(command.getRedirects()[0].getTarget().getValue(), "EOF");
+    });
+
+    it("heredoc script", () => {
+        let script = parseRun("RUN <<EOF\napt-get update\n# comment\napt-get install -y \\\n  curl && rm -rf /tmp\nEOF");
+        const commands = script.getCommands();
+        assert.equal(commands.length, 3);
+        assertCommand(commands[0], "apt-get", [ "update" ]);
+        assertCommand(commands[1], "apt-get", [ "install", "-y", "curl" ]);
+        assertCommand(commands[2], "rm", [ "-rf", "/tmp" ]);
+        assertRange(commands[0].getRange(), 1, 0, 1, 14);
+        assert.deepStrictEqual(script.getOperators(), [ ";", "&&" ]);
+
+        script = parseRun("RUN --network=none <<-'EOF'\n\t#!/bin/bash\n\tset -e\nEOF");
+        assertCommand(script.getCommands()[0], "set", [ "-e" ]);
+
+        script = parseRun("RUN <<EOF\n#!/usr/bin/env sh\necho\nEOF");
+        assertCommand(script.getCommands()[0], "echo", []);
+
+        assert.equal(parseRun("RUN <<EOF\n#!/usr/bin/env python3\nprint(1)\nEOF"), null);
+        assert.equal(parseRun("RUN <<-EOF\n\t#!/usr/bin/python3\n\tprint(1)\n\tEOF"), null);
+
+        const dockerfile = DockerfileParser.parse("# escape=`\nFROM windows\nRUN <<EOF\necho a \\\n  b\nEOF");
+        assertCommand(dockerfile.getRUNs()[0].getShellScript().getCommands()[0], "echo", [ "a", "b" ]);
+    });
+
+    it("line continuations", () => {
+        const script = parseRun("RUN apt-get update \\\n  # comment && rm\n    && apt-get \\\ninstall \\\n -y curl");
+        const commands = script.getCommands();
+        assert.equal(commands.length, 2);
+        assertCommand(commands[0], "apt-get", [ "update" ]);
+        assertCommand(commands[1], "apt-get", [ "install", "-y", "curl" ]);
+        assertRange(commands[1].getRange(), 2, 7, 4, 8);
+        assertRange(commands[1].getArguments()[0].getRange(), 3, 0, 3, 7);
+        assertRange(script.getRange(), 0, 4, 4, 8);
+    });
+
+    it("escape directive", () => {
+        const dockerfile = DockerfileParser.parse("# escape=`\nFROM windows\nRUN dir `\n  C:\\");
+        const command = dockerfile.getRUNs()[0].getShellScript().getCommands()[0];
+        assertCommand(command, "dir", [ "C:" ]);
+        assertRange(command.getArguments()[0].getRange(), 3, 2, 3, 5);
+    });
+
+    it("comments", () => {
+        const commands = parseRun("RUN ls # && rm -rf /").getCommands();
+        assert.equal(commands.length, 1);
+        assertCommand(commands[0], "ls", []);
+        assertCommand(parseRun("RUN echo a#b").getCommands()[0], "echo", [ "a#b" ]);
+    });
+
+    it("compound commands", () => {
+        const script = parseRun("RUN if [ -f x ]; then rm x; else cd /tmp; fi && (cd /app && make) && { echo done; }");
+        assert.deepStrictEqual(script.getCommands().map(command => command.getName().getValue()), [ "[", "rm", "cd", "cd", "make", "echo" ]);
+        assertCommand(script.getCommands()[0], "[", [ "-f", "x", "]" ]);
+    });
+
+    it("exec form", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nRUN [ \"ls\" ]\nCMD [ \"ls\" ]\nENTRYPOINT [ \"ls\" ]\nRUN");
+        assert.equal(dockerfile.getRUNs()[0].getShellScript(), null);
+        assert.equal(dockerfile.getCMDs()[0].getShellScript(), null);
+        assert.equal(dockerfile.getENTRYPOINTs()[0].getShellScript(), null);
+        assert.equal(dockerfile.getRUNs()[1].getShellScript(), null);
+    });
+
+    it("CMD and ENTRYPOINT", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine\nCMD nginx -g 'daemon off;'\nENTRYPOINT exec app | tee");
+        assertCommand(dockerfile.getCMDs()[0].getShellScript().getCommands()[0], "nginx", [ "-g", "daemon off;" ]);
+        assert.equal(dockerfile.getENTRYPOINTs()[0].getShellScript().getPipelines()[0].getCommands().length, 2);
+    });
+
+    it("flags", () => {
+        const script = parseRun("RUN --mount=type=cache,target=/root/.cache pip install -r requirements.txt");
+        assertCommand(script.getCommands()[0], "pip", [ "install", "-r", "requirements.txt" ]);
+        assertRange(script.getRange(), 0, 43, 0, 74);
+    });
+});
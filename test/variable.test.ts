@@ -718,6 +718,99 @@ describe("Variable", () => {
         assert.equal(variable.toString(), "$image");
     });
 
+    describe("operators", () => {
+        function assertOperator(content: string, name: string, modifier: string, operator: string | null, parameter: string) {
+            const dockerfile = DockerfileParser.parse(content);
+            const variable = dockerfile.getInstructions()[0].getVariables()[0];
+            assert.equal(variable.getName(), name);
+            assert.equal(variable.getModifier(), modifier);
+            assert.equal(variable.getOperator(), operator);
+            assert.equal(variable.getSubstitutionParameter(), parameter);
+        }
+
+        it("colon operators", () => {
+            assertOperator("RUN echo ${var:-x}", "var", "-", ":-", "x");
+            assertOperator("RUN echo ${var:+x}", "var", "+", ":+", "x");
+            assertOperator("RUN echo ${var:?x}", "var", "?", ":?", "x");
+            assertOperator("RUN echo ${var:x}", "var", "x", null, "");
+        });
+
+        it("operators without a colon", () => {
+            assertOperator("RUN echo ${var-x}", "var", "-", "-", "x");
+            assertOperator("RUN echo ${var+x}", "var", "+", "+", "x");
+            assertOperator("RUN echo ${var?x}", "var", "?", "?", "x");
+            assertOperator("RUN echo ${var#x}", "var", "#", "#", "x");
+            assertOperator("RUN echo ${var%x}", "var", "%", "%", "x");
+            assertOperator("RUN echo ${var/x/y}", "var", "/", "/", "x/y");
+            assertOperator("RUN echo ${var--x}", "var", "-", "-", "-x");
+        });
+
+        it("double operators", () => {
+            const dockerfile = DockerfileParser.parse("RUN echo ${var##*.}");
+            const variable = dockerfile.getInstructions()[0].getVariables()[0];
+            assert.equal(variable.getName(), "var");
+            assertRange(variable.getNameRange(), 0, 11, 0, 14);
+            assert.equal(variable.getModifier(), "##");
+            assert.equal(variable.getOperator(), "##");
+            assertRange(variable.getModifierRange(), 0, 14, 0, 16);
+            assert.equal(variable.getSubstitutionParameter(), "*.");
+            assertRange(variable.getSubstitutionRange(), 0, 16, 0, 18);
+            assert.equal(variable.toString(), "${var##*.}");
+
+            assertOperator("RUN echo ${var%%x}", "var", "%%", "%%", "x");
+            assertOperator("RUN echo ${var//x/y}", "var", "//", "//", "x/y");
+            assertOperator("RUN echo ${var//}", "var", "//", "//", "");
+        });
+
+        it("escaped characters in the substitution parameter", () => {
+            const dockerfile = DockerfileParser.parse("RUN echo ${var//\\//:} ${var/\\}/x}");
+            const variables = dockerfile.getInstructions()[0].getVariables();
+            assert.equal(variables.length, 2);
+            assert.equal(variables[0].getSubstitutionParameter(), "\\//:");
+            assertRange(variables[0].getSubstitutionRange(), 0, 16, 0, 20);
+            assertRange(variables[0].getRange(), 0, 9, 0, 21);
+            assert.equal(variables[1].getSubstitutionParameter(), "\\}/x");
+            assertRange(variables[1].getRange(), 0, 22, 0, 33);
+            assert.deepStrictEqual(dockerfile.getDiagnostics(), []);
+        });
+
+        it("nested variables", () => {
+            const dockerfile = DockerfileParser.parse("ARG b\nRUN echo ${a:-${b:+$c}}d");
+            const variables = dockerfile.getInstructions()[1].getVariables();
+            assert.equal(variables.length, 3);
+            assert.equal(variables[0].getName(), "a");
+            assertRange(variables[0].getRange(), 1, 9, 1, 23);
+            assert.equal(variables[0].getSubstitutionParameter(), "${b:+$c}");
+            assertRange(variables[0].getSubstitutionRange(), 1, 14, 1, 22);
+            assert.equal(variables[0].isDefined(), false);
+            assert.equal(variables[1].getName(), "b");
+            assertRange(variables[1].getRange(), 1, 14, 1, 22);
+            assert.equal(variables[1].getOperator(), ":+");
+            assert.equal(variables[1].isDefined(), true);
+            assert.equal(variables[2].getName(), "c");
+            assertRange(variables[2].getRange(), 1, 19, 1, 21);
+        });
+    });
+
+    it("platform variables", () => {
+        const dockerfile = DockerfileParser.parse("FROM alpine:$TARGETARCH\nRUN echo $TARGETARCH\nARG TARGETARCH\nRUN echo $TARGETARCH");
+        let variable = dockerfile.getInstructions()[0].getVariables()[0];
+        assert.equal(variable.isDefined(), true);
+        assert.equal(variable.isBuildVariable(), true);
+        variable = dockerfile.getInstructions()[1].getVariables()[0];
+        assert.equal(variable.isDefined(), false);
+        assert.equal(variable.isBuildVariable(), false);
+        variable = dockerfile.getInstructions()[3].getVariables()[0];
+        assert.equal(variable.isDefined(), true);
+        assert.equal(variable.isBuildVariable(), true);
+
+        const variables = dockerfile.getAvailableVariables(0);
+        assert.notEqual(variables.indexOf("TARGETARCH"), -1);
+        assert.notEqual(variables.indexOf("BUILDKIT_SYNTAX"), -1);
+        assert.equal(dockerfile.getAvailableVariables(1).indexOf("TARGETARCH"), -1);
+        assert.deepStrictEqual(dockerfile.getAvailableVariables(3), [ "TARGETARCH" ]);
+    });
+
     describe("default variables", () => {
         for (let defaultVariable of DefaultVariables) {
             let simple = "$" + defaultVariable;